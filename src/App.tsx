@@ -4,6 +4,7 @@ import CourseGrid from './components/CourseGrid';
 import LessonGrid from './components/LessonGrid';
 import VideoPlayer from './components/VideoPlayer';
 import { usePreferences } from './hooks/usePreferences';
+import { startFolderWatcher, stopFolderWatcher } from './utils/folderWatcher';
 
 function AppContent() {
   const { preferences } = usePreferences();
@@ -25,6 +26,14 @@ function AppContent() {
     }
   }, [preferences?.theme]);
 
+  // Watch course folders for changes (opt-in)
+  useEffect(() => {
+    if (!preferences?.watchFolders) return;
+
+    startFolderWatcher();
+    return stopFolderWatcher;
+  }, [preferences?.watchFolders]);
+
   return (
     <Routes>
       <Route path="/" element={<CourseGrid />} />
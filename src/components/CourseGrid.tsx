@@ -3,22 +3,46 @@ import { useNavigate } from 'react-router-dom';
 import { useFileSystem } from '../hooks/useFileSystem';
 import { useProgress } from '../hooks/useProgress';
 import { usePreferences } from '../hooks/usePreferences';
+import { useCourseUpdates } from '../hooks/useCourseUpdates';
+import { useImportQueue } from '../hooks/useImportQueue';
 import { getAllCourses, deleteCourse, deleteFolderHandle } from '../utils/storage';
-import { formatTotalDuration, formatDisplayName } from '../utils/folderParser';
+import { formatTotalDuration, formatDisplayName, generateCourseId } from '../utils/folderParser';
+import { formatRescanSummary } from '../utils/rescan';
+import { startMetadataFill } from '../utils/videoMetadata';
+import { countNewVideos, formatNewVideos } from '../utils/folderWatcher';
+import { getCoverImage, pickImageFile, createCoverFromImage, setCourseCover } from '../utils/coverArt';
+import { pickFolderFiles } from '../utils/courseSource';
+import { isFileDrag, readDroppedItems } from '../utils/droppedItems';
+import { isSessionCourse, needsFolderReselect } from '../utils/sessionCourses';
 import Settings from './Settings';
 import Help from './Help';
 import ConfirmDialog from './ConfirmDialog';
 import DropdownMenu from './DropdownMenu';
+import ScanProgressBar from './ScanProgressBar';
+import ImportQueueList from './ImportQueueList';
 import type { Course } from '../types';
 
 const CourseGrid: React.FC = () => {
   const navigate = useNavigate();
-  const { selectFolder, isLoading, error, isSupported } = useFileSystem();
+  const {
+    selectFolder,
+    importFolderFiles,
+    importQueuedFolder,
+    pickLibrary,
+    rescanCourse,
+    cancelScan,
+    scanProgress,
+    isLoading,
+    error,
+    isSupported,
+  } = useFileSystem();
   const { getCourseProgress, resetCourseProgress, markCourseComplete } = useProgress();
   const { preferences, updatePreference } = usePreferences();
   const [courses, setCourses] = useState<Course[]>([]);
   const [showSettings, setShowSettings] = useState(false);
   const [showHelp, setShowHelp] = useState(false);
+  const [rescanNotice, setRescanNotice] = useState<string | null>(null);
+  const [isDraggingFolder, setIsDraggingFolder] = useState(false);
   const [confirmDialog, setConfirmDialog] = useState<{
     isOpen: boolean;
     title: string;
@@ -27,10 +51,18 @@ const CourseGrid: React.FC = () => {
     confirmStyle?: 'danger' | 'primary';
   }>({ isOpen: false, title: '', message: '', onConfirm: () => {} });
 
+  // Dropped folders are imported one at a time; the grid refreshes after each
+  const importQueue = useImportQueue(importQueuedFolder, () => loadCourses());
+
   useEffect(() => {
     loadCourses();
   }, []);
 
+  // Show durations as the background metadata job fills them in
+  useCourseUpdates(updated => {
+    setCourses(prev => prev.map(course => course.id === updated.id ? updated : course));
+  });
+
   const loadCourses = async (): Promise<void> => {
     const c = await getAllCourses();
     // Filter out old-format courses that don't have the new structure
@@ -40,17 +72,119 @@ const CourseGrid: React.FC = () => {
       course.lessons[0].videos !== undefined
     );
     setCourses(validCourses);
+
+    // Resume filling in metadata for imports that were interrupted
+    validCourses
+      .filter(course => course.metadataPending && !needsFolderReselect(course))
+      .forEach(course => startMetadataFill(course));
   };
 
   const handleAddFolder = async (): Promise<void> => {
+    if (!isSupported) {
+      // No File System Access API: import the folder's files for this session
+      const files = await pickFolderFiles();
+      if (files && await importFolderFiles(files)) {
+        await loadCourses();
+      }
+      return;
+    }
+
     const course = await selectFolder();
     if (course) {
       await loadCourses();
     }
   };
 
-  const handleOpenCourse = (courseId: string): void => {
-    navigate(`/course/${courseId}`);
+  // Import every course folder of a library folder through the import queue
+  // Courses already in the library are skipped (session courses from an earlier visit are reselected).
+  const handleImportLibrary = async (): Promise<void> => {
+    const folders = await pickLibrary();
+    if (!folders) return;
+
+    const existing = new Map((await getAllCourses()).map(course => [course.id, course]));
+    const isPresent = (name: string): boolean => {
+      const course = existing.get(generateCourseId(name));
+      return !!course && !needsFolderReselect(course);
+    };
+
+    importQueue.enqueue(
+      folders.filter(folder => !isPresent(folder.name)),
+      folders
+        .filter(folder => isPresent(folder.name))
+        .map(folder => ({ name: folder.name, reason: 'Already in your library' }))
+    );
+  };
+
+  // Pick the folder of a course stored on an earlier visit without the File System Access API
+  // Queued imports and rescans share the scan progress and its cancel button, so a rescan waits for the queue
+  const isScanBlocked = isLoading || importQueue.isImporting;
+
+  const handleReselectFolder = async (course: Course): Promise<void> => {
+    if (isScanBlocked) return;
+    const files = await pickFolderFiles();
+    if (files && await importFolderFiles(files, course)) {
+      await loadCourses();
+    }
+  };
+
+  // Folders dropped on the library are queued for import (several can be dropped at once)
+  // File drags are always handled, so a drop while a folder is loading doesn't make the browser open the file.
+  const handleDragOver = (e: React.DragEvent): void => {
+    if (!isFileDrag(e.dataTransfer)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = isLoading ? 'none' : 'copy';
+    setIsDraggingFolder(!isLoading);
+  };
+
+  const handleDragLeave = (e: React.DragEvent): void => {
+    // Leaving for a child element is not leaving the drop area
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDraggingFolder(false);
+  };
+
+  const handleDrop = async (e: React.DragEvent): Promise<void> => {
+    if (!isFileDrag(e.dataTransfer)) return;
+    e.preventDefault();
+    setIsDraggingFolder(false);
+    if (isLoading) return;
+
+    const { folders, skipped } = await readDroppedItems(e.dataTransfer);
+    importQueue.enqueue(folders, skipped);
+  };
+
+  const handleRescanCourse = async (course: Course): Promise<void> => {
+    if (isScanBlocked) return;
+    setRescanNotice(null);
+    const result = await rescanCourse(course);
+    if (result) {
+      setRescanNotice(formatRescanSummary(result));
+      await loadCourses();
+    }
+  };
+
+  const handleSetCover = async (course: Course): Promise<void> => {
+    const file = await pickImageFile();
+    if (!file) return;
+
+    try {
+      await setCourseCover(course.id, await createCoverFromImage(file));
+      await loadCourses();
+    } catch (err) {
+      console.error('Error setting cover image:', err);
+    }
+  };
+
+  const handleRemoveCover = async (course: Course): Promise<void> => {
+    await setCourseCover(course.id, undefined);
+    await loadCourses();
+  };
+
+  const handleOpenCourse = (course: Course): void => {
+    if (needsFolderReselect(course)) {
+      handleReselectFolder(course);
+      return;
+    }
+    navigate(`/course/${course.id}`);
   };
 
   const handleDeleteCourse = async (course: Course): Promise<void> => {
@@ -61,29 +195,13 @@ const CourseGrid: React.FC = () => {
     await loadCourses();
   };
 
-  if (!isSupported) {
-    return (
-      <div className="min-h-screen flex items-center justify-center p-6">
-        <div className="max-w-md text-center">
-          <h1 className="text-2xl font-bold mb-4 text-red-400">Browser Not Supported</h1>
-          <p className="text-gray-400 mb-4">
-            LocalPlay requires the File System Access API, which is available in:
-          </p>
-          <ul className="text-gray-300 mb-6 space-y-2">
-            <li>✓ Chrome 86+</li>
-            <li>✓ Edge 86+</li>
-            <li>✓ Opera 72+</li>
-          </ul>
-          <p className="text-sm text-gray-500">
-            Please open LocalPlay in one of these browsers to continue.
-          </p>
-        </div>
-      </div>
-    );
-  }
-
   return (
-    <div className="min-h-screen p-6">
+    <div
+      className={`min-h-screen p-6 ${isDraggingFolder ? 'ring-4 ring-inset ring-blue-500/60' : ''}`}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       <div className="max-w-7xl mx-auto">
         {/* Header */}
         <div className="mb-8 flex items-start justify-between">
@@ -121,31 +239,79 @@ const CourseGrid: React.FC = () => {
           </div>
         )}
 
-        {/* Add Folder Button */}
+        {/* Rescan Result */}
+        {rescanNotice && (
+          <div className="mb-6 p-4 bg-blue-900/20 border border-blue-500 rounded-lg text-blue-300 flex items-center justify-between gap-4">
+            <span>{rescanNotice}</span>
+            <button
+              onClick={() => setRescanNotice(null)}
+              className="text-sm text-blue-300 hover:text-blue-200"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {/* Add Folder and Import Library Buttons */}
         <div className="mb-8">
-          <button
-            onClick={handleAddFolder}
-            disabled={isLoading}
-            className="px-6 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 rounded-lg font-medium transition-colors flex items-center gap-2"
-          >
-            {isLoading ? (
-              <>
-                <svg className="animate-spin h-5 w-5" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-                </svg>
-                Loading...
-              </>
-            ) : (
-              <>
-                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-                </svg>
-                Add Video Folder
-              </>
-            )}
-          </button>
-          <p className="text-xs text-gray-500 mt-2">Read-only access. No files are modified or uploaded.</p>
+          <div className="flex flex-wrap gap-3">
+            <button
+              onClick={handleAddFolder}
+              disabled={isScanBlocked}
+              className="px-6 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 rounded-lg font-medium transition-colors flex items-center gap-2"
+            >
+              {isLoading ? (
+                <>
+                  <svg className="animate-spin h-5 w-5" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                  </svg>
+                  Loading...
+                </>
+              ) : (
+                <>
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                  </svg>
+                  Add Video Folder
+                </>
+              )}
+            </button>
+            <button
+              onClick={handleImportLibrary}
+              disabled={isScanBlocked}
+              className="px-6 py-3 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded-lg font-medium transition-colors flex items-center gap-2"
+              title="Add every course folder inside a folder"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+              </svg>
+              Import Library
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Read-only access. No files are modified or uploaded. You can also drop course folders onto this page.
+          </p>
+          {!isSupported && (
+            <p className="text-xs text-yellow-500/80 mt-1 max-w-xl">
+              This browser can't keep access to folders: a folder you pick or drop here stays available
+              until you close this tab. Your progress is saved, and next time you'll be asked to select the folder again.
+            </p>
+          )}
+
+          {/* Scan Progress */}
+          {scanProgress && (
+            <div className="mt-4 max-w-xl">
+              <ScanProgressBar progress={scanProgress} onCancel={cancelScan} />
+            </div>
+          )}
+
+          {/* Dropped Folders */}
+          {importQueue.items.length > 0 && (
+            <div className="mt-4 max-w-xl">
+              <ImportQueueList items={importQueue.items} onClear={importQueue.clearFinished} />
+            </div>
+          )}
         </div>
 
         {/* Courses Grid */}
@@ -155,34 +321,58 @@ const CourseGrid: React.FC = () => {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
             </svg>
             <h2 className="text-xl font-semibold mb-2 text-gray-300">No Courses Yet</h2>
-            <p className="text-gray-500">Click "Add Video Folder" to get started</p>
+            <p className="text-gray-500">
+              Click "Add Video Folder" or drop course folders here to get started
+            </p>
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {courses.map((course) => {
               const progress = getCourseProgress(course);
+              const cover = getCoverImage(course);
 
               return (
                 <div
                   key={course.id}
-                  onClick={() => handleOpenCourse(course.id)}
+                  onClick={() => handleOpenCourse(course)}
                   className="bg-gray-800 rounded-lg overflow-hidden cursor-pointer hover:ring-2 ring-blue-500 transition-all group"
                 >
                   {/* Thumbnail */}
                   <div className="aspect-video bg-gradient-to-br from-blue-900 to-purple-900 flex items-center justify-center relative">
-                    {/* Default icon (faded) */}
-                    <svg className="w-20 h-20 text-white/20" fill="currentColor" viewBox="0 0 20 20">
-                      <path d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" />
-                    </svg>
-
-                    {/* Play overlay on hover */}
-                    <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
-                      <div className="w-16 h-16 bg-white/20 backdrop-blur-sm rounded-full flex items-center justify-center">
-                        <svg className="w-8 h-8 text-white ml-1" fill="currentColor" viewBox="0 0 24 24">
-                          <path d="M8 5v14l11-7z" />
+                    {cover ? (
+                      <img src={cover} alt={course.title} className="absolute inset-0 w-full h-full object-cover" />
+                    ) : (
+                      /* Default icon (faded) */
+                      <svg className="w-20 h-20 text-white/20" fill="currentColor" viewBox="0 0 20 20">
+                        <path d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" />
+                      </svg>
+                    )}
+
+                    {needsFolderReselect(course) ? (
+                      /* Files from an earlier visit are gone: the folder has to be selected again */
+                      <div className="absolute inset-0 bg-black/60 flex flex-col items-center justify-center gap-2 text-center px-4">
+                        <svg className="w-8 h-8 text-white/80" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
                         </svg>
+                        <span className="text-sm text-white/90">Click to select the folder again</span>
                       </div>
-                    </div>
+                    ) : (
+                      /* Play overlay on hover */
+                      <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
+                        <div className="w-16 h-16 bg-white/20 backdrop-blur-sm rounded-full flex items-center justify-center">
+                          <svg className="w-8 h-8 text-white ml-1" fill="currentColor" viewBox="0 0 24 24">
+                            <path d="M8 5v14l11-7z" />
+                          </svg>
+                        </div>
+                      </div>
+                    )}
+
+                    {/* New videos found by the folder watcher */}
+                    {countNewVideos(course) > 0 && (
+                      <div className="absolute bottom-2 left-2 bg-blue-600 px-2 py-0.5 rounded text-sm font-medium">
+                        {formatNewVideos(countNewVideos(course))}
+                      </div>
+                    )}
 
                     {/* Options Menu */}
                     <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -190,6 +380,35 @@ const CourseGrid: React.FC = () => {
                         buttonClassName="bg-gray-900/70 hover:bg-gray-900/90 shadow-md"
                         iconColor="white"
                         items={[
+                          {
+                            // Picked files are a snapshot: select them again to pick up changes
+                            label: isSessionCourse(course) ? 'Reselect folder' : 'Rescan folder',
+                            icon: (
+                              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
+                              </svg>
+                            ),
+                            onClick: () => isSessionCourse(course) ? handleReselectFolder(course) : handleRescanCourse(course),
+                            disabled: isScanBlocked,
+                          },
+                          {
+                            label: 'Set cover image',
+                            icon: (
+                              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                              </svg>
+                            ),
+                            onClick: () => handleSetCover(course),
+                          },
+                          ...(course.customCover ? [{
+                            label: 'Remove custom cover',
+                            icon: (
+                              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                              </svg>
+                            ),
+                            onClick: () => handleRemoveCover(course),
+                          }] : []),
                           {
                             label: 'Mark as complete',
                             icon: (
@@ -274,6 +493,11 @@ const CourseGrid: React.FC = () => {
                     >
                       {formatDisplayName(course.title, preferences?.replaceUnderscoreWithColon ?? true)}
                     </h3>
+                    {course.description && (
+                      <p className="text-sm text-gray-400 mb-1 line-clamp-2" title={course.description}>
+                        {course.description}
+                      </p>
+                    )}
                     <p className="text-sm text-gray-400 mb-3">
                       {course.totalLessons} lessons, {course.totalVideos} videos
                       {course.totalDuration > 0 && ` • ${formatTotalDuration(course.totalDuration)}`}
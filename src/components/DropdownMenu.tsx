@@ -5,6 +5,7 @@ interface MenuItem {
   icon?: React.ReactNode;
   onClick: () => void;
   danger?: boolean;
+  disabled?: boolean;
 }
 
 interface DropdownMenuProps {
@@ -57,12 +58,13 @@ const DropdownMenu: React.FC<DropdownMenuProps> = ({ items, buttonClassName = ''
           {items.map((item, index) => (
             <button
               key={index}
+              disabled={item.disabled}
               onClick={(e) => {
                 e.stopPropagation();
                 setIsOpen(false);
                 item.onClick();
               }}
-              className={`w-full px-4 py-2 text-left text-sm flex items-center gap-2 transition-colors ${
+              className={`w-full px-4 py-2 text-left text-sm flex items-center gap-2 transition-colors disabled:opacity-50 disabled:pointer-events-none ${
                 item.danger
                   ? 'text-red-500 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-600/20'
                   : 'text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700'
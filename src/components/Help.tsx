@@ -40,11 +40,17 @@ const Help: React.FC<HelpProps> = ({ isOpen, onClose }) => {
               Getting Started
             </h3>
             <p className="text-sm mb-2">
-              LocalPlay lets you watch video courses from your local folders. Click <strong>"Add Video Folder"</strong> to select a course folder from your computer.
+              LocalPlay lets you watch video courses from your local folders. Click <strong>"Add Video Folder"</strong> to select a course folder from your computer, or drag one or more course folders onto the home screen to import them one after another.
+            </p>
+            <p className="text-sm mb-2">
+              Keep your courses in one folder? Click <strong>"Import Library"</strong> and select that folder: each folder inside it is added as a course. Courses already in your library are skipped, and a summary lists what was added, skipped or failed.
             </p>
             <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
               Your browser will ask for read-only access to the selected folder. No files are modified or uploaded - everything stays on your device.
             </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              In Firefox and Safari you can also pick a folder or drop one on the home screen, but the browser only lets LocalPlay read it until the tab is closed. Your progress is kept, and on your next visit the course asks you to select its folder again.
+            </p>
           </section>
 
           {/* Folder Structure */}
@@ -64,25 +70,89 @@ const Help: React.FC<HelpProps> = ({ isOpen, onClose }) => {
             <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
               Think of it like a TV show: Course = Series, Lesson = Season, Video = Episode
             </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Lessons can contain nested section folders (e.g. Module → Section → Video) to any depth.
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              A flat folder of videos becomes a single-lesson course. Loose videos next to lesson folders are grouped into a "General" lesson.
+            </p>
             <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
               Tip: Prefix folders/files with numbers (01, 02) to maintain order.
             </p>
           </section>
 
+          {/* Resources */}
+          <section>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">
+              Resources
+            </h3>
+            <p className="text-sm mb-2">
+              PDFs, images, slides, documents, archives (.zip, .rar, .7z) and web shortcuts (.url, .webloc) in a lesson folder are listed in the player sidebar.
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Files whose name starts with a video's name (e.g. "03 Setup - slides.pdf" for "03 Setup.mp4") or share its number prefix are shown under that video; others are listed for the whole lesson. PDFs and images open in the app, links open in a new tab and other files are downloaded.
+            </p>
+          </section>
+
+          {/* Cover Art */}
+          <section>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">
+              Cover Art
+            </h3>
+            <p className="text-sm mb-2">
+              Put a cover.jpg, folder.jpg or poster.png in a course or lesson folder to use it on its card and in your system's media controls.
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              To pick your own, choose "Set cover image" from a card's menu, or use the player's menu to turn the current frame into the lesson or course cover.
+            </p>
+          </section>
+
+          {/* Course Manifest */}
+          <section>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">
+              Course Manifest (localplay.json)
+            </h3>
+            <p className="text-sm mb-3">
+              Add an optional <code>localplay.json</code> file to a course folder to rename, reorder, hide or describe lessons and videos without touching the files.
+            </p>
+            <pre className="bg-gray-100 dark:bg-gray-900 rounded-lg p-3 text-xs font-mono overflow-x-auto">{`{
+  "title": "Course Title",
+  "description": "Shown on the course page",
+  "entries": {
+    "01 Intro": { "title": "Welcome", "order": 2 },
+    "01 Intro/01 Setup.mp4": { "description": "Install the tools" },
+    "Trailer.mp4": { "hidden": true }
+  }
+}`}</pre>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+              Entries are keyed by path inside the course folder. Each can set <code>title</code>, <code>description</code>, <code>order</code> and <code>hidden</code>. Rescan the folder after editing the file.
+            </p>
+          </section>
+
           {/* Subtitles */}
           <section>
             <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">
               Adding Subtitles
             </h3>
             <p className="text-sm mb-3">
-              Place <code className="bg-gray-100 dark:bg-gray-900 px-1 rounded">.srt</code> files in a <code className="bg-gray-100 dark:bg-gray-900 px-1 rounded">_subtitles</code> folder next to your lesson:
+              Place subtitle files (<code className="bg-gray-100 dark:bg-gray-900 px-1 rounded">.srt</code>, <code className="bg-gray-100 dark:bg-gray-900 px-1 rounded">.vtt</code>, <code className="bg-gray-100 dark:bg-gray-900 px-1 rounded">.ass</code>/<code className="bg-gray-100 dark:bg-gray-900 px-1 rounded">.ssa</code>, <code className="bg-gray-100 dark:bg-gray-900 px-1 rounded">.sub</code>) next to the video, in a <code className="bg-gray-100 dark:bg-gray-900 px-1 rounded">subs</code>/<code className="bg-gray-100 dark:bg-gray-900 px-1 rounded">subtitles</code> subfolder, or in a <code className="bg-gray-100 dark:bg-gray-900 px-1 rounded">_subtitles</code> folder next to your lesson:
             </p>
             <div className="bg-gray-100 dark:bg-gray-900 rounded-lg p-3 text-xs font-mono">
               <div>01. Lesson One/</div>
               <div className="ml-4">01. Video.mp4</div>
-              <div>01. Lesson One_subtitles/</div>
               <div className="ml-4">01. Video.srt</div>
+              <div className="ml-4">subs/</div>
+              <div className="ml-8">01. Video.es.srt</div>
             </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+              Names are matched loosely by default (case, spaces and punctuation are ignored). Search locations and matching can be changed in Settings.
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+              Add a language suffix (e.g. <code>.en</code>, <code>.es</code>, <code>.pt-BR</code>) to keep several languages side by side. Pick one from the CC menu - your choice is remembered.
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+              Text subtitles stored inside MKV, WebM, MP4 and MOV files are listed in the CC menu too, marked "Embedded". Picture-based subtitles (PGS, VobSub) are not supported.
+            </p>
           </section>
 
           {/* Install as App */}
@@ -101,7 +171,7 @@ const Help: React.FC<HelpProps> = ({ isOpen, onClose }) => {
               Once installed, LocalPlay works completely offline - no internet required.
             </p>
             <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-              Note: LocalPlay requires the File System Access API, which is currently only available on desktop browsers (Chrome, Edge, Opera). iOS and Android are not supported.
+              Note: Folders stay available between visits with the File System Access API, which is currently only available on desktop browsers (Chrome, Edge, Opera). Other browsers need the folder selected again on each visit.
             </p>
           </section>
 
@@ -114,8 +184,15 @@ const Help: React.FC<HelpProps> = ({ isOpen, onClose }) => {
               <li><strong>Progress Tracking:</strong> Your watch progress is saved automatically</li>
               <li><strong>Auto-play:</strong> Automatically plays the next video when enabled</li>
               <li><strong>Resume:</strong> Continue from where you left off</li>
+              <li><strong>Rescan:</strong> Added or removed files? Use "Rescan folder" to pick up new videos. Progress is kept, and videos that disappeared are marked as missing</li>
+              <li><strong>Watch Folders:</strong> Turn on "Watch Folders for Changes" in Settings → Scanning to rescan courses automatically when files are added, removed or renamed. New videos are badged on the course and lesson cards until you open their lesson</li>
+              <li><strong>Renamed Folders:</strong> Progress follows your videos when a course or lesson folder is renamed or moved. Re-add or rescan the folder and progress is restored by matching file contents</li>
+              <li><strong>Sort Order:</strong> Lessons and videos are sorted by the numbers in their names, including "S01E03", "Part 1.2", "1-05" and "Lecture 10". Switch a course to alphabetical or file date order with the menu next to its title</li>
+              <li><strong>Multi-Part Videos:</strong> Lectures split into files like "03a"/"03b" or "Part 1"/"Part 2" play as one video, with one progress bar and progress saved across all parts. Turn this off in Settings → Scanning</li>
+              <li><strong>Excluding Files:</strong> Add a <code className="bg-gray-100 dark:bg-gray-900 px-1 rounded">.localplayignore</code> file to a course or lesson folder to skip files and folders, with the same syntax as <code className="bg-gray-100 dark:bg-gray-900 px-1 rounded">.gitignore</code> (<code className="bg-gray-100 dark:bg-gray-900 px-1 rounded">raw/</code>, <code className="bg-gray-100 dark:bg-gray-900 px-1 rounded">*-sample.mp4</code>, <code className="bg-gray-100 dark:bg-gray-900 px-1 rounded">!keep.mp4</code>). Patterns for every course and a minimum video size are in Settings → Scanning</li>
               <li><strong>Resizable Sidebar:</strong> Drag the sidebar edge to resize</li>
-              <li><strong>Keyboard:</strong> Space to play/pause, arrow keys to seek</li>
+              <li><strong>Chapters:</strong> Chapters stored in MP4/MKV files, or listed in a sidecar file, show as ticks on the progress bar and under the playing video in the sidebar. Sidecar files are <code className="bg-gray-100 dark:bg-gray-900 px-1 rounded">Video.chapters.vtt</code> (WebVTT chapters), or <code className="bg-gray-100 dark:bg-gray-900 px-1 rounded">Video.chapters.txt</code>/<code className="bg-gray-100 dark:bg-gray-900 px-1 rounded">Video.txt</code> with one "0:00 Title" line per chapter; in a folder with a single video, <code className="bg-gray-100 dark:bg-gray-900 px-1 rounded">chapters.txt</code> works too</li>
+              <li><strong>Keyboard:</strong> Space to play/pause, arrow keys to seek, Shift + arrow keys for the previous/next chapter</li>
             </ul>
           </section>
 
@@ -126,7 +203,14 @@ const Help: React.FC<HelpProps> = ({ isOpen, onClose }) => {
             </h3>
             <p className="text-sm">
               <strong>Video:</strong> MP4, WebM, MOV, MKV (browser dependent)<br />
-              <strong>Subtitles:</strong> SRT
+              <strong>Audio:</strong> MP3, M4A, FLAC, Opus, AAC (shown with the file's embedded artwork or the folder cover)<br />
+              <strong>Subtitles:</strong> SRT, WebVTT, ASS/SSA, SubViewer, embedded MKV/MP4 text tracks
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+              Each file is test-played after import. Files your browser can't play (often AVI, WMV, FLV and some MKV) are marked "Unsupported" in the sidebar, and "No picture" means only the sound can be decoded.
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              MKV and AVI files often only fail because of their container. The player can rewrite them as MP4 in your browser ("Convert to MP4"); turn on automatic conversion and keeping converted files in Settings → Compatibility.
             </p>
           </section>
 
@@ -0,0 +1,59 @@
+import React from 'react';
+import { formatImportSummary } from '../utils/libraryImport';
+import type { ImportQueueItem, ImportStatus } from '../types';
+
+interface ImportQueueListProps {
+  items: ImportQueueItem[];
+  onClear: () => void;
+}
+
+const STATUS_LABELS: Record<ImportStatus, string> = {
+  queued: 'Waiting',
+  importing: 'Importing...',
+  imported: 'Added',
+  failed: 'Failed',
+  skipped: 'Skipped',
+};
+
+const STATUS_COLORS: Record<ImportStatus, string> = {
+  queued: 'text-gray-400',
+  importing: 'text-blue-400',
+  imported: 'text-green-400',
+  failed: 'text-red-400',
+  skipped: 'text-yellow-400',
+};
+
+// Folders in the import queue (dropped, or the courses of a library), with the status of each
+const ImportQueueList: React.FC<ImportQueueListProps> = ({ items, onClear }) => {
+  const hasFinished = items.some(item => item.status !== 'queued' && item.status !== 'importing');
+
+  return (
+    <div className="p-4 bg-gray-800 rounded-lg border border-gray-700">
+      <div className="flex items-center justify-between gap-4 mb-2">
+        <p className="text-sm font-medium">{formatImportSummary(items)}</p>
+        {hasFinished && (
+          <button
+            onClick={onClear}
+            className="text-xs text-gray-400 hover:text-gray-200"
+          >
+            Clear finished
+          </button>
+        )}
+      </div>
+      <ul className="space-y-1.5 max-h-64 overflow-y-auto">
+        {items.map(item => (
+          <li key={item.id} className="flex items-baseline justify-between gap-4 text-sm">
+            <span className="truncate min-w-0" title={item.name}>{item.name}</span>
+            <span className={`text-xs text-right ${STATUS_COLORS[item.status]}`}>
+              {STATUS_LABELS[item.status]}
+              {item.message && item.status !== 'imported' && ` – ${item.message}`}
+              {item.message && item.status === 'imported' && ` (${item.message})`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ImportQueueList;
@@ -2,23 +2,36 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { useProgress } from '../hooks/useProgress';
 import { usePreferences } from '../hooks/usePreferences';
+import { useFileSystem } from '../hooks/useFileSystem';
+import { useCourseUpdates } from '../hooks/useCourseUpdates';
 import { getCourse } from '../utils/storage';
 import { formatTotalDuration, formatDisplayName } from '../utils/folderParser';
+import { getAllVideos, getAllResources, countSections } from '../utils/courseTree';
+import { formatRescanSummary } from '../utils/rescan';
+import { countNewVideos, formatNewVideos } from '../utils/folderWatcher';
+import { DEFAULT_SORT_MODE, setCourseSortMode } from '../utils/sortOrder';
+import { startMetadataFill } from '../utils/videoMetadata';
+import { isSessionCourse, needsFolderReselect } from '../utils/sessionCourses';
+import { hasPlaybackProblem } from '../utils/playability';
+import { getCoverImage, pickImageFile, createCoverFromImage, setLessonCover } from '../utils/coverArt';
 import Settings from './Settings';
 import Help from './Help';
 import ConfirmDialog from './ConfirmDialog';
 import DropdownMenu from './DropdownMenu';
-import type { Course, Lesson } from '../types';
+import ScanProgressBar from './ScanProgressBar';
+import type { Course, Lesson, SortMode } from '../types';
 
 const LessonGrid: React.FC = () => {
   const { courseId } = useParams<{ courseId: string }>();
   const navigate = useNavigate();
   const { getLessonProgress, allProgress, resetLessonProgress, markLessonComplete, removeFromRecents } = useProgress();
   const { preferences, updatePreference } = usePreferences();
+  const { rescanCourse, cancelScan, scanProgress, isLoading: isRescanning, error: rescanError } = useFileSystem();
   const [course, setCourse] = useState<Course | null>(null);
   const [loading, setLoading] = useState(true);
   const [showSettings, setShowSettings] = useState(false);
   const [showHelp, setShowHelp] = useState(false);
+  const [rescanNotice, setRescanNotice] = useState<string | null>(null);
   const [confirmDialog, setConfirmDialog] = useState<{
     isOpen: boolean;
     title: string;
@@ -28,6 +41,13 @@ const LessonGrid: React.FC = () => {
   }>({ isOpen: false, title: '', message: '', onConfirm: () => {} });
   const replaceUnderscore = preferences?.replaceUnderscoreWithColon ?? true;
 
+  // Show durations and thumbnails as the background metadata job fills them in
+  useCourseUpdates(updated => {
+    if (updated.id === courseId) {
+      setCourse(updated);
+    }
+  });
+
   // Get recent lessons based on video progress timestamps
   const getRecentLessons = (): Lesson[] => {
     if (!course?.lessons) return [];
@@ -37,7 +57,7 @@ const LessonGrid: React.FC = () => {
       let mostRecentTimestamp = 0;
 
       if (lesson.videos) {
-        lesson.videos.forEach(video => {
+        getAllVideos(lesson).forEach(video => {
           const progress = allProgress[video.id];
           if (progress?.lastWatched && progress.lastWatched > mostRecentTimestamp) {
             mostRecentTimestamp = progress.lastWatched;
@@ -69,13 +89,58 @@ const LessonGrid: React.FC = () => {
     }
 
     const c = await getCourse(courseId);
-    if (!c) {
+    // Courses from picked files need their folder selected again on a new visit (done from the home screen)
+    if (!c || needsFolderReselect(c)) {
       navigate('/');
       return;
     }
 
     setCourse(c);
     setLoading(false);
+
+    // Resume filling in metadata if an earlier import was interrupted
+    if (c.metadataPending) {
+      startMetadataFill(c);
+    }
+  };
+
+  const handleRescan = async (): Promise<void> => {
+    if (!course) return;
+
+    setRescanNotice(null);
+    const result = await rescanCourse(course);
+    if (result) {
+      setCourse(result.course);
+      setRescanNotice(formatRescanSummary(result));
+    }
+  };
+
+  const handleChangeSortMode = async (sortMode: SortMode): Promise<void> => {
+    if (!course) return;
+
+    const updated = await setCourseSortMode(course.id, sortMode);
+    if (updated) setCourse(updated);
+  };
+
+  const handleSetLessonCover = async (lesson: Lesson): Promise<void> => {
+    if (!course) return;
+
+    const file = await pickImageFile();
+    if (!file) return;
+
+    try {
+      const updated = await setLessonCover(course.id, lesson.id, await createCoverFromImage(file));
+      if (updated) setCourse(updated);
+    } catch (err) {
+      console.error('Error setting cover image:', err);
+    }
+  };
+
+  const handleRemoveLessonCover = async (lesson: Lesson): Promise<void> => {
+    if (!course) return;
+
+    const updated = await setLessonCover(course.id, lesson.id, undefined);
+    if (updated) setCourse(updated);
   };
 
   const handleOpenLesson = (lessonId: string): void => {
@@ -140,11 +205,37 @@ const LessonGrid: React.FC = () => {
                 {course.totalLessons} lessons, {course.totalVideos} videos
                 {course.totalDuration > 0 && ` • ${formatTotalDuration(course.totalDuration)}`}
               </p>
+              {course.description && (
+                <p className="text-sm text-gray-400 mt-1 max-w-3xl">{course.description}</p>
+              )}
             </div>
           </div>
 
-          {/* Help and Settings buttons */}
+          {/* Sort order, Rescan, Help and Settings buttons */}
           <div className="flex items-center gap-1">
+            <select
+              value={course.sortMode || DEFAULT_SORT_MODE}
+              onChange={(e) => handleChangeSortMode(e.target.value as SortMode)}
+              className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-1.5 mr-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              title="Sort order"
+            >
+              <option value="natural">Natural order</option>
+              <option value="alphabetical">Alphabetical</option>
+              <option value="date">File date</option>
+            </select>
+            {/* Picked files are a snapshot, so only folders opened with the File System Access API can be rescanned */}
+            {!isSessionCourse(course) && (
+              <button
+                onClick={handleRescan}
+                disabled={isRescanning}
+                className="p-2 hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-50"
+                title="Rescan folder"
+              >
+                <svg className={`w-6 h-6 ${isRescanning ? 'animate-spin' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                </svg>
+              </button>
+            )}
             <button
               onClick={() => setShowHelp(true)}
               className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
@@ -167,6 +258,29 @@ const LessonGrid: React.FC = () => {
           </div>
         </div>
 
+        {/* Rescan Progress and Result */}
+        {scanProgress && (
+          <div className="mb-6">
+            <ScanProgressBar progress={scanProgress} onCancel={cancelScan} />
+          </div>
+        )}
+        {rescanError && (
+          <div className="mb-6 p-4 bg-red-900/20 border border-red-500 rounded-lg text-red-300">
+            {rescanError}
+          </div>
+        )}
+        {rescanNotice && (
+          <div className="mb-6 p-4 bg-blue-900/20 border border-blue-500 rounded-lg text-blue-300 flex items-center justify-between gap-4">
+            <span>{rescanNotice}</span>
+            <button
+              onClick={() => setRescanNotice(null)}
+              className="text-sm text-blue-300 hover:text-blue-200"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
         {/* Recent Section */}
         {recentLessons.length > 0 && (
           <div className="mb-10">
@@ -184,6 +298,7 @@ const LessonGrid: React.FC = () => {
                   <LessonCard
                     key={`recent-${lesson.id}`}
                     lesson={lesson}
+                    newVideoCount={countNewVideos(course, lesson)}
                     progress={progress}
                     onOpen={handleOpenLesson}
                     replaceUnderscore={replaceUnderscore}
@@ -214,7 +329,7 @@ const LessonGrid: React.FC = () => {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
             </svg>
             <h2 className="text-xl font-semibold mb-2 text-gray-300">No Lessons Found</h2>
-            <p className="text-gray-500">This course doesn't have any lesson folders with videos.</p>
+            <p className="text-gray-500">This course doesn't have any videos.</p>
           </div>
         ) : (
           <>
@@ -227,6 +342,7 @@ const LessonGrid: React.FC = () => {
                   <LessonCard
                     key={lesson.id}
                     lesson={lesson}
+                    newVideoCount={countNewVideos(course, lesson)}
                     progress={progress}
                     onOpen={handleOpenLesson}
                     replaceUnderscore={replaceUnderscore}
@@ -254,6 +370,8 @@ const LessonGrid: React.FC = () => {
                         },
                       });
                     }}
+                    onSetCover={() => handleSetLessonCover(lesson)}
+                    onRemoveCover={lesson.customCover ? () => handleRemoveLessonCover(lesson) : undefined}
                   />
                 );
               })}
@@ -292,14 +410,22 @@ interface LessonCardProps {
   progress: number;
   onOpen: (lessonId: string) => void;
   replaceUnderscore: boolean;
+  newVideoCount?: number;  // Videos the folder watcher found since the lesson was last opened
   compact?: boolean;
   onMarkComplete?: () => void;
   onResetProgress?: () => void;
+  onSetCover?: () => void;
+  onRemoveCover?: () => void;  // Only set when the lesson has a custom cover
   onRemoveFromRecents?: () => void;
 }
 
-const LessonCard: React.FC<LessonCardProps> = ({ lesson, progress, onOpen, replaceUnderscore, compact = false, onMarkComplete, onResetProgress, onRemoveFromRecents }) => {
+const LessonCard: React.FC<LessonCardProps> = ({ lesson, progress, onOpen, replaceUnderscore, newVideoCount = 0, compact = false, onMarkComplete, onResetProgress, onSetCover, onRemoveCover, onRemoveFromRecents }) => {
   const displayName = formatDisplayName(lesson.name, replaceUnderscore);
+  const cover = getCoverImage(lesson);
+  const sectionCount = countSections(lesson);
+  const missingCount = getAllVideos(lesson).filter(video => video.missing).length;
+  const unsupportedCount = getAllVideos(lesson).filter(video => !video.missing && hasPlaybackProblem(video)).length;
+  const resourceCount = getAllResources(lesson).length;
   return (
     <div
       onClick={() => onOpen(lesson.id)}
@@ -307,9 +433,9 @@ const LessonCard: React.FC<LessonCardProps> = ({ lesson, progress, onOpen, repla
     >
       {/* Thumbnail */}
       <div className="aspect-video bg-gradient-to-br from-green-900 to-teal-900 flex items-center justify-center relative overflow-hidden">
-        {lesson.thumbnail ? (
+        {cover ? (
           <img
-            src={lesson.thumbnail}
+            src={cover}
             alt={lesson.name}
             className="w-full h-full object-cover"
           />
@@ -326,6 +452,13 @@ const LessonCard: React.FC<LessonCardProps> = ({ lesson, progress, onOpen, repla
           </div>
         )}
 
+        {/* New videos badge */}
+        {newVideoCount > 0 && (
+          <div className={`absolute ${compact ? 'bottom-2 left-1 text-xs' : 'bottom-2 left-2 text-sm'} bg-blue-600 px-2 py-0.5 rounded font-medium`}>
+            {formatNewVideos(newVideoCount)}
+          </div>
+        )}
+
         {/* Completed badge */}
         {progress === 100 && (
           <div className={`absolute ${compact ? 'top-1 right-1' : 'top-2 right-2'} bg-green-600 rounded-full ${compact ? 'p-0.5' : 'p-1'}`}>
@@ -336,13 +469,13 @@ const LessonCard: React.FC<LessonCardProps> = ({ lesson, progress, onOpen, repla
         )}
 
         {/* Options Menu - for non-compact cards */}
-        {!compact && onMarkComplete && onResetProgress && progress !== 100 && (
+        {!compact && onMarkComplete && onResetProgress && onSetCover && (
           <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
             <DropdownMenu
               buttonClassName="bg-gray-900/70 hover:bg-gray-900/90 shadow-md"
               iconColor="white"
               items={[
-                {
+                ...(progress !== 100 ? [{
                   label: 'Mark as complete',
                   icon: (
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -350,7 +483,25 @@ const LessonCard: React.FC<LessonCardProps> = ({ lesson, progress, onOpen, repla
                     </svg>
                   ),
                   onClick: onMarkComplete,
+                }] : []),
+                {
+                  label: 'Set cover image',
+                  icon: (
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                    </svg>
+                  ),
+                  onClick: onSetCover,
                 },
+                ...(onRemoveCover ? [{
+                  label: 'Remove custom cover',
+                  icon: (
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  ),
+                  onClick: onRemoveCover,
+                }] : []),
                 {
                   label: 'Reset progress',
                   icon: (
@@ -419,9 +570,18 @@ const LessonCard: React.FC<LessonCardProps> = ({ lesson, progress, onOpen, repla
         </h3>
         {!compact && (
           <>
+            {lesson.description && (
+              <p className="text-sm text-gray-400 mb-2 line-clamp-2" title={lesson.description}>
+                {lesson.description}
+              </p>
+            )}
             <p className="text-sm text-gray-400 mb-3">
+              {sectionCount > 0 && `${sectionCount} section${sectionCount === 1 ? '' : 's'}, `}
               {lesson.totalVideos} videos
               {lesson.totalDuration > 0 && ` • ${formatTotalDuration(lesson.totalDuration)}`}
+              {resourceCount > 0 && ` • ${resourceCount} ${resourceCount === 1 ? 'resource' : 'resources'}`}
+              {missingCount > 0 && <span className="text-yellow-500">{` • ${missingCount} missing`}</span>}
+              {unsupportedCount > 0 && <span className="text-red-400">{` • ${unsupportedCount} unsupported`}</span>}
             </p>
 
             {/* Progress Bar */}
@@ -0,0 +1,67 @@
+import React from 'react';
+import type { Resource, ResourceKind } from '../types';
+
+interface ResourceListProps {
+  resources: Resource[];
+  onOpen: (resource: Resource) => void;
+  compact?: boolean;  // Small chips under a video instead of full rows
+}
+
+// Icon path per resource kind (24x24 outline icons)
+const RESOURCE_ICONS: Record<ResourceKind, string> = {
+  pdf: 'M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z',
+  image: 'M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z',
+  slides: 'M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z',
+  archive: 'M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4',
+  document: 'M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z',
+  link: 'M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1',
+};
+
+const ResourceIcon: React.FC<{ kind: ResourceKind; className: string }> = ({ kind, className }) => (
+  <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={RESOURCE_ICONS[kind]} />
+  </svg>
+);
+
+const ResourceList: React.FC<ResourceListProps> = ({ resources, onOpen, compact = false }) => {
+  if (resources.length === 0) return null;
+
+  if (compact) {
+    return (
+      <div className="flex flex-wrap gap-1">
+        {resources.map(resource => (
+          <button
+            key={resource.id}
+            onClick={() => onOpen(resource)}
+            className="flex items-center gap-1 max-w-full px-2 py-0.5 rounded bg-gray-700/60 hover:bg-gray-600 text-xs text-gray-300"
+            title={resource.url || resource.filename}
+          >
+            <ResourceIcon kind={resource.kind} className="w-3 h-3 flex-shrink-0" />
+            <span className="truncate">{resource.name}</span>
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {resources.map(resource => (
+        <button
+          key={resource.id}
+          onClick={() => onOpen(resource)}
+          className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left text-sm text-gray-300 hover:bg-gray-700 transition-colors"
+          title={resource.url || resource.filename}
+        >
+          <ResourceIcon kind={resource.kind} className="w-5 h-5 flex-shrink-0 text-gray-500" />
+          <span className="flex-1 truncate">{resource.name}</span>
+          <span className="text-xs text-gray-500 uppercase flex-shrink-0">
+            {resource.kind === 'link' ? 'link' : resource.filename.split('.').pop()}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ResourceList;
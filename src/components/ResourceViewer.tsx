@@ -0,0 +1,95 @@
+import React, { useState, useEffect } from 'react';
+import { downloadResource } from '../utils/resources';
+import type { Resource } from '../types';
+
+interface ResourceViewerProps {
+  resource: Resource | null;  // PDF or image to show; null when closed
+  onClose: () => void;
+}
+
+// In-app viewer for PDF and image resources
+const ResourceViewer: React.FC<ResourceViewerProps> = ({ resource, onClose }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the file into an object URL while the viewer is open
+  useEffect(() => {
+    if (!resource) return;
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    setUrl(null);
+    setError(null);
+
+    resource.fileHandle.getFile()
+      .then(file => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(file);
+        setUrl(objectUrl);
+      })
+      .catch(err => {
+        console.error('Error opening resource:', err);
+        if (!cancelled) setError('Could not open this file. It may have been moved or deleted.');
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [resource]);
+
+  // Close on Escape; keep other keys from reaching player shortcuts behind the viewer
+  useEffect(() => {
+    if (!resource) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.stopPropagation();
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [resource, onClose]);
+
+  if (!resource) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-black/90">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4 px-4 py-3 bg-gray-800 border-b border-gray-700">
+        <h3 className="font-semibold truncate" title={resource.filename}>{resource.filename}</h3>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <button
+            onClick={() => downloadResource(resource)}
+            className="px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+          >
+            Download
+          </button>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
+            title="Close"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 flex items-center justify-center overflow-auto p-4">
+        {error ? (
+          <p className="text-red-300">{error}</p>
+        ) : !url ? (
+          <span className="text-gray-400">Loading...</span>
+        ) : resource.kind === 'pdf' ? (
+          <iframe src={url} title={resource.filename} className="w-full h-full bg-white rounded" />
+        ) : (
+          <img src={url} alt={resource.name} className="max-w-full max-h-full object-contain" />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResourceViewer;
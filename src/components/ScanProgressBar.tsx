@@ -0,0 +1,48 @@
+import React from 'react';
+import type { ScanProgress } from '../types';
+
+interface ScanProgressBarProps {
+  progress: ScanProgress;
+  onCancel: () => void;
+}
+
+// Format scan progress as "Lesson 4/12 – video 37/300"
+const formatScanProgress = (progress: ScanProgress): string => {
+  if (progress.videosScanned === 0) return `Found ${progress.totalVideos} videos in ${progress.totalLessons} lessons`;
+  return `Lesson ${progress.lessonIndex}/${progress.totalLessons} – video ${progress.videosScanned}/${progress.totalVideos}`;
+};
+
+const ScanProgressBar: React.FC<ScanProgressBarProps> = ({ progress, onCancel }) => {
+  const percentage = progress.totalVideos > 0
+    ? Math.round((progress.videosScanned / progress.totalVideos) * 100)
+    : 0;
+
+  return (
+    <div className="p-4 bg-gray-800 rounded-lg border border-gray-700">
+      <div className="flex items-center justify-between gap-4 mb-2">
+        <div className="min-w-0">
+          <p className="text-sm font-medium">{formatScanProgress(progress)}</p>
+          {progress.currentFile && (
+            <p className="text-xs text-gray-400 truncate" title={progress.currentFile}>
+              {progress.currentFile}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={onCancel}
+          className="px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors flex-shrink-0"
+        >
+          Cancel
+        </button>
+      </div>
+      <div className="w-full bg-gray-700 rounded-full h-1.5">
+        <div
+          className="h-1.5 rounded-full bg-blue-600 transition-all duration-300"
+          style={{ width: `${percentage}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ScanProgressBar;
@@ -1,5 +1,13 @@
-import React from 'react';
-import type { UserPreferences } from '../types';
+import React, { useState, useEffect } from 'react';
+import { formatFileSize } from '../utils/folderParser';
+import { getRemuxCacheSize, clearRemuxCache } from '../utils/remux';
+import type { UserPreferences, SubtitleLocation, SubtitleNameMatching } from '../types';
+
+const SUBTITLE_LOCATION_OPTIONS: { value: SubtitleLocation; label: string; description: string }[] = [
+  { value: 'sameFolder', label: 'Same folder', description: 'Next to the video file' },
+  { value: 'subsFolder', label: 'Subs folder', description: 'In a "subs" or "subtitles" subfolder' },
+  { value: 'siblingFolder', label: 'Lesson_subtitles folder', description: 'In a "{lesson}_subtitles" folder' },
+];
 
 interface SettingsProps {
   isOpen: boolean;
@@ -14,6 +22,37 @@ const Settings: React.FC<SettingsProps> = ({
   preferences,
   onUpdatePreference,
 }) => {
+  const [remuxCacheSize, setRemuxCacheSize] = useState(0);
+  const [excludePatternsDraft, setExcludePatternsDraft] = useState('');
+
+  // Show how much space converted videos take up while the panel is open
+  useEffect(() => {
+    if (isOpen) {
+      getRemuxCacheSize().then(setRemuxCacheSize);
+    }
+  }, [isOpen]);
+
+  // Edit the exclude patterns as text and only save them when the field loses focus
+  useEffect(() => {
+    if (isOpen && preferences) {
+      setExcludePatternsDraft(preferences.scanFilters.excludePatterns.join('\n'));
+    }
+  }, [isOpen, preferences]);
+
+  const handleSaveExcludePatterns = (): void => {
+    if (!preferences) return;
+    const excludePatterns = excludePatternsDraft
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean);
+    onUpdatePreference('scanFilters', { ...preferences.scanFilters, excludePatterns });
+  };
+
+  const handleClearRemuxCache = async (): Promise<void> => {
+    await clearRemuxCache();
+    setRemuxCacheSize(await getRemuxCacheSize());
+  };
+
   if (!isOpen || !preferences) return null;
 
   return (
@@ -91,6 +130,158 @@ const Settings: React.FC<SettingsProps> = ({
                   />
                 </button>
               </div>
+
+              {/* Subtitle Search Locations */}
+              <div>
+                <div className="font-medium">Subtitle Search</div>
+                <div className="text-sm text-gray-400 mb-3">
+                  Where to look for subtitle files when adding a course
+                </div>
+                <div className="space-y-2">
+                  {SUBTITLE_LOCATION_OPTIONS.map(option => {
+                    const locations = preferences.subtitleLookup.locations;
+                    const isEnabled = locations.includes(option.value);
+                    return (
+                      <label key={option.value} className="flex items-center gap-3 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={isEnabled}
+                          onChange={() => onUpdatePreference('subtitleLookup', {
+                            ...preferences.subtitleLookup,
+                            locations: isEnabled
+                              ? locations.filter(l => l !== option.value)
+                              : [...locations, option.value],
+                          })}
+                          className="w-4 h-4 accent-blue-600"
+                        />
+                        <span className="text-sm">
+                          {option.label}
+                          <span className="text-gray-400"> - {option.description}</span>
+                        </span>
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {/* Subtitle Name Matching */}
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="font-medium">Subtitle Name Matching</div>
+                  <div className="text-sm text-gray-400">
+                    How closely names must match the video
+                  </div>
+                </div>
+                <select
+                  value={preferences.subtitleLookup.nameMatching}
+                  onChange={(e) => onUpdatePreference('subtitleLookup', {
+                    ...preferences.subtitleLookup,
+                    nameMatching: e.target.value as SubtitleNameMatching,
+                  })}
+                  className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="exact">Exact</option>
+                  <option value="caseInsensitive">Ignore case</option>
+                  <option value="fuzzy">Fuzzy</option>
+                </select>
+              </div>
+            </div>
+          </div>
+
+          {/* Scanning Section */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wide mb-4">
+              Scanning
+            </h3>
+            <div className="space-y-4">
+              {/* Exclude Patterns */}
+              <div>
+                <div className="font-medium">Exclude Patterns</div>
+                <div className="text-sm text-gray-400 mb-3">
+                  Files and folders to skip in every course, one pattern per line (same syntax as a
+                  .localplayignore file)
+                </div>
+                <textarea
+                  value={excludePatternsDraft}
+                  onChange={(e) => setExcludePatternsDraft(e.target.value)}
+                  onBlur={handleSaveExcludePatterns}
+                  rows={5}
+                  spellCheck={false}
+                  className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              {/* Minimum Video Size */}
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <div className="font-medium">Minimum Video Size</div>
+                  <div className="text-sm text-gray-400">
+                    Skip videos smaller than this (0 to keep all)
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={Math.round(preferences.scanFilters.minVideoSize / (1024 * 1024))}
+                    onChange={(e) => onUpdatePreference('scanFilters', {
+                      ...preferences.scanFilters,
+                      minVideoSize: Math.max(0, parseInt(e.target.value) || 0) * 1024 * 1024,
+                    })}
+                    className="w-20 bg-gray-700 border border-gray-600 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-gray-400">MB</span>
+                </div>
+              </div>
+
+              {/* Join Video Parts Toggle */}
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <div className="font-medium">Join Multi-Part Videos</div>
+                  <div className="text-sm text-gray-400">
+                    Play "03a"/"03b" or "Part 1"/"Part 2" files as one video
+                  </div>
+                </div>
+                <button
+                  onClick={() => onUpdatePreference('joinVideoParts', !preferences.joinVideoParts)}
+                  className={`relative w-12 h-6 rounded-full transition-colors flex-shrink-0 ${
+                    preferences.joinVideoParts ? 'bg-blue-600' : 'bg-gray-600'
+                  }`}
+                >
+                  <span
+                    className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-transform ${
+                      preferences.joinVideoParts ? 'left-7' : 'left-1'
+                    }`}
+                  />
+                </button>
+              </div>
+
+              <p className="text-sm text-gray-400">
+                Changes apply the next time a course is added or rescanned.
+              </p>
+
+              {/* Watch Folders Toggle */}
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <div className="font-medium">Watch Folders for Changes</div>
+                  <div className="text-sm text-gray-400">
+                    Rescan courses in the background when files are added, removed or renamed
+                  </div>
+                </div>
+                <button
+                  onClick={() => onUpdatePreference('watchFolders', !preferences.watchFolders)}
+                  className={`relative w-12 h-6 rounded-full transition-colors flex-shrink-0 ${
+                    preferences.watchFolders ? 'bg-blue-600' : 'bg-gray-600'
+                  }`}
+                >
+                  <span
+                    className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-transform ${
+                      preferences.watchFolders ? 'left-7' : 'left-1'
+                    }`}
+                  />
+                </button>
+              </div>
             </div>
           </div>
 
@@ -208,6 +399,75 @@ const Settings: React.FC<SettingsProps> = ({
               />
             </div>
           </div>
+
+          {/* Compatibility Section */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wide mb-4">
+              Compatibility
+            </h3>
+            <div className="space-y-4">
+              {/* Auto Convert Toggle */}
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <div className="font-medium">Convert MKV/AVI</div>
+                  <div className="text-sm text-gray-400">
+                    Rewrite MKV and AVI files your browser can't play as MP4
+                  </div>
+                </div>
+                <button
+                  onClick={() => onUpdatePreference('autoRemux', !preferences.autoRemux)}
+                  className={`relative w-12 h-6 rounded-full transition-colors flex-shrink-0 ${
+                    preferences.autoRemux ? 'bg-blue-600' : 'bg-gray-600'
+                  }`}
+                >
+                  <span
+                    className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-transform ${
+                      preferences.autoRemux ? 'left-7' : 'left-1'
+                    }`}
+                  />
+                </button>
+              </div>
+
+              {/* Keep Converted Toggle */}
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <div className="font-medium">Keep Converted Files</div>
+                  <div className="text-sm text-gray-400">
+                    Store converted videos in browser storage so they only convert once
+                  </div>
+                </div>
+                <button
+                  onClick={() => onUpdatePreference('cacheRemuxedVideos', !preferences.cacheRemuxedVideos)}
+                  className={`relative w-12 h-6 rounded-full transition-colors flex-shrink-0 ${
+                    preferences.cacheRemuxedVideos ? 'bg-blue-600' : 'bg-gray-600'
+                  }`}
+                >
+                  <span
+                    className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-transform ${
+                      preferences.cacheRemuxedVideos ? 'left-7' : 'left-1'
+                    }`}
+                  />
+                </button>
+              </div>
+
+              {/* Converted Files Storage */}
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <div className="font-medium">Converted Files</div>
+                  <div className="text-sm text-gray-400">
+                    {formatFileSize(remuxCacheSize)} in browser storage
+                  </div>
+                </div>
+                <button
+                  onClick={handleClearRemuxCache}
+                  disabled={remuxCacheSize === 0}
+                  className="px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Clear
+                </button>
+              </div>
+            </div>
+          </div>
         </div>
       </div>
     </>
@@ -0,0 +1,48 @@
+import React from 'react';
+import type { SubtitleCue } from '../types';
+
+interface SubtitleOverlayProps {
+  cue: SubtitleCue;
+}
+
+const VERTICAL_CLASSES: Record<NonNullable<SubtitleCue['vertical']>, string> = {
+  top: 'top-8',
+  middle: 'top-1/2 -translate-y-1/2',
+  bottom: 'bottom-32',
+};
+
+const ALIGN_CLASSES: Record<NonNullable<SubtitleCue['align']>, string> = {
+  left: 'justify-start text-left',
+  center: 'justify-center text-center',
+  right: 'justify-end text-right',
+};
+
+const SubtitleOverlay: React.FC<SubtitleOverlayProps> = ({ cue }) => {
+  const vertical = cue.vertical || 'bottom';
+  const align = cue.align || 'center';
+
+  return (
+    <div className={`absolute left-0 right-0 px-8 flex pointer-events-none ${VERTICAL_CLASSES[vertical]} ${ALIGN_CLASSES[align]}`}>
+      <div className="subtitle-overlay bg-black/80 text-white px-6 py-3 rounded-lg text-2xl max-w-4xl font-medium whitespace-pre-line">
+        {cue.spans
+          ? cue.spans.map((span, index) => (
+              <span
+                key={index}
+                data-subtitle-color={span.color ? '' : undefined}
+                style={{
+                  fontWeight: span.bold ? 700 : undefined,
+                  fontStyle: span.italic ? 'italic' : undefined,
+                  textDecoration: span.underline ? 'underline' : undefined,
+                  color: span.color,
+                }}
+              >
+                {span.text}
+              </span>
+            ))
+          : cue.text}
+      </div>
+    </div>
+  );
+};
+
+export default SubtitleOverlay;
@@ -0,0 +1,87 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { SubtitleTrack } from '../types';
+
+interface SubtitleTrackMenuProps {
+  tracks: SubtitleTrack[];
+  activeTrackId: string | null;  // null when subtitles are off
+  onSelectTrack: (trackId: string | null) => void;
+}
+
+const SubtitleTrackMenu: React.FC<SubtitleTrackMenuProps> = ({ tracks, activeTrackId, onSelectTrack }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const hasTracks = tracks.length > 0;
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const items: { id: string | null; label: string }[] = [
+    { id: null, label: 'Off' },
+    ...tracks.map(track => ({ id: track.id, label: track.label })),
+  ];
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => hasTracks && setIsOpen(!isOpen)}
+        disabled={!hasTracks}
+        className={`p-2 rounded-lg ${
+          !hasTracks
+            ? 'opacity-50 cursor-not-allowed'
+            : activeTrackId
+              ? 'bg-blue-600'
+              : 'hover:bg-white/10'
+        }`}
+        title={!hasTracks ? 'No subtitles available' : 'Subtitles'}
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 8h10M7 12h4m1 8l-4-4H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-3l-4 4z" />
+        </svg>
+      </button>
+
+      {/* Track Menu */}
+      {isOpen && (
+        <div className="absolute right-0 bottom-full mb-2 w-48 bg-gray-800 rounded-lg shadow-xl border border-gray-700 py-1 z-50">
+          <div className="px-4 py-1.5 text-xs font-medium text-gray-400 uppercase tracking-wide">Subtitles</div>
+          {items.map(item => {
+            const isActive = item.id === activeTrackId;
+            return (
+              <button
+                key={item.id ?? 'off'}
+                onClick={() => {
+                  setIsOpen(false);
+                  onSelectTrack(item.id);
+                }}
+                className="w-full px-4 py-2 text-left text-sm flex items-center gap-2 text-gray-200 hover:bg-gray-700 transition-colors"
+              >
+                <span className="w-4 h-4 flex-shrink-0">
+                  {isActive && (
+                    <svg className="w-4 h-4 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                    </svg>
+                  )}
+                </span>
+                <span className="truncate">{item.label}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SubtitleTrackMenu;
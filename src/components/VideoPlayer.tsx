@@ -2,25 +2,47 @@ import React, { useState, useRef, useEffect } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { getVideoURL, formatDuration, formatDisplayName } from '../utils/folderParser';
 import { getCourse, getFolderHandle, markVideoComplete, deleteProgress } from '../utils/storage';
+import { getAllVideos, findLesson, findVideoPath } from '../utils/courseTree';
+import { parseSubtitles, getSubtitleTracks, pickSubtitleTrack } from '../utils/subtitles';
+import { readEmbeddedSubtitles } from '../utils/embeddedSubtitles';
+import { getChapterIndex, getAdjacentChapterTime } from '../utils/chapters';
+import {
+  getPartDurations,
+  getPartOffsets,
+  getPartIndex,
+  getVideoChapters,
+  getPartSubtitleTrack,
+} from '../utils/videoParts';
+import { isViewableResource, downloadResource } from '../utils/resources';
+import { readEmbeddedArtwork } from '../utils/audioArtwork';
+import { getPlaybackErrorMessage, probeMedia } from '../utils/playability';
+import { canRemux, remuxToMp4, getCachedRemux, discardRemux } from '../utils/remux';
+import { getCoverImage, createCoverFromVideoFrame, setCourseCover, setLessonCover } from '../utils/coverArt';
+import { needsFolderReselect } from '../utils/sessionCourses';
+import { clearNewVideos } from '../utils/folderWatcher';
 import { useProgress } from '../hooks/useProgress';
+import { useCourseUpdates } from '../hooks/useCourseUpdates';
 import { useControls } from '../hooks/useControls';
 import { usePreferences } from '../hooks/usePreferences';
 import VideoSidebar from './VideoSidebar';
 import Settings from './Settings';
 import Help from './Help';
 import ConfirmDialog from './ConfirmDialog';
-import type { Course, Lesson, Video, SubtitleCue } from '../types';
+import SubtitleOverlay from './SubtitleOverlay';
+import SubtitleTrackMenu from './SubtitleTrackMenu';
+import ResourceViewer from './ResourceViewer';
+import DropdownMenu from './DropdownMenu';
+import type { Course, Lesson, Video, VideoPart, SubtitleCue, Resource, Chapter } from '../types';
 
 const VideoPlayer: React.FC = () => {
   const { courseId, lessonId } = useParams<{ courseId: string; lessonId: string }>();
   const navigate = useNavigate();
-  const videoRef = useRef<HTMLVideoElement>(null);
+  const videoRef = useRef<HTMLVideoElement | null>(null);  // The element on screen (see the slots below)
   const containerRef = useRef<HTMLDivElement>(null);
 
   const [course, setCourse] = useState<Course | null>(null);
   const [currentLesson, setCurrentLesson] = useState<Lesson | null>(null);
   const [currentVideo, setCurrentVideo] = useState<Video | null>(null);
-  const [videoURL, setVideoURL] = useState<string | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
@@ -31,12 +53,37 @@ const VideoPlayer: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [subtitles, setSubtitles] = useState<SubtitleCue[]>([]);
   const [showSubtitles, setShowSubtitles] = useState(false);
-  const [currentSubtitle, setCurrentSubtitle] = useState<string>('');
+  const [activeTrackId, setActiveTrackId] = useState<string | null>(null);
+  const [currentCue, setCurrentCue] = useState<SubtitleCue | null>(null);
   const [sidebarWidth, setSidebarWidth] = useState(320);
   const [shouldAutoPlay, setShouldAutoPlay] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [showHelp, setShowHelp] = useState(false);
   const [initialVideoSet, setInitialVideoSet] = useState(false);
+  const [viewerResource, setViewerResource] = useState<Resource | null>(null);
+  const [audioArtwork, setAudioArtwork] = useState<string | null>(null);
+  const [playbackError, setPlaybackError] = useState<string | null>(null);
+  const [remuxProgress, setRemuxProgress] = useState<number | null>(null);  // Set while converting to MP4
+  const [isRemuxed, setIsRemuxed] = useState(false);  // Playing a converted copy
+  const remuxAbortRef = useRef<AbortController | null>(null);
+  const remuxedURLRef = useRef<string | null>(null);
+  const discardedRemuxRef = useRef<Video | null>(null);  // Converted copy to delete once it's no longer played
+  // Incremented per subtitle load; embedded tracks can take a while and must not overwrite a newer pick
+  const subtitleLoadRef = useRef(0);
+  // Joined multi-part videos play one part at a time on a shared timeline; ordinary videos are a single part.
+  // The ref mirrors the state for the keyboard shortcuts, which are bound once.
+  const [partIndex, setPartIndex] = useState(0);
+  const [partDurations, setPartDurations] = useState<number[]>([]);
+  const timelineRef = useRef<{ partIndex: number; durations: number[] }>({ partIndex: 0, durations: [] });
+  const pendingSeekRef = useRef<number | null>(null);  // Time within a part to seek to once it has loaded
+  // Two player elements ("slots") take turns: the next part of a joined video loads in the hidden one
+  // and takes over when the playing part ends, so playback carries straight on. Other videos use one slot.
+  const elementsRef = useRef<(HTMLVideoElement | null)[]>([null, null]);
+  const [slotURLs, setSlotURLs] = useState<(string | null)[]>([null, null]);
+  const slotURLsRef = useRef<(string | null)[]>([null, null]);
+  const [activeSlot, setActiveSlot] = useState(0);
+  const activeSlotRef = useRef(0);
+  const nextPartRef = useRef<{ index: number; slot: number } | null>(null);  // Part read ahead in the hidden slot
   const [confirmDialog, setConfirmDialog] = useState<{
     isOpen: boolean;
     title: string;
@@ -46,8 +93,27 @@ const VideoPlayer: React.FC = () => {
   }>({ isOpen: false, title: '', message: '', onConfirm: () => {} });
 
   const { updateProgress, allProgress, loadProgress, loadAllProgress } = useProgress(currentVideo?.id);
+
+  // Pick up durations filled in by the background metadata job
+  useCourseUpdates(updated => {
+    if (updated.id !== courseId) return;
+    setCourse(prev => prev ? { ...updated, dirHandle: prev.dirHandle } : updated);
+    setCurrentLesson(prev => prev ? findLesson(updated.lessons, prev.id) || prev : prev);
+  });
+
+  // All videos in the lesson, including nested sections, in playback order
+  // Videos flagged missing by a rescan stay listed but are skipped for playback
+  const lessonVideos = currentLesson ? getAllVideos(currentLesson).filter(video => !video.missing) : [];
+
+  // Chapters of the current video; the ref serves the keyboard shortcuts, which are bound once
+  const chapters = currentVideo ? getVideoChapters(currentVideo, partDurations) : [];
+  // Start of the playing part on the joined timeline; moves when an earlier part's real duration arrives
+  const partOffset = getPartOffsets(partDurations)[partIndex] ?? 0;
+  const activeChapterIndex = getChapterIndex(chapters, currentTime);
+  const chaptersRef = useRef<Chapter[]>(chapters);
+  chaptersRef.current = chapters;
   const { showControls, handleActivity } = useControls(isPlaying);
-  const { preferences, updatePreference } = usePreferences();
+  const { preferences, updatePreference, updatePreferences } = usePreferences();
 
   // Initialize from preferences - track if we've done initial setup
   const [prefsInitialized, setPrefsInitialized] = useState(false);
@@ -75,13 +141,13 @@ const VideoPlayer: React.FC = () => {
 
   // Set initial video once lesson and progress are loaded
   useEffect(() => {
-    if (!currentLesson || initialVideoSet || currentLesson.videos.length === 0) return;
+    if (!currentLesson || initialVideoSet || lessonVideos.length === 0) return;
 
     // Find the most recently watched video in this lesson
-    let mostRecentVideo = currentLesson.videos[0];
+    let mostRecentVideo = lessonVideos[0];
     let mostRecentTimestamp = 0;
 
-    currentLesson.videos.forEach(video => {
+    lessonVideos.forEach(video => {
       const progress = allProgress[video.id];
       if (progress?.lastWatched && progress.lastWatched > mostRecentTimestamp) {
         mostRecentTimestamp = progress.lastWatched;
@@ -97,21 +163,35 @@ const VideoPlayer: React.FC = () => {
   useEffect(() => {
     if (currentVideo) {
       loadVideo();
-      loadSubtitles();
     }
   }, [currentVideo]);
 
+  // Pick the default subtitle track (preferred language first) when the video changes
+  useEffect(() => {
+    if (!currentVideo || !prefsInitialized) return;
+    const track = pickSubtitleTrack(
+      getSubtitleTracks(currentVideo),
+      preferences?.preferredSubtitleLanguages ?? []
+    );
+    setActiveTrackId(track?.id ?? null);
+  }, [currentVideo, prefsInitialized]);
+
+  // Load subtitles when the selected track, the playing part or its place on the timeline changes
+  useEffect(() => {
+    loadSubtitles();
+  }, [currentVideo, activeTrackId, partIndex, partOffset]);
+
   // Update current subtitle based on time
   useEffect(() => {
     if (!showSubtitles || subtitles.length === 0) {
-      setCurrentSubtitle('');
+      setCurrentCue(null);
       return;
     }
 
     const cue = subtitles.find(
       (s) => currentTime >= s.startTime && currentTime <= s.endTime
     );
-    setCurrentSubtitle(cue?.text || '');
+    setCurrentCue(cue || null);
   }, [currentTime, subtitles, showSubtitles]);
 
   // Update progress periodically
@@ -120,17 +200,50 @@ const VideoPlayer: React.FC = () => {
 
     const interval = setInterval(() => {
       if (videoRef.current && !videoRef.current.paused) {
-        updateProgress(
-          currentVideo.id,
-          videoRef.current.currentTime,
-          videoRef.current.duration
-        );
+        updateProgress(currentVideo.id, getTimelineTime(), getTimelineDuration());
       }
     }, 2000); // Save every 2 seconds
 
     return () => clearInterval(interval);
   }, [currentVideo, isPlaying, updateProgress]);
 
+  // Load the artwork embedded in audio files for the audio layout
+  useEffect(() => {
+    setAudioArtwork(null);
+    if (currentVideo?.mediaType !== 'audio') return;
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    currentVideo.fileHandle.getFile()
+      .then(readEmbeddedArtwork)
+      .then(artwork => {
+        if (cancelled || !artwork) return;
+        objectUrl = URL.createObjectURL(artwork);
+        setAudioArtwork(objectUrl);
+      })
+      .catch(err => console.error('Error loading audio artwork:', err));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [currentVideo]);
+
+  // Show the current video with its cover art in OS media controls
+  useEffect(() => {
+    if (!('mediaSession' in navigator) || !course || !currentLesson || !currentVideo) return;
+
+    const replace = preferences?.replaceUnderscoreWithColon ?? true;
+    const artwork = audioArtwork || getCoverImage(currentLesson) || getCoverImage(course);
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title: formatDisplayName(currentVideo.name, replace),
+      artist: formatDisplayName(course.title, replace),
+      album: formatDisplayName(currentLesson.name, replace),
+      artwork: artwork ? [{ src: artwork }] : [],
+    });
+  }, [course, currentLesson, currentVideo, audioArtwork, preferences?.replaceUnderscoreWithColon]);
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
@@ -143,11 +256,19 @@ const VideoPlayer: React.FC = () => {
           break;
         case 'ArrowLeft':
           e.preventDefault();
-          skip(-10);
+          if (e.shiftKey) {
+            skipChapter(-1);
+          } else {
+            skip(-10);
+          }
           break;
         case 'ArrowRight':
           e.preventDefault();
-          skip(10);
+          if (e.shiftKey) {
+            skipChapter(1);
+          } else {
+            skip(10);
+          }
           break;
         case 'ArrowUp':
           e.preventDefault();
@@ -180,7 +301,8 @@ const VideoPlayer: React.FC = () => {
       }
 
       const c = await getCourse(courseId);
-      if (!c) {
+      // A session course from an earlier visit has no files until it is reselected on the home screen
+      if (!c || needsFolderReselect(c)) {
         navigate('/');
         return;
       }
@@ -193,14 +315,17 @@ const VideoPlayer: React.FC = () => {
 
       setCourse(c);
 
-      // Find the lesson
-      const lesson = c.lessons.find(l => l.id === lessonId);
+      // Find the lesson (or nested section)
+      const lesson = findLesson(c.lessons, lessonId);
       if (!lesson) {
         navigate(`/course/${courseId}`);
         return;
       }
 
       setCurrentLesson(lesson);
+      // Videos the folder watcher found are no longer new once their lesson is opened
+      clearNewVideos(courseId, getAllVideos(lesson).map(video => video.id))
+        .catch(err => console.warn('Could not clear new videos:', err));
       // Video selection is handled by the separate useEffect that considers allProgress
 
       setLoading(false);
@@ -210,22 +335,112 @@ const VideoPlayer: React.FC = () => {
     }
   };
 
+  // Stop a running conversion and release the converted copy when the video changes
+  // Unless converted files are kept, the copy is deleted from the OPFS cache too.
+  useEffect(() => {
+    return () => {
+      remuxAbortRef.current?.abort();
+      if (remuxedURLRef.current) {
+        URL.revokeObjectURL(remuxedURLRef.current);
+        remuxedURLRef.current = null;
+      }
+      if (discardedRemuxRef.current) {
+        discardRemux(discardedRemuxRef.current).catch(err => console.warn('Could not delete converted video:', err));
+        discardedRemuxRef.current = null;
+      }
+    };
+  }, [currentVideo]);
+
+  // Release the object URLs of files no longer in a slot, and all of them when the player closes
+  useEffect(() => {
+    const previous = slotURLsRef.current;
+    slotURLsRef.current = slotURLs;
+    previous.forEach(url => {
+      if (url && !slotURLs.includes(url)) URL.revokeObjectURL(url);
+    });
+  }, [slotURLs]);
+
+  useEffect(() => {
+    return () => {
+      slotURLsRef.current.forEach(url => {
+        if (url) URL.revokeObjectURL(url);
+      });
+    };
+  }, []);
+
+  // Show an element; videoRef follows it right away, before the next render
+  const activateSlot = (slot: number): void => {
+    activeSlotRef.current = slot;
+    videoRef.current = elementsRef.current[slot];
+    setActiveSlot(slot);
+  };
+
+  const setSlotURL = (slot: number, url: string | null): void => {
+    setSlotURLs(prev => prev.map((current, i) => (i === slot ? url : current)));
+  };
+
+  // Show a single URL (or none) in the first slot
+  const showURL = (url: string | null): void => {
+    nextPartRef.current = null;
+    activateSlot(0);
+    setSlotURLs([url, null]);
+  };
+
+  // Show a URL in the player and resume from the saved position
+  const playURL = async (url: string): Promise<void> => {
+    if (!currentVideo) return;
+
+    showURL(url);
+
+    // Load saved progress
+    const progress = await loadProgress(currentVideo.id);
+    if (progress && videoRef.current) {
+      videoRef.current.currentTime = progress.currentTime;
+    }
+  };
+
   const loadVideo = async (): Promise<void> => {
     if (!currentVideo) return;
 
     setLoading(true);
+    setPlaybackError(null);
+    setIsRemuxed(false);
+
+    const durations = getPartDurations(currentVideo);
+    timelineRef.current = { partIndex: 0, durations };
+    setPartIndex(0);
+    setPartDurations(durations);
+    nextPartRef.current = null;
+    pendingSeekRef.current = null;
 
     try {
-      const url = await getVideoURL(currentVideo.fileHandle);
-      if (url) {
-        setVideoURL(url);
+      if (currentVideo.parts) {
+        await loadJoinedVideo(currentVideo, currentVideo.parts);
+        return;
+      }
 
-        // Load saved progress
-        const progress = await loadProgress(currentVideo.id);
-        if (progress && videoRef.current) {
-          videoRef.current.currentTime = progress.currentTime;
+      // Play a converted copy from an earlier session if there is one
+      if (canRemux(currentVideo) && preferences?.cacheRemuxedVideos) {
+        const cached = await getCachedRemux(currentVideo);
+        if (cached) {
+          remuxedURLRef.current = URL.createObjectURL(cached);
+          setIsRemuxed(true);
+          await playURL(remuxedURLRef.current);
+          return;
         }
       }
+
+      // Known not to play as is: convert straight away instead of failing first
+      if (canRemux(currentVideo) && preferences?.autoRemux && currentVideo.playability === 'unplayable') {
+        showURL(null);
+        startRemux();
+        return;
+      }
+
+      const url = await getVideoURL(currentVideo.fileHandle);
+      if (url) {
+        await playURL(url);
+      }
     } catch (err) {
       console.error('Error loading video:', err);
     } finally {
@@ -233,72 +448,206 @@ const VideoPlayer: React.FC = () => {
     }
   };
 
-  // Parse SRT content into SubtitleCue array
-  const parseSRT = (content: string): SubtitleCue[] => {
-    const cues: SubtitleCue[] = [];
+  // Resume a joined video in the part holding the saved position
+  const loadJoinedVideo = async (video: Video, parts: VideoPart[]): Promise<void> => {
+    const progress = await loadProgress(video.id);
+    const time = progress?.currentTime ?? 0;
+    let { durations } = timelineRef.current;
+
+    // Parts still missing their duration (the metadata job hasn't reached them) can't be placed
+    // on the timeline, so read them before picking the part to resume in
+    if (time > 0 && durations.some(d => d === 0)) {
+      durations = await Promise.all(parts.map(async (part, i) => durations[i] || (await probeMedia(part.fileHandle)).duration));
+      timelineRef.current = { ...timelineRef.current, durations };
+      setPartDurations(durations);
+    }
 
-    // Normalize line endings (handle Windows \r\n and old Mac \r)
-    const normalizedContent = content.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
-    const blocks = normalizedContent.trim().split(/\n\n+/);
+    const index = getPartIndex(durations, time);
+    await loadPart(video, index, time - getPartOffsets(durations)[index]);
+  };
 
-    for (const block of blocks) {
-      const lines = block.split('\n').map(line => line.trim());
-      if (lines.length < 3) continue;
+  // Show one part of a joined video from a time within the part, and read the next part ahead in
+  // the hidden slot. A part that was read ahead is shown by switching slots, without reloading.
+  // autoPlay starts playback (left as the caller set up when not given).
+  const loadPart = async (video: Video, index: number, startTime: number, autoPlay?: boolean): Promise<void> => {
+    const parts = video.parts;
+    if (!parts?.[index]) return;
+
+    const readAhead = nextPartRef.current;
+    const readAheadElement = readAhead?.index === index ? elementsRef.current[readAhead.slot] : null;
+    let slot = activeSlotRef.current;
+
+    if (readAhead && readAheadElement && !readAheadElement.error) {
+      const previous = videoRef.current;
+      if (previous) {
+        readAheadElement.volume = previous.volume;
+        readAheadElement.muted = previous.muted;
+        previous.pause();
+      }
+      readAheadElement.playbackRate = playbackRate;
 
-      const idMatch = lines[0].match(/^\d+$/);
-      if (!idMatch) continue;
+      slot = readAhead.slot;
+      activateSlot(slot);
+      if (readAheadElement.readyState >= HTMLMediaElement.HAVE_METADATA) {
+        if (readAheadElement.currentTime !== startTime) readAheadElement.currentTime = startTime;
+      } else {
+        pendingSeekRef.current = startTime;
+      }
+      if (autoPlay) {
+        readAheadElement.play().catch(() => {
+          // Autoplay might be blocked by browser
+        });
+      }
+    } else {
+      const url = await getVideoURL(parts[index].fileHandle);
+      if (!url) return;
+
+      pendingSeekRef.current = startTime;
+      if (autoPlay !== undefined) setShouldAutoPlay(autoPlay);
+      setSlotURL(slot, url);
+    }
 
-      const timeMatch = lines[1].match(
-        /(\d{2}):(\d{2}):(\d{2}),(\d{3})\s*-->\s*(\d{2}):(\d{2}):(\d{2}),(\d{3})/
-      );
-      if (!timeMatch) continue;
+    nextPartRef.current = null;
+    timelineRef.current = { ...timelineRef.current, partIndex: index };
+    setPartIndex(index);
 
-      const startTime =
-        parseInt(timeMatch[1]) * 3600 +
-        parseInt(timeMatch[2]) * 60 +
-        parseInt(timeMatch[3]) +
-        parseInt(timeMatch[4]) / 1000;
+    const following = parts[index + 1];
+    const followingURL = following ? await getVideoURL(following.fileHandle) : null;
+    nextPartRef.current = followingURL ? { index: index + 1, slot: 1 - slot } : null;
+    setSlotURL(1 - slot, followingURL);
+  };
 
-      const endTime =
-        parseInt(timeMatch[5]) * 3600 +
-        parseInt(timeMatch[6]) * 60 +
-        parseInt(timeMatch[7]) +
-        parseInt(timeMatch[8]) / 1000;
+  // Position and length of the current video, on the joined timeline for multi-part videos
+  const getTimelineTime = (): number => {
+    const { partIndex: index, durations } = timelineRef.current;
+    return (getPartOffsets(durations)[index] ?? 0) + (videoRef.current?.currentTime ?? 0);
+  };
 
-      const text = lines.slice(2).join('\n').trim();
+  const getTimelineDuration = (): number => {
+    const total = timelineRef.current.durations.reduce((sum, d) => sum + d, 0);
+    return total || videoRef.current?.duration || 0;
+  };
 
-      cues.push({
-        id: parseInt(idMatch[0]),
-        startTime,
-        endTime,
-        text,
-      });
+  // Seek on the timeline; a joined video switches to the part holding the time
+  // (playing on if it was playing, unless autoPlay says otherwise)
+  const seekTo = (time: number, autoPlay?: boolean): void => {
+    const element = videoRef.current;
+    if (!element) return;
+
+    const { partIndex: index, durations } = timelineRef.current;
+    const total = durations.reduce((sum, d) => sum + d, 0);
+    const target = Math.max(0, total > 0 ? Math.min(time, total) : time);
+    const targetIndex = getPartIndex(durations, target);
+    const partTime = target - getPartOffsets(durations)[targetIndex];
+
+    if (targetIndex === index || !currentVideo) {
+      element.currentTime = partTime;
+      return;
     }
+    loadPart(currentVideo, targetIndex, partTime, autoPlay ?? !element.paused);
+  };
+
+  // The keyboard shortcuts are bound once, so they seek through a ref to the latest seekTo
+  const seekToRef = useRef(seekTo);
+  seekToRef.current = seekTo;
 
-    return cues;
+  // Convert the current video to MP4 in the browser and play the result
+  const startRemux = async (): Promise<void> => {
+    if (!currentVideo) return;
+
+    const video = currentVideo;
+    const controller = new AbortController();
+    remuxAbortRef.current = controller;
+    setPlaybackError(null);
+    setRemuxProgress(0);
+
+    try {
+      const file = await video.fileHandle.getFile();
+      const converted = await remuxToMp4(video, file, setRemuxProgress, controller.signal);
+      if (controller.signal.aborted) {
+        if (!preferences?.cacheRemuxedVideos) await discardRemux(video);
+        return;
+      }
+      if (!preferences?.cacheRemuxedVideos) {
+        discardedRemuxRef.current = video;
+      }
+
+      remuxedURLRef.current = URL.createObjectURL(converted);
+      setIsRemuxed(true);
+      await playURL(remuxedURLRef.current);
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') return;
+      console.error('Error converting video:', err);
+      setPlaybackError(err instanceof Error ? `Conversion failed: ${err.message}` : 'Conversion failed.');
+    } finally {
+      if (remuxAbortRef.current === controller) {
+        remuxAbortRef.current = null;
+        setRemuxProgress(null);
+      }
+    }
+  };
+
+  const cancelRemux = (): void => {
+    remuxAbortRef.current?.abort();
+    setRemuxProgress(null);
+    setPlaybackError('Conversion was cancelled.');
   };
 
   const loadSubtitles = async (): Promise<void> => {
+    const loadId = ++subtitleLoadRef.current;
     setSubtitles([]);
-    setCurrentSubtitle('');
-
-    if (!currentVideo?.subtitleFile) {
+    setCurrentCue(null);
+
+    const selected = currentVideo
+      ? getSubtitleTracks(currentVideo).find(t => t.id === activeTrackId)
+      : undefined;
+    // Joined videos: the matching track of the part playing, moved onto the joined timeline
+    const track = currentVideo && selected ? getPartSubtitleTrack(currentVideo, selected, partIndex) : undefined;
+    if (!track) {
       return;
     }
-
     try {
-      const file = await currentVideo.subtitleFile.getFile();
-      const content = await file.text();
-      const parsed = parseSRT(content);
-      setSubtitles(parsed);
+      const file = await track.fileHandle.getFile();
+      const parsed = track.embedded
+        ? await readEmbeddedSubtitles(file, track.embedded)
+        : parseSubtitles(await file.text(), file.name);
+      if (loadId === subtitleLoadRef.current) {
+        setSubtitles(partOffset > 0
+          ? parsed.map(cue => ({ ...cue, startTime: cue.startTime + partOffset, endTime: cue.endTime + partOffset }))
+          : parsed);
+      }
     } catch {
       // Error loading subtitles - subtitles not available
     }
   };
 
+  // Select a subtitle track (null turns subtitles off) and remember the choice
+  const handleSelectSubtitleTrack = (trackId: string | null): void => {
+    if (!currentVideo) return;
+
+    if (trackId === null) {
+      setShowSubtitles(false);
+      updatePreference('subtitlesEnabled', false);
+      return;
+    }
+
+    const track = getSubtitleTracks(currentVideo).find(t => t.id === trackId);
+    if (!track) return;
+
+    setActiveTrackId(track.id);
+    setShowSubtitles(true);
+
+    // Move the chosen language to the front of the preferred language list
+    const preferred = preferences?.preferredSubtitleLanguages ?? [];
+    updatePreferences({
+      subtitlesEnabled: true,
+      preferredSubtitleLanguages: [track.language, ...preferred.filter(l => l !== track.language)],
+    });
+  };
+
   const restartVideo = (): void => {
     if (videoRef.current) {
-      videoRef.current.currentTime = 0;
+      seekTo(0, true);
       videoRef.current.play();
       setIsPlaying(true);
     }
@@ -306,10 +655,7 @@ const VideoPlayer: React.FC = () => {
 
   const skipSeconds = (seconds: number): void => {
     if (videoRef.current) {
-      videoRef.current.currentTime = Math.max(
-        0,
-        Math.min(videoRef.current.duration, videoRef.current.currentTime + seconds)
-      );
+      seekTo(getTimelineTime() + seconds);
     }
   };
 
@@ -327,10 +673,23 @@ const VideoPlayer: React.FC = () => {
 
   const skip = (seconds: number): void => {
     if (videoRef.current) {
-      videoRef.current.currentTime += seconds;
+      seekToRef.current(getTimelineTime() + seconds);
     }
   };
 
+  // Jump to the next or previous chapter of the current video
+  const skipChapter = (direction: 1 | -1): void => {
+    if (!videoRef.current) return;
+    const time = getAdjacentChapterTime(chaptersRef.current, getTimelineTime(), direction);
+    if (time !== null) {
+      seekToRef.current(time);
+    }
+  };
+
+  const handleSelectChapter = (chapter: Chapter): void => {
+    seekTo(chapter.startTime);
+  };
+
   const changeVolume = (delta: number): void => {
     if (videoRef.current) {
       const newVolume = Math.max(0, Math.min(1, volume + delta));
@@ -359,11 +718,7 @@ const VideoPlayer: React.FC = () => {
   const handleSelectVideo = (video: Video, autoPlay: boolean = false): void => {
     // Save current progress before switching
     if (currentVideo && videoRef.current) {
-      updateProgress(
-        currentVideo.id,
-        videoRef.current.currentTime,
-        videoRef.current.duration
-      );
+      updateProgress(currentVideo.id, getTimelineTime(), getTimelineDuration());
     }
 
     // Set flag to auto-play when video is ready
@@ -376,7 +731,11 @@ const VideoPlayer: React.FC = () => {
     }
   };
 
-  const handleCanPlay = (): void => {
+  // Events of the hidden element (the part read ahead) don't concern the player
+  const isShown = (e: React.SyntheticEvent<HTMLVideoElement>): boolean => e.currentTarget === videoRef.current;
+
+  const handleCanPlay = (e: React.SyntheticEvent<HTMLVideoElement>): void => {
+    if (!isShown(e)) return;
     if (shouldAutoPlay && videoRef.current) {
       videoRef.current.play().catch(() => {
         // Autoplay might be blocked by browser
@@ -388,50 +747,98 @@ const VideoPlayer: React.FC = () => {
   const playNextVideo = (): void => {
     if (!currentLesson || !currentVideo) return;
 
-    const currentIndex = currentLesson.videos.findIndex(v => v.id === currentVideo.id);
-    if (currentIndex < currentLesson.videos.length - 1) {
-      handleSelectVideo(currentLesson.videos[currentIndex + 1], true);
+    const currentIndex = lessonVideos.findIndex(v => v.id === currentVideo.id);
+    if (currentIndex < lessonVideos.length - 1) {
+      handleSelectVideo(lessonVideos[currentIndex + 1], true);
     }
   };
 
   const playPreviousVideo = (): void => {
     if (!currentLesson || !currentVideo) return;
 
-    const currentIndex = currentLesson.videos.findIndex(v => v.id === currentVideo.id);
+    const currentIndex = lessonVideos.findIndex(v => v.id === currentVideo.id);
     if (currentIndex > 0) {
-      handleSelectVideo(currentLesson.videos[currentIndex - 1]);
+      handleSelectVideo(lessonVideos[currentIndex - 1]);
     }
   };
 
-  const handleTimeUpdate = (): void => {
-    if (videoRef.current) {
-      setCurrentTime(videoRef.current.currentTime);
+  const handleTimeUpdate = (e: React.SyntheticEvent<HTMLVideoElement>): void => {
+    if (isShown(e)) {
+      setCurrentTime(getTimelineTime());
     }
   };
 
-  const handleLoadedMetadata = (): void => {
-    if (videoRef.current) {
-      setDuration(videoRef.current.duration);
+  const handleLoadedMetadata = (e: React.SyntheticEvent<HTMLVideoElement>): void => {
+    // The part in the element (the one playing, or the one read ahead) gets its real duration on
+    // the timeline, which moves the later parts, their subtitles and chapters
+    const element = e.currentTarget;
+    const readAhead = nextPartRef.current;
+    const index = isShown(e)
+      ? timelineRef.current.partIndex
+      : readAhead && elementsRef.current[readAhead.slot] === element ? readAhead.index : null;
+    if (index === null) return;
+
+    const { durations } = timelineRef.current;
+    const loadedDuration = element.duration;
+    const updated = durations.map((d, i) => (i === index && Number.isFinite(loadedDuration) ? loadedDuration : d));
+    timelineRef.current = { ...timelineRef.current, durations: updated };
+    setPartDurations(updated);
+    if (currentVideo?.parts) {
+      setDuration(updated.reduce((sum, d) => sum + d, 0));
+    }
+    if (!isShown(e)) return;
 
-      // Update video duration if not set
-      if (currentVideo && currentVideo.duration === 0) {
-        currentVideo.duration = videoRef.current.duration;
-      }
+    if (!currentVideo?.parts) {
+      setDuration(loadedDuration);
+    }
+
+    if (pendingSeekRef.current !== null) {
+      element.currentTime = pendingSeekRef.current;
+      pendingSeekRef.current = null;
+    }
 
-      // Apply current playback rate to new video
-      videoRef.current.playbackRate = playbackRate;
+    // Update video duration if not set
+    if (currentVideo && currentVideo.duration === 0 && !currentVideo.parts) {
+      currentVideo.duration = element.duration;
     }
+
+    // Apply current playback rate to new video
+    element.playbackRate = playbackRate;
+  };
+
+  // The browser gave up on the file: show why instead of a blank player
+  const handleVideoError = (e: React.SyntheticEvent<HTMLVideoElement>): void => {
+    if (!isShown(e)) return;
+    setLoading(false);
+
+    // The container may be the only problem: try a converted copy if enabled
+    if (currentVideo && canRemux(currentVideo) && !isRemuxed && preferences?.autoRemux) {
+      startRemux();
+      return;
+    }
+
+    const message = getPlaybackErrorMessage(videoRef.current?.error ?? null);
+    setPlaybackError(isRemuxed
+      ? `${message} Converting to MP4 didn't help, so the codecs themselves aren't supported.`
+      : message);
   };
 
   const handleSeek = (e: React.MouseEvent<HTMLDivElement>): void => {
     const rect = e.currentTarget.getBoundingClientRect();
     const pos = (e.clientX - rect.left) / rect.width;
-    if (videoRef.current) {
-      videoRef.current.currentTime = pos * duration;
-    }
+    seekTo(pos * duration);
   };
 
-  const handleEnded = (): void => {
+  const handleEnded = (e: React.SyntheticEvent<HTMLVideoElement>): void => {
+    if (!isShown(e)) return;
+
+    // A joined video hands off to its next part, read ahead in the hidden element
+    const { partIndex: index } = timelineRef.current;
+    if (currentVideo?.parts && index < currentVideo.parts.length - 1) {
+      loadPart(currentVideo, index + 1, 0, true);
+      return;
+    }
+
     // Mark as completed
     if (currentVideo) {
       updateProgress(currentVideo.id, duration, duration);
@@ -473,6 +880,34 @@ const VideoPlayer: React.FC = () => {
     });
   };
 
+  // Open a lesson resource: links in a new tab, PDFs and images in the viewer, anything else as a download
+  const handleOpenResource = (resource: Resource): void => {
+    if (resource.kind === 'link' && resource.url) {
+      window.open(resource.url, '_blank', 'noopener,noreferrer');
+    } else if (isViewableResource(resource)) {
+      videoRef.current?.pause();
+      setViewerResource(resource);
+    } else {
+      downloadResource(resource).catch(err => console.error('Error downloading resource:', err));
+    }
+  };
+
+  // Use the frame currently on screen as the cover of the lesson or the whole course
+  const handleUseFrameAsCover = async (target: 'lesson' | 'course'): Promise<void> => {
+    if (!course || !currentLesson || !videoRef.current) return;
+
+    const cover = createCoverFromVideoFrame(videoRef.current);
+    if (!cover) return;
+
+    const updated = target === 'lesson'
+      ? await setLessonCover(course.id, currentLesson.id, cover)
+      : await setCourseCover(course.id, cover);
+    if (updated) {
+      setCourse(prev => prev ? { ...updated, dirHandle: prev.dirHandle } : updated);
+      setCurrentLesson(prev => prev ? findLesson(updated.lessons, prev.id) || prev : prev);
+    }
+  };
+
   if (!course || !currentLesson || !currentVideo) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -485,6 +920,14 @@ const VideoPlayer: React.FC = () => {
   }
 
   const replaceUnderscore = preferences?.replaceUnderscoreWithColon ?? true;
+  const isAudio = currentVideo.mediaType === 'audio';
+  const audioCover = audioArtwork || getCoverImage(currentLesson) || getCoverImage(course);
+
+  // Breadcrumb from the lesson down through nested sections to the current video
+  const breadcrumb = [
+    ...findVideoPath(currentLesson, currentVideo.id).map(section => section.name),
+    currentVideo.name,
+  ].map(name => formatDisplayName(name, replaceUnderscore)).join(' / ');
 
   return (
     <div className="h-screen flex overflow-hidden">
@@ -492,6 +935,7 @@ const VideoPlayer: React.FC = () => {
       {sidebarOpen && (
         <VideoSidebar
           videos={currentLesson.videos}
+          sections={currentLesson.sections}
           currentVideo={currentVideo}
           onSelectVideo={handleSelectVideo}
           progress={allProgress}
@@ -503,6 +947,10 @@ const VideoPlayer: React.FC = () => {
           replaceUnderscore={replaceUnderscore}
           onMarkVideoComplete={handleMarkVideoComplete}
           onResetVideoProgress={handleResetVideoProgress}
+          resources={currentLesson.resources}
+          onOpenResource={handleOpenResource}
+          activeChapterIndex={activeChapterIndex}
+          onSelectChapter={handleSelectChapter}
         />
       )}
 
@@ -558,9 +1006,9 @@ const VideoPlayer: React.FC = () => {
               </h1>
               <p
                 className="text-sm text-gray-400 truncate"
-                title={`${formatDisplayName(currentLesson.name, replaceUnderscore)} / ${formatDisplayName(currentVideo.name, replaceUnderscore)}`}
+                title={breadcrumb}
               >
-                {formatDisplayName(currentLesson.name, replaceUnderscore)} / {formatDisplayName(currentVideo.name, replaceUnderscore)}
+                {breadcrumb}
               </p>
             </div>
 
@@ -585,6 +1033,35 @@ const VideoPlayer: React.FC = () => {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
               </svg>
             </button>
+            {/* Cover options (video frames only) */}
+            {!isAudio && (
+              <div>
+                <DropdownMenu
+                  buttonClassName="hover:bg-gray-700"
+                  iconColor="currentColor"
+                  items={[
+                    {
+                      label: 'Use frame as lesson cover',
+                      icon: (
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                        </svg>
+                      ),
+                      onClick: () => handleUseFrameAsCover('lesson'),
+                    },
+                    {
+                      label: 'Use frame as course cover',
+                      icon: (
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                        </svg>
+                      ),
+                      onClick: () => handleUseFrameAsCover('course'),
+                    },
+                  ]}
+                />
+              </div>
+            )}
           </div>
         </div>
 
@@ -601,27 +1078,125 @@ const VideoPlayer: React.FC = () => {
             </div>
           )}
 
-          <video
-            ref={videoRef}
-            src={videoURL || undefined}
-            className="w-full h-full"
-            onTimeUpdate={handleTimeUpdate}
-            onLoadedMetadata={handleLoadedMetadata}
-            onCanPlay={handleCanPlay}
-            onEnded={handleEnded}
-            onPlay={() => setIsPlaying(true)}
-            onPause={() => setIsPlaying(false)}
-          />
+          {/* The hidden slot buffers the next part of a joined video */}
+          {slotURLs.map((url, slot) => (
+            <video
+              key={slot}
+              ref={element => {
+                elementsRef.current[slot] = element;
+                if (slot === activeSlotRef.current) videoRef.current = element;
+              }}
+              src={url || undefined}
+              preload={slot === activeSlot ? undefined : 'auto'}
+              className={slot !== activeSlot ? 'hidden' : `w-full h-full ${isAudio ? 'invisible' : ''}`}
+              onTimeUpdate={handleTimeUpdate}
+              onLoadedMetadata={handleLoadedMetadata}
+              onCanPlay={handleCanPlay}
+              onEnded={handleEnded}
+              onError={handleVideoError}
+              onPlay={e => isShown(e) && setIsPlaying(true)}
+              onPause={e => isShown(e) && setIsPlaying(false)}
+            />
+          ))}
+
+          {/* Audio layout: artwork in place of the picture */}
+          {isAudio && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 p-8 pb-32 pointer-events-none">
+              {audioCover ? (
+                <img
+                  src={audioCover}
+                  alt={currentVideo.name}
+                  className="min-h-0 max-h-full max-w-full aspect-square object-cover rounded-lg shadow-2xl"
+                />
+              ) : (
+                <div className="w-64 h-64 min-h-0 max-h-full aspect-square rounded-lg bg-gradient-to-br from-blue-900 to-purple-900 flex items-center justify-center">
+                  <svg className="w-24 h-24 text-white/30" fill="currentColor" viewBox="0 0 20 20">
+                    <path d="M18 3a1 1 0 00-1.196-.98l-10 2A1 1 0 006 5v9.114A4.369 4.369 0 005 14c-1.657 0-3 .895-3 2s1.343 2 3 2 3-.895 3-2V7.82l8-1.6v5.894A4.37 4.37 0 0015 12c-1.657 0-3 .895-3 2s1.343 2 3 2 3-.895 3-2V3z" />
+                  </svg>
+                </div>
+              )}
+              <p className="text-lg font-semibold text-white text-center">
+                {formatDisplayName(currentVideo.name, replaceUnderscore)}
+              </p>
+            </div>
+          )}
 
-          {/* Subtitle Overlay */}
-          {showSubtitles && currentSubtitle && (
-            <div className="absolute bottom-32 left-0 right-0 flex justify-center pointer-events-none">
-              <div className="subtitle-overlay bg-black/80 text-white px-6 py-3 rounded-lg text-2xl max-w-4xl text-center font-medium">
-                {currentSubtitle}
+          {/* Playback error overlay */}
+          {playbackError && (
+            <div
+              className="absolute inset-0 flex items-center justify-center p-6 bg-black/80"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="max-w-md text-center">
+                <svg className="w-12 h-12 mx-auto mb-4 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                </svg>
+                <h2 className="text-xl font-semibold mb-2 text-white">Can't play this file</h2>
+                <p className="text-gray-300 mb-1">{playbackError}</p>
+                <p className="text-sm text-gray-500 mb-4 break-all">{currentVideo.filename}</p>
+                <div className="flex justify-center gap-2">
+                  {canRemux(currentVideo) && !isRemuxed && (
+                    <button
+                      onClick={startRemux}
+                      className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors text-white"
+                      title="Rewrite the file as MP4 in your browser (the file itself is not changed)"
+                    >
+                      Convert to MP4
+                    </button>
+                  )}
+                  {lessonVideos.findIndex(v => v.id === currentVideo.id) < lessonVideos.length - 1 && (
+                    <button
+                      onClick={playNextVideo}
+                      className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors text-white"
+                    >
+                      Next video
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Conversion progress overlay */}
+          {remuxProgress !== null && (
+            <div
+              className="absolute inset-0 flex items-center justify-center p-6 bg-black/80"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="w-full max-w-sm text-center">
+                <h2 className="text-lg font-semibold mb-1 text-white">Converting to MP4 for playback</h2>
+                <p className="text-sm text-gray-400 mb-4">
+                  Only the container is rewritten, in your browser. The original file is not changed.
+                </p>
+                <div className="w-full bg-gray-700 rounded-full h-2 mb-2">
+                  <div
+                    className="bg-blue-500 h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${Math.round(remuxProgress * 100)}%` }}
+                  />
+                </div>
+                <p className="text-sm text-gray-400 mb-4">{Math.round(remuxProgress * 100)}%</p>
+                <button
+                  onClick={cancelRemux}
+                  className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors text-white"
+                >
+                  Cancel
+                </button>
               </div>
             </div>
           )}
 
+          {/* Picture can't be decoded, but the sound plays */}
+          {!playbackError && !isAudio && currentVideo.playability === 'audio-only' && (
+            <div className="absolute top-4 inset-x-0 flex justify-center pointer-events-none">
+              <span className="px-3 py-1.5 rounded-lg bg-black/70 text-sm text-yellow-300">
+                This browser can't decode the picture of this video; only the sound will play
+              </span>
+            </div>
+          )}
+
+          {/* Subtitle Overlay */}
+          {showSubtitles && currentCue && <SubtitleOverlay cue={currentCue} />}
+
           {/* Controls Overlay */}
           <div
             className={`absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/90 to-transparent p-6 video-controls ${showControls ? '' : 'hidden'}`}
@@ -629,7 +1204,7 @@ const VideoPlayer: React.FC = () => {
           >
             {/* Progress Bar */}
             <div
-              className="w-full bg-gray-700 h-1.5 rounded-full cursor-pointer mb-4 group"
+              className="relative w-full bg-gray-700 h-1.5 rounded-full cursor-pointer mb-4 group"
               onClick={handleSeek}
             >
               <div
@@ -638,6 +1213,16 @@ const VideoPlayer: React.FC = () => {
               >
                 <div className="absolute right-0 top-1/2 -translate-y-1/2 w-3 h-3 bg-white rounded-full opacity-0 group-hover:opacity-100"></div>
               </div>
+
+              {/* Chapter ticks */}
+              {duration > 0 && chapters.filter(chapter => chapter.startTime > 0 && chapter.startTime < duration).map(chapter => (
+                <div
+                  key={chapter.startTime}
+                  className="absolute top-1/2 -translate-y-1/2 w-0.5 h-2.5 bg-gray-900/80"
+                  style={{ left: `${(chapter.startTime / duration) * 100}%` }}
+                  title={chapter.title}
+                />
+              ))}
             </div>
 
             {/* Controls */}
@@ -705,8 +1290,13 @@ const VideoPlayer: React.FC = () => {
                 </button>
 
                 {/* Time Display */}
-                <div className="text-sm ml-2">
-                  {formatDuration(currentTime)} / {formatDuration(duration)}
+                <div className="text-sm ml-2 flex items-center min-w-0">
+                  <span className="flex-shrink-0">{formatDuration(currentTime)} / {formatDuration(duration)}</span>
+                  {activeChapterIndex >= 0 && (
+                    <span className="ml-2 text-gray-300 truncate max-w-xs" title={chapters[activeChapterIndex].title}>
+                      • {chapters[activeChapterIndex].title}
+                    </span>
+                  )}
                 </div>
               </div>
 
@@ -730,35 +1320,12 @@ const VideoPlayer: React.FC = () => {
                   </button>
                 </div>
 
-                {/* CC (Subtitles) - always visible, disabled when no subtitles */}
-                <button
-                  onClick={() => {
-                    if (currentVideo?.subtitleFile) {
-                      const newValue = !showSubtitles;
-                      setShowSubtitles(newValue);
-                      updatePreference('subtitlesEnabled', newValue);
-                    }
-                  }}
-                  disabled={!currentVideo?.subtitleFile}
-                  className={`p-2 rounded-lg ${
-                    !currentVideo?.subtitleFile
-                      ? 'opacity-50 cursor-not-allowed'
-                      : showSubtitles
-                        ? 'bg-blue-600'
-                        : 'hover:bg-white/10'
-                  }`}
-                  title={
-                    !currentVideo?.subtitleFile
-                      ? 'No subtitles available'
-                      : showSubtitles
-                        ? 'Hide subtitles'
-                        : 'Show subtitles'
-                  }
-                >
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 8h10M7 12h4m1 8l-4-4H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-3l-4 4z" />
-                  </svg>
-                </button>
+                {/* CC (Subtitles) - track menu, always visible, disabled when no subtitles */}
+                <SubtitleTrackMenu
+                  tracks={getSubtitleTracks(currentVideo)}
+                  activeTrackId={showSubtitles ? activeTrackId : null}
+                  onSelectTrack={handleSelectSubtitleTrack}
+                />
 
                 {/* Speed */}
                 <select
@@ -810,6 +1377,9 @@ const VideoPlayer: React.FC = () => {
       {/* Help Panel */}
       <Help isOpen={showHelp} onClose={() => setShowHelp(false)} />
 
+      {/* Resource Viewer */}
+      <ResourceViewer resource={viewerResource} onClose={() => setViewerResource(null)} />
+
       {/* Confirmation Dialog */}
       <ConfirmDialog
         isOpen={confirmDialog.isOpen}
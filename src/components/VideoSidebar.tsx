@@ -1,10 +1,13 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { formatDuration, formatDisplayName } from '../utils/folderParser';
+import { getAllVideos } from '../utils/courseTree';
 import DropdownMenu from './DropdownMenu';
-import type { VideoSidebarProps } from '../types';
+import ResourceList from './ResourceList';
+import type { VideoSidebarProps, Video, Lesson } from '../types';
 
 const VideoSidebar: React.FC<VideoSidebarProps> = ({
-  videos,
+  videos: directVideos,
+  sections = [],
   currentVideo,
   onSelectVideo,
   progress,
@@ -16,8 +19,13 @@ const VideoSidebar: React.FC<VideoSidebarProps> = ({
   replaceUnderscore = true,
   onMarkVideoComplete,
   onResetVideoProgress,
+  resources = [],
+  onOpenResource,
+  activeChapterIndex = -1,
+  onSelectChapter,
 }) => {
   const [isDragging, setIsDragging] = useState(false);
+  const [collapsedSections, setCollapsedSections] = useState<Set<string>>(new Set());
   const sidebarRef = useRef<HTMLDivElement>(null);
   const activeVideoRef = useRef<HTMLDivElement>(null);
 
@@ -60,6 +68,248 @@ const VideoSidebar: React.FC<VideoSidebarProps> = ({
       document.body.style.userSelect = '';
     };
   }, [isDragging, onWidthChange]);
+
+  // All videos including nested sections, used for the lesson progress summary
+  const videos = [...directVideos, ...sections.flatMap(section => getAllVideos(section))];
+
+  const toggleSection = (sectionId: string): void => {
+    setCollapsedSections(prev => {
+      const next = new Set(prev);
+      if (next.has(sectionId)) {
+        next.delete(sectionId);
+      } else {
+        next.add(sectionId);
+      }
+      return next;
+    });
+  };
+
+  const renderVideo = (video: Video) => {
+    const isActive = currentVideo?.id === video.id;
+    const videoProgress = progress[video.id];
+    const isCompleted = videoProgress && videoProgress.percentage > 90;
+    const progressPercentage = videoProgress?.percentage || 0;
+
+    return (
+      <div
+        key={video.id}
+        ref={isActive ? activeVideoRef : null}
+        className={`
+          rounded-lg transition-colors group/video
+          ${isActive
+            ? 'bg-blue-600 text-white'
+            : video.missing
+              ? 'text-gray-500 opacity-60'
+              : 'hover:bg-gray-700 text-gray-300'
+          }
+        `}
+      >
+        <div className="flex items-center">
+          <button
+            onClick={() => onSelectVideo(video)}
+            disabled={video.missing}
+            className="flex-1 text-left px-3 py-3 disabled:cursor-not-allowed"
+            title={video.missing ? 'This file was not found by the last rescan' : undefined}
+          >
+            <div className="flex items-start gap-3">
+              {/* Play/Audio Icon or Checkmark */}
+              <div className="flex-shrink-0 mt-0.5">
+                {isCompleted ? (
+                  <svg className="w-5 h-5 text-green-400" fill="currentColor" viewBox="0 0 20 20">
+                    <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+                  </svg>
+                ) : (
+                  <svg
+                    className={`w-5 h-5 ${isActive ? 'text-white' : 'text-gray-500'}`}
+                    fill="currentColor"
+                    viewBox="0 0 20 20"
+                  >
+                    {video.mediaType === 'audio' ? (
+                      <path d="M18 3a1 1 0 00-1.196-.98l-10 2A1 1 0 006 5v9.114A4.369 4.369 0 005 14c-1.657 0-3 .895-3 2s1.343 2 3 2 3-.895 3-2V7.82l8-1.6v5.894A4.37 4.37 0 0015 12c-1.657 0-3 .895-3 2s1.343 2 3 2 3-.895 3-2V3z" />
+                    ) : (
+                      <path d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" />
+                    )}
+                  </svg>
+                )}
+              </div>
+
+              {/* Video Info */}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-start justify-between gap-2">
+                  <span
+                    className="text-sm font-medium break-words"
+                    title={video.numberPrefix ? `${video.numberPrefix}. ${formatDisplayName(video.name, replaceUnderscore)}` : formatDisplayName(video.name, replaceUnderscore)}
+                  >
+                    {video.numberPrefix && (
+                      <span className="mr-1">
+                        {video.numberPrefix}.
+                      </span>
+                    )}
+                    {formatDisplayName(video.name, replaceUnderscore)}
+                  </span>
+                  {video.missing ? (
+                    <span className="text-xs flex-shrink-0 mt-0.5 text-yellow-500">Missing</span>
+                  ) : video.playability === 'unplayable' ? (
+                    <span
+                      className="text-xs flex-shrink-0 mt-0.5 px-1.5 rounded bg-red-900/60 text-red-300"
+                      title="This browser can't play this file's format or codec"
+                    >
+                      Unsupported
+                    </span>
+                  ) : video.playability === 'audio-only' ? (
+                    <span
+                      className="text-xs flex-shrink-0 mt-0.5 px-1.5 rounded bg-yellow-900/60 text-yellow-300"
+                      title="This browser can play the sound of this file but not its picture"
+                    >
+                      No picture
+                    </span>
+                  ) : video.duration > 0 && (
+                    <span className={`text-xs flex-shrink-0 mt-0.5 ${isActive ? 'text-blue-200' : 'text-gray-400'}`}>
+                      {formatDuration(video.duration)}
+                    </span>
+                  )}
+                </div>
+
+                {video.description && (
+                  <p className={`text-xs mt-1 line-clamp-2 ${isActive ? 'text-blue-100' : 'text-gray-400'}`}>
+                    {video.description}
+                  </p>
+                )}
+
+                {video.parts && (
+                  <p
+                    className={`text-xs mt-1 ${isActive ? 'text-blue-100' : 'text-gray-400'}`}
+                    title={video.parts.map(part => part.filename).join('\n')}
+                  >
+                    {video.parts.length} parts
+                  </p>
+                )}
+
+                {/* Progress Bar */}
+                <div
+                  className={`mt-1.5 w-full rounded-full h-1 transition-all duration-300 ${
+                    progressPercentage > 0 && !isCompleted
+                      ? `opacity-100 ${isActive ? 'bg-blue-400/30' : 'bg-gray-700'}`
+                      : 'opacity-0 bg-transparent'
+                  }`}
+                >
+                  <div
+                    className={`h-1 rounded-full transition-all duration-300 ${isActive ? 'bg-white' : 'bg-blue-500'}`}
+                    style={{ width: `${progressPercentage}%` }}
+                  />
+                </div>
+              </div>
+            </div>
+          </button>
+
+          {/* Video Options Menu */}
+          {onMarkVideoComplete && onResetVideoProgress && (
+            <div className="pr-2 flex-shrink-0 opacity-0 group-hover/video:opacity-100 transition-opacity">
+              <DropdownMenu
+                buttonClassName="p-1.5 bg-gray-900/70 hover:bg-gray-900/90 shadow-md"
+                iconColor="white"
+                items={[
+                  {
+                    label: 'Mark as complete',
+                    icon: (
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                      </svg>
+                    ),
+                    onClick: () => onMarkVideoComplete(video),
+                  },
+                  {
+                    label: 'Reset progress',
+                    icon: (
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                      </svg>
+                    ),
+                    onClick: () => onResetVideoProgress(video),
+                    danger: true,
+                  },
+                ]}
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Files named after this video */}
+        {onOpenResource && video.resources && video.resources.length > 0 && (
+          <div className="pl-11 pr-3 pb-2">
+            <ResourceList resources={video.resources} onOpen={onOpenResource} compact />
+          </div>
+        )}
+
+        {/* Chapters of the playing video */}
+        {isActive && onSelectChapter && video.chapters && video.chapters.length > 0 && (
+          <ol className="pl-11 pr-3 pb-2 space-y-0.5">
+            {video.chapters.map((chapter, index) => (
+              <li key={chapter.startTime}>
+                <button
+                  onClick={() => onSelectChapter(chapter)}
+                  className={`w-full flex items-baseline gap-2 px-1.5 py-1 rounded text-left text-xs transition-colors ${
+                    index === activeChapterIndex ? 'bg-white/20 text-white font-medium' : 'text-blue-100 hover:bg-white/10'
+                  }`}
+                >
+                  <span className="flex-shrink-0 tabular-nums">{formatDuration(chapter.startTime)}</span>
+                  <span className="break-words">{chapter.title}</span>
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    );
+  };
+
+  // Render a nested section: header with rolled-up progress, then its videos and subsections
+  const renderSection = (section: Lesson, depth: number) => {
+    const sectionVideos = getAllVideos(section);
+    const completedCount = sectionVideos.filter(v => {
+      const p = progress[v.id];
+      return p && p.percentage > 90;
+    }).length;
+    const isCollapsed = collapsedSections.has(section.id);
+    const displayName = formatDisplayName(section.name, replaceUnderscore);
+
+    return (
+      <div key={section.id} className={depth > 0 ? 'ml-3 border-l border-gray-700 pl-2' : ''}>
+        <button
+          onClick={() => toggleSection(section.id)}
+          className="w-full flex items-center gap-2 px-2 pt-3 pb-1 text-left text-xs font-semibold uppercase tracking-wide text-gray-400 hover:text-gray-200"
+          title={displayName}
+        >
+          <svg
+            className={`w-3 h-3 flex-shrink-0 transition-transform ${isCollapsed ? '' : 'rotate-90'}`}
+            fill="currentColor"
+            viewBox="0 0 20 20"
+          >
+            <path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" />
+          </svg>
+          <span className="flex-1 truncate">
+            {section.numberPrefix && <span className="mr-1">{section.numberPrefix}.</span>}
+            {displayName}
+          </span>
+          <span className={`flex-shrink-0 normal-case font-medium ${
+            completedCount === sectionVideos.length ? 'text-green-400' : 'text-gray-500'
+          }`}>
+            {completedCount}/{sectionVideos.length}
+          </span>
+        </button>
+        {!isCollapsed && (
+          <div className="space-y-1">
+            {onOpenResource && (
+              <ResourceList resources={section.resources || []} onOpen={onOpenResource} />
+            )}
+            {section.videos.map(renderVideo)}
+            {(section.sections || []).map(child => renderSection(child, depth + 1))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <>
       {/* Mobile Toggle Button */}
@@ -161,118 +411,19 @@ const VideoSidebar: React.FC<VideoSidebarProps> = ({
 
         {/* Scrollable Videos List */}
         <div className="flex-1 overflow-y-auto p-4 pt-2">
-          <div className="space-y-1">
-            {videos.map((video) => {
-              const isActive = currentVideo?.id === video.id;
-              const videoProgress = progress[video.id];
-              const isCompleted = videoProgress && videoProgress.percentage > 90;
-              const progressPercentage = videoProgress?.percentage || 0;
+          {/* Lesson Resources */}
+          {onOpenResource && resources.length > 0 && (
+            <div className="mb-3 pb-3 border-b border-gray-700">
+              <h3 className="px-2 pt-1 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-400">
+                Resources
+              </h3>
+              <ResourceList resources={resources} onOpen={onOpenResource} />
+            </div>
+          )}
 
-              return (
-                <div
-                  key={video.id}
-                  ref={isActive ? activeVideoRef : null}
-                  className={`
-                    flex items-center rounded-lg transition-colors group/video
-                    ${isActive
-                      ? 'bg-blue-600 text-white'
-                      : 'hover:bg-gray-700 text-gray-300'
-                    }
-                  `}
-                >
-                  <button
-                    onClick={() => onSelectVideo(video)}
-                    className="flex-1 text-left px-3 py-3"
-                  >
-                    <div className="flex items-start gap-3">
-                      {/* Play Icon or Checkmark */}
-                      <div className="flex-shrink-0 mt-0.5">
-                        {isCompleted ? (
-                          <svg className="w-5 h-5 text-green-400" fill="currentColor" viewBox="0 0 20 20">
-                            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
-                          </svg>
-                        ) : (
-                          <svg
-                            className={`w-5 h-5 ${isActive ? 'text-white' : 'text-gray-500'}`}
-                            fill="currentColor"
-                            viewBox="0 0 20 20"
-                          >
-                            <path d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" />
-                          </svg>
-                        )}
-                      </div>
-
-                      {/* Video Info */}
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-start justify-between gap-2">
-                          <span
-                            className="text-sm font-medium break-words"
-                            title={video.numberPrefix ? `${video.numberPrefix}. ${formatDisplayName(video.name, replaceUnderscore)}` : formatDisplayName(video.name, replaceUnderscore)}
-                          >
-                            {video.numberPrefix && (
-                              <span className="mr-1">
-                                {video.numberPrefix}.
-                              </span>
-                            )}
-                            {formatDisplayName(video.name, replaceUnderscore)}
-                          </span>
-                          {video.duration > 0 && (
-                            <span className={`text-xs flex-shrink-0 mt-0.5 ${isActive ? 'text-blue-200' : 'text-gray-400'}`}>
-                              {formatDuration(video.duration)}
-                            </span>
-                          )}
-                        </div>
-
-                        {/* Progress Bar */}
-                        <div
-                          className={`mt-1.5 w-full rounded-full h-1 transition-all duration-300 ${
-                            progressPercentage > 0 && !isCompleted
-                              ? `opacity-100 ${isActive ? 'bg-blue-400/30' : 'bg-gray-700'}`
-                              : 'opacity-0 bg-transparent'
-                          }`}
-                        >
-                          <div
-                            className={`h-1 rounded-full transition-all duration-300 ${isActive ? 'bg-white' : 'bg-blue-500'}`}
-                            style={{ width: `${progressPercentage}%` }}
-                          />
-                        </div>
-                      </div>
-                    </div>
-                  </button>
-
-                  {/* Video Options Menu */}
-                  {onMarkVideoComplete && onResetVideoProgress && (
-                    <div className="pr-2 flex-shrink-0 opacity-0 group-hover/video:opacity-100 transition-opacity">
-                      <DropdownMenu
-                        buttonClassName="p-1.5 bg-gray-900/70 hover:bg-gray-900/90 shadow-md"
-                        iconColor="white"
-                        items={[
-                          {
-                            label: 'Mark as complete',
-                            icon: (
-                              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                              </svg>
-                            ),
-                            onClick: () => onMarkVideoComplete(video),
-                          },
-                          {
-                            label: 'Reset progress',
-                            icon: (
-                              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                              </svg>
-                            ),
-                            onClick: () => onResetVideoProgress(video),
-                            danger: true,
-                          },
-                        ]}
-                      />
-                    </div>
-                  )}
-                </div>
-              );
-            })}
+          <div className="space-y-1">
+            {directVideos.map(renderVideo)}
+            {sections.map(section => renderSection(section, 0))}
           </div>
         </div>
 
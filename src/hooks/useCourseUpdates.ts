@@ -0,0 +1,14 @@
+import { useEffect, useRef } from 'react';
+import { subscribeToCourseUpdates } from '../utils/videoMetadata';
+import type { Course } from '../types';
+
+// Call onUpdate whenever a background job saves a newer version of a course
+export const useCourseUpdates = (onUpdate: (course: Course) => void): void => {
+  // Keep the latest callback without resubscribing on every render
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+
+  useEffect(() => {
+    return subscribeToCourseUpdates(course => onUpdateRef.current(course));
+  }, []);
+};
@@ -1,15 +1,142 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { parseFolderStructure } from '../utils/folderParser';
-import { saveFolderHandle, saveCourse } from '../utils/storage';
-import type { Course, UseFileSystemReturn, FileSystemDirectoryHandle } from '../types';
+import {
+  createFileSystemAccessSource,
+  createFileListSource,
+  createDroppedFolderSource,
+  pickFolderFiles,
+} from '../utils/courseSource';
+import { listCourseFolders } from '../utils/libraryImport';
+import { mergeRescannedCourse } from '../utils/rescan';
+import { reattachProgress } from '../utils/fingerprint';
+import { startMetadataFill } from '../utils/videoMetadata';
+import { saveFolderHandle, getFolderHandle, saveCourse, getCourse, getAllCourses, getPreferences } from '../utils/storage';
+import type {
+  Course,
+  CourseSource,
+  QueuedFolder,
+  RescanResult,
+  ScanProgress,
+  UseFileSystemReturn,
+  FileSystemDirectoryHandle,
+} from '../types';
+
+const NO_VIDEOS_MESSAGE = 'No videos found. Please select a folder that contains video files or lesson subfolders with video files.';
 
 export const useFileSystem = (): UseFileSystemReturn => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
-  // Check if File System Access API is supported
+  // Check if File System Access API is supported (otherwise folders are imported from picked files)
   const isSupported = 'showDirectoryPicker' in window;
 
+  // Scan a course folder, reporting progress until it finishes or cancelScan() is called
+  // Also returns the paths left out by the ignore rules and filters
+  const scanFolder = useCallback(async (
+    source: CourseSource
+  ): Promise<{ course: Course; excludedPaths: string[] }> => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      const preferences = await getPreferences();
+      const excludedPaths: string[] = [];
+      const course = await parseFolderStructure(source, {
+        subtitleLookup: preferences.subtitleLookup,
+        scanFilters: preferences.scanFilters,
+        joinVideoParts: preferences.joinVideoParts,
+        signal: controller.signal,
+        onProgress: setScanProgress,
+        onExclude: path => excludedPaths.push(path),
+      });
+      return { course, excludedPaths };
+    } finally {
+      abortControllerRef.current = null;
+      setScanProgress(null);
+    }
+  }, []);
+
+  // Cancel the folder scan in progress (the scan rejects with an AbortError)
+  const cancelScan = useCallback((): void => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  // Import a folder opened with the File System Access API (picked or dropped)
+  // A course already in the library is updated like a rescan, so it keeps its settings and metadata.
+  // Rejects if access is denied, the scan is cancelled (AbortError) or no videos are found.
+  const importFolderHandle = useCallback(async (dirHandle: FileSystemDirectoryHandle): Promise<Course> => {
+    // Verify we have permission
+    const permission = await dirHandle.queryPermission({ mode: 'read' });
+    if (permission !== 'granted') {
+      const newPermission = await dirHandle.requestPermission({ mode: 'read' });
+      if (newPermission !== 'granted') {
+        throw new Error('Permission denied to access folder');
+      }
+    }
+
+    // Parse folder structure (lesson folders and/or loose video files)
+    const source = createFileSystemAccessSource(dirHandle);
+    const { course: scanned, excludedPaths } = await scanFolder(source);
+
+    // Validate that course has videos
+    if (scanned.lessons.length === 0) {
+      throw new Error(NO_VIDEOS_MESSAGE);
+    }
+
+    const stored = await getCourse(scanned.id);
+    const course = stored ? mergeRescannedCourse(stored, scanned, excludedPaths).course : scanned;
+
+    // Restore progress from renamed or moved copies of the same videos
+    await reattachProgress(course, await getAllCourses());
+
+    // Save to IndexedDB
+    await saveFolderHandle(course.id, dirHandle, {
+      title: course.title,
+      totalLessons: course.totalLessons,
+      totalVideos: course.totalVideos,
+    });
+
+    await saveCourse(course);
+
+    // Show the course right away; durations and thumbnails arrive in the background
+    startMetadataFill(course, source.probe);
+
+    return course;
+  }, [scanFolder]);
+
+  // Import a folder from picked or dropped files (browsers without showDirectoryPicker)
+  // The files only last for this session. A course stored on an earlier visit is updated like a
+  // rescan, so it keeps its settings, and its progress applies again (video IDs are name-based).
+  // reselectCourse is the course the user was asked to select the folder for.
+  const importSessionSource = useCallback(async (
+    source: CourseSource,
+    reselectCourse?: Course
+  ): Promise<Course> => {
+    const { course: scanned, excludedPaths } = await scanFolder(source);
+
+    if (reselectCourse && scanned.id !== reselectCourse.id) {
+      throw new Error(`That is a different folder. Please select "${reselectCourse.originalName}" to open this course.`);
+    }
+
+    if (scanned.lessons.length === 0) {
+      throw new Error(NO_VIDEOS_MESSAGE);
+    }
+
+    const stored = await getCourse(scanned.id);
+    const course = stored ? mergeRescannedCourse(stored, scanned, excludedPaths).course : scanned;
+
+    // Restore progress from renamed or moved copies of the same videos
+    await reattachProgress(course, await getAllCourses());
+
+    // Stored without its files; see sessionCourses
+    await saveCourse(course);
+    startMetadataFill(course, source.probe);
+
+    return course;
+  }, [scanFolder]);
+
   // Request folder access
   const selectFolder = useCallback(async (): Promise<Course | null> => {
     if (!isSupported) {
@@ -26,47 +153,92 @@ export const useFileSystem = (): UseFileSystemReturn => {
         mode: 'read',
       });
 
-      // Verify we have permission
-      const permission = await dirHandle.queryPermission({ mode: 'read' });
-      if (permission !== 'granted') {
-        const newPermission = await dirHandle.requestPermission({ mode: 'read' });
-        if (newPermission !== 'granted') {
-          throw new Error('Permission denied to access folder');
-        }
-      }
-
-      // Parse folder structure (3-level hierarchy)
-      const course = await parseFolderStructure(dirHandle);
-
-      // Validate that course has lessons with videos
-      if (course.lessons.length === 0) {
-        setError('No lesson subfolders with videos found. Please select a course folder that contains lesson subfolders with video files.');
-        setIsLoading(false);
-        return null;
+      const course = await importFolderHandle(dirHandle);
+      setIsLoading(false);
+      return course;
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') {
+        // User cancelled the picker or the scan
+        setError(null);
+      } else {
+        console.error('Error selecting folder:', err);
+        setError(err instanceof Error ? err.message : 'Failed to access folder');
       }
+      setIsLoading(false);
+      return null;
+    }
+  }, [isSupported, importFolderHandle]);
 
-      // Save to IndexedDB
-      await saveFolderHandle(course.id, dirHandle, {
-        title: course.title,
-        totalLessons: course.totalLessons,
-        totalVideos: course.totalVideos,
-      });
-
-      await saveCourse(course);
+  // Import a folder picked with <input webkitdirectory>
+  const importFolderFiles = useCallback(async (files: File[], reselectCourse?: Course): Promise<Course | null> => {
+    setIsLoading(true);
+    setError(null);
 
+    try {
+      const course = await importSessionSource(createFileListSource(files), reselectCourse);
       setIsLoading(false);
       return course;
     } catch (err) {
       if (err instanceof Error && err.name === 'AbortError') {
-        // User cancelled
+        // User cancelled the scan
         setError(null);
       } else {
-        console.error('Error selecting folder:', err);
-        setError(err instanceof Error ? err.message : 'Failed to access folder');
+        console.error('Error importing folder:', err);
+        setError(err instanceof Error ? err.message : 'Failed to import folder');
       }
       setIsLoading(false);
       return null;
     }
+  }, [importSessionSource]);
+
+  // Import a folder from the import queue (dropped on the library, or a course of a library)
+  // The queue reports failures per folder, so errors are rejected instead of being shown
+  // in the hook's error state.
+  const importQueuedFolder = useCallback(async (folder: QueuedFolder): Promise<Course> => {
+    switch (folder.kind) {
+      case 'handle':
+        return importFolderHandle(folder.handle);
+      case 'entry':
+        return importSessionSource(await createDroppedFolderSource(folder.entry));
+      case 'source':
+        return importSessionSource(folder.source);
+    }
+  }, [importFolderHandle, importSessionSource]);
+
+  // Pick a library folder, whose child folders are courses, and list them for the import queue
+  // Resolves null if nothing was picked or no course folders were found.
+  const pickLibrary = useCallback(async (): Promise<QueuedFolder[] | null> => {
+    setError(null);
+
+    try {
+      const { scanFilters } = await getPreferences();
+      let folders: QueuedFolder[];
+
+      if (isSupported) {
+        const libraryHandle = await window.showDirectoryPicker({ mode: 'read' });
+        folders = (await listCourseFolders(libraryHandle, scanFilters.excludePatterns))
+          .map(handle => ({ kind: 'handle', name: handle.name, handle }));
+      } else {
+        // Picked files: every course folder is read from the library's file list
+        const files = await pickFolderFiles();
+        if (!files) return null;
+        const library = createFileListSource(files);
+        folders = (await listCourseFolders(library.root, scanFilters.excludePatterns))
+          .map(root => ({ kind: 'source', name: root.name, source: { ...library, root } }));
+      }
+
+      if (folders.length === 0) {
+        setError('No course folders found. Please select a folder that contains one folder per course.');
+        return null;
+      }
+      return folders;
+    } catch (err) {
+      if (!(err instanceof Error && err.name === 'AbortError')) {
+        console.error('Error selecting library folder:', err);
+        setError(err instanceof Error ? err.message : 'Failed to access folder');
+      }
+      return null;
+    }
   }, [isSupported]);
 
   // Verify folder access (for saved folders)
@@ -86,9 +258,67 @@ export const useFileSystem = (): UseFileSystemReturn => {
     }
   }, []);
 
+  // Rescan a saved course folder, adding new videos and flagging missing ones
+  // Video IDs are kept, so existing progress is never lost
+  const rescanCourse = useCallback(async (course: Course): Promise<RescanResult | null> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const folderData = await getFolderHandle(course.id);
+      const dirHandle = folderData?.handle || course.dirHandle;
+
+      const hasAccess = await verifyFolderAccess(dirHandle);
+      if (!hasAccess) {
+        throw new Error('Permission denied to access folder');
+      }
+
+      const source = createFileSystemAccessSource(dirHandle);
+      const { course: scanned, excludedPaths } = await scanFolder(source);
+
+      // Merge into the latest stored copy; the metadata job or the folder watcher may have saved it during the scan
+      const stored = await getCourse(course.id);
+      if (!stored) {
+        throw new Error('The course was removed during the rescan');
+      }
+      const result = mergeRescannedCourse(stored, scanned, excludedPaths);
+
+      // Videos renamed or moved within the folder keep their progress
+      await reattachProgress(result.course, await getAllCourses());
+
+      await saveFolderHandle(course.id, dirHandle, {
+        title: result.course.title,
+        totalLessons: result.course.totalLessons,
+        totalVideos: result.course.totalVideos,
+      });
+
+      await saveCourse(result.course);
+      startMetadataFill(result.course, source.probe);
+
+      setIsLoading(false);
+      return result;
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') {
+        // User cancelled the scan - stored course is left unchanged
+        setError(null);
+      } else {
+        console.error('Error rescanning folder:', err);
+        setError(err instanceof Error ? err.message : 'Failed to rescan folder');
+      }
+      setIsLoading(false);
+      return null;
+    }
+  }, [verifyFolderAccess, scanFolder]);
+
   return {
     selectFolder,
+    importFolderFiles,
+    importQueuedFolder,
+    pickLibrary,
     verifyFolderAccess,
+    rescanCourse,
+    cancelScan,
+    scanProgress,
     isLoading,
     error,
     isSupported,
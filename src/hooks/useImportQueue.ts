@@ -0,0 +1,81 @@
+import { useState, useCallback, useRef } from 'react';
+import type { Course, QueuedFolder, SkippedFolder, ImportQueueItem, UseImportQueueReturn } from '../types';
+
+// Import queued folders (dropped ones, or the courses of a library) one at a time, tracking the status of each
+// importFolder rejects with the reason a folder failed; onImported runs after each imported course.
+export const useImportQueue = (
+  importFolder: (folder: QueuedFolder) => Promise<Course>,
+  onImported: (course: Course) => void
+): UseImportQueueReturn => {
+  const [items, setItems] = useState<ImportQueueItem[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const pendingRef = useRef<{ id: number; folder: QueuedFolder }[]>([]);
+  const isRunningRef = useRef(false);
+  const nextIdRef = useRef(1);
+
+  // Keep the latest callbacks; the queue keeps running across renders
+  const importFolderRef = useRef(importFolder);
+  importFolderRef.current = importFolder;
+  const onImportedRef = useRef(onImported);
+  onImportedRef.current = onImported;
+
+  const updateItem = (id: number, changes: Partial<ImportQueueItem>): void => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  const runQueue = useCallback(async (): Promise<void> => {
+    if (isRunningRef.current) return;
+    isRunningRef.current = true;
+    setIsImporting(true);
+
+    while (pendingRef.current.length > 0) {
+      const { id, folder } = pendingRef.current.shift()!;
+      updateItem(id, { status: 'importing' });
+
+      try {
+        const course = await importFolderRef.current(folder);
+        updateItem(id, { status: 'imported', message: `${course.totalLessons} lessons, ${course.totalVideos} videos` });
+        onImportedRef.current(course);
+      } catch (err) {
+        const isCancelled = err instanceof Error && err.name === 'AbortError';
+        if (!isCancelled) {
+          console.error('Error importing dropped folder:', err);
+        }
+        updateItem(id, {
+          status: 'failed',
+          message: isCancelled ? 'Cancelled' : err instanceof Error ? err.message : 'Failed to import folder',
+        });
+      }
+    }
+
+    isRunningRef.current = false;
+    setIsImporting(false);
+  }, []);
+
+  // Queue folders for import; skipped folders are listed with their reason without being imported
+  const enqueue = useCallback((folders: QueuedFolder[], skipped: SkippedFolder[] = []): void => {
+    const queued = folders.map(folder => ({ id: nextIdRef.current++, folder }));
+    const listedSkipped = skipped.map(folder => ({ id: nextIdRef.current++, ...folder }));
+
+    setItems(prev => [
+      ...prev,
+      ...queued.map(({ id, folder }): ImportQueueItem => ({ id, name: folder.name, status: 'queued' })),
+      ...listedSkipped.map(({ id, name, reason }): ImportQueueItem => ({ id, name, status: 'skipped', message: reason })),
+    ]);
+
+    pendingRef.current.push(...queued);
+    runQueue();
+  }, [runQueue]);
+
+  // Remove the folders that are done (imported, failed or skipped) from the list
+  const clearFinished = useCallback((): void => {
+    setItems(prev => prev.filter(item => item.status === 'queued' || item.status === 'importing'));
+  }, []);
+
+  return {
+    items,
+    enqueue,
+    clearFinished,
+    isImporting,
+  };
+};
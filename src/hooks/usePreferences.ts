@@ -2,13 +2,31 @@ import { useState, useEffect, useCallback } from 'react';
 import { getPreferences, savePreferences, getDefaultPreferences } from '../utils/storage';
 import type { UserPreferences, UsePreferencesReturn } from '../types';
 
+type PreferencesListener = (updates: Partial<UserPreferences>) => void;
+
+// Every mounted usePreferences, so a change made through one (e.g. in Settings) reaches the
+// others (e.g. App, which starts and stops the folder watcher)
+const listeners = new Set<PreferencesListener>();
+
+const notifyPreferencesChanged = (updates: Partial<UserPreferences>): void => {
+  listeners.forEach(listener => listener(updates));
+};
+
 export const usePreferences = (): UsePreferencesReturn => {
   const [preferences, setPreferences] = useState<UserPreferences | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
-  // Load preferences on mount
+  // Load preferences on mount, and follow changes saved through other instances
   useEffect(() => {
     loadPreferences();
+
+    const listener: PreferencesListener = updates => {
+      setPreferences(prev => prev ? { ...prev, ...updates } : null);
+    };
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
   }, []);
 
   const loadPreferences = async (): Promise<void> => {
@@ -31,7 +49,7 @@ export const usePreferences = (): UsePreferencesReturn => {
     try {
       const updated = { [key]: value } as Partial<UserPreferences>;
       await savePreferences(updated);
-      setPreferences(prev => prev ? { ...prev, ...updated } : null);
+      notifyPreferencesChanged(updated);
     } catch (err) {
       console.error('Error updating preference:', err);
     }
@@ -43,7 +61,7 @@ export const usePreferences = (): UsePreferencesReturn => {
   ): Promise<void> => {
     try {
       await savePreferences(updates);
-      setPreferences(prev => prev ? { ...prev, ...updates } : null);
+      notifyPreferencesChanged(updates);
     } catch (err) {
       console.error('Error updating preferences:', err);
     }
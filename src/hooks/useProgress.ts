@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { saveProgress, getProgress, getAllProgress, deleteProgress, markVideoComplete, clearLastWatched } from '../utils/storage';
+import { getAllVideos, getAllVideosInLessons, getCompletionPercentage } from '../utils/courseTree';
 import type { VideoProgress, Lesson, Course, UseProgressReturn } from '../types';
 
 export const useProgress = (videoId?: string): UseProgressReturn => {
@@ -83,44 +84,24 @@ export const useProgress = (videoId?: string): UseProgressReturn => {
     return progress.percentage > 95 || remainingTime < 5;
   }, [allProgress]);
 
-  // Calculate progress for a lesson (aggregate of videos)
+  // Calculate progress for a lesson or section (aggregate of videos, including nested sections)
   const getLessonProgress = useCallback((lesson: Lesson): number => {
-    if (!lesson.videos || lesson.videos.length === 0) return 0;
-
-    const completedVideos = lesson.videos.filter(video => {
-      return isCompleted(video.id);
-    }).length;
-
-    return Math.round((completedVideos / lesson.videos.length) * 100);
+    return getCompletionPercentage(getAllVideos(lesson), isCompleted);
   }, [isCompleted]);
 
   // Calculate progress for a course (aggregate of all videos across lessons)
   const getCourseProgress = useCallback((course: Course): number => {
     if (!course.lessons || course.totalVideos === 0) return 0;
 
-    let completedVideos = 0;
-    let totalVideos = 0;
-
-    course.lessons.forEach(lesson => {
-      // Skip lessons without videos array (old data structure)
-      if (!lesson.videos) return;
-
-      lesson.videos.forEach(video => {
-        totalVideos++;
-        if (isCompleted(video.id)) {
-          completedVideos++;
-        }
-      });
-    });
-
-    if (totalVideos === 0) return 0;
-    return Math.round((completedVideos / totalVideos) * 100);
+    // Skip lessons without videos array (old data structure)
+    const videos = course.lessons.filter(lesson => lesson.videos).flatMap(lesson => getAllVideos(lesson));
+    return getCompletionPercentage(videos, isCompleted);
   }, [allProgress, isCompleted]);
 
   // Reset progress for a lesson (all videos)
   const resetLessonProgress = useCallback(async (lesson: Lesson): Promise<void> => {
     try {
-      for (const video of lesson.videos) {
+      for (const video of getAllVideos(lesson)) {
         await deleteProgress(video.id);
       }
       // Refresh all progress
@@ -133,7 +114,7 @@ export const useProgress = (videoId?: string): UseProgressReturn => {
   // Mark lesson as complete (all videos)
   const markLessonComplete = useCallback(async (lesson: Lesson): Promise<void> => {
     try {
-      for (const video of lesson.videos) {
+      for (const video of getAllVideos(lesson)) {
         await markVideoComplete(video.id, video.duration);
       }
       // Refresh all progress
@@ -146,10 +127,8 @@ export const useProgress = (videoId?: string): UseProgressReturn => {
   // Reset progress for a course (all lessons and videos)
   const resetCourseProgress = useCallback(async (course: Course): Promise<void> => {
     try {
-      for (const lesson of course.lessons) {
-        for (const video of lesson.videos) {
-          await deleteProgress(video.id);
-        }
+      for (const video of getAllVideosInLessons(course.lessons)) {
+        await deleteProgress(video.id);
       }
       // Refresh all progress
       await loadAllProgress();
@@ -161,10 +140,8 @@ export const useProgress = (videoId?: string): UseProgressReturn => {
   // Mark course as complete (all lessons and videos)
   const markCourseComplete = useCallback(async (course: Course): Promise<void> => {
     try {
-      for (const lesson of course.lessons) {
-        for (const video of lesson.videos) {
-          await markVideoComplete(video.id, video.duration);
-        }
+      for (const video of getAllVideosInLessons(course.lessons)) {
+        await markVideoComplete(video.id, video.duration);
       }
       // Refresh all progress
       await loadAllProgress();
@@ -176,7 +153,7 @@ export const useProgress = (videoId?: string): UseProgressReturn => {
   // Remove lesson from recents (clears lastWatched but preserves progress)
   const removeFromRecents = useCallback(async (lesson: Lesson): Promise<void> => {
     try {
-      for (const video of lesson.videos) {
+      for (const video of getAllVideos(lesson)) {
         await clearLastWatched(video.id);
       }
       // Refresh all progress
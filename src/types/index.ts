@@ -4,8 +4,9 @@
 export interface FileSystemDirectoryHandle {
   kind: 'directory';
   name: string;
-  getDirectoryHandle(name: string): Promise<FileSystemDirectoryHandle>;
-  getFileHandle(name: string): Promise<FileSystemFileHandle>;
+  getDirectoryHandle(name: string, options?: { create?: boolean }): Promise<FileSystemDirectoryHandle>;
+  getFileHandle(name: string, options?: { create?: boolean }): Promise<FileSystemFileHandle>;
+  removeEntry(name: string, options?: { recursive?: boolean }): Promise<void>;
   values(): AsyncIterableIterator<FileSystemHandle>;
   queryPermission(descriptor?: { mode: 'read' | 'readwrite' }): Promise<PermissionState>;
   requestPermission(descriptor?: { mode: 'read' | 'readwrite' }): Promise<PermissionState>;
@@ -19,31 +20,121 @@ export interface FileSystemFileHandle {
 
 export type FileSystemHandle = FileSystemDirectoryHandle | FileSystemFileHandle;
 
+// Where a course's files come from
+// The File System Access API provides the handles above; other sources (files picked with
+// <input webkitdirectory>, in-memory trees) provide read-only objects of the same shape.
+export type CourseSourceKind = 'fileSystemAccess' | 'fileList' | 'memory';
+
+export interface CourseSource {
+  kind: CourseSourceKind;
+  root: FileSystemDirectoryHandle;  // The course folder; listing and reading go through its handles
+  probe: MediaProber;               // Reads a media file's duration and playability
+}
+
+// Result of probing a media file
+export interface ProbeResult {
+  duration: number;          // 0 if unknown
+  playability?: Playability; // Undefined if the probe was inconclusive
+}
+
+// Reads the duration and playability of a media file
+export type MediaProber = (fileHandle: FileSystemFileHandle, mediaType?: MediaType) => Promise<ProbeResult>;
+
+// Kind of a non-video file in a lesson folder
+export type ResourceKind = 'pdf' | 'image' | 'slides' | 'archive' | 'document' | 'link';
+
+// A non-video file in a lesson folder (slides, PDFs, exercise files, web shortcuts)
+export interface Resource {
+  id: string;        // Path relative to the course folder
+  name: string;      // Display name (filename without extension)
+  filename: string;
+  kind: ResourceKind;
+  fileHandle: FileSystemFileHandle;
+  url?: string;      // Target of a .url/.webloc shortcut
+}
+
+// Kind of media file; audio files are course items like videos but play with an audio layout
+export type MediaType = 'video' | 'audio';
+
+// Result of the playability probe: 'audio-only' videos play their sound but not their picture
+export type Playability = 'playable' | 'audio-only' | 'unplayable';
+
 // Video type (individual video file)
 export interface Video {
-  id: string;
+  id: string;            // Name-based ID (course, lesson path and filename)
+  path?: string;         // Path relative to the course folder (missing on courses imported before exclusion rules)
+  fingerprint?: string;  // Content-based ID (size + hash of first/last chunks), survives renames and moves
   name: string;
   filename: string;
   fileHandle: FileSystemFileHandle;
+  mediaType?: MediaType;  // Missing on courses imported before audio support (all videos)
   size: number;
   duration: number;
-  sortOrder: number;
+  sortOrder: number;     // Position within its folder, in the course's sort mode
+  order?: number;        // Position from the course manifest (localplay.json)
+  lastModified?: number; // File date, for the "file date" sort mode
   numberPrefix: string;  // Original number prefix (e.g., "01", "02")
-  subtitleFile?: FileSystemFileHandle;  // Associated .srt file
+  subtitleFile?: FileSystemFileHandle;  // Legacy single subtitle file (courses imported before subtitle tracks)
+  subtitleTracks?: SubtitleTrack[];     // All subtitle files for this video, one per language/variant
+  missing?: boolean;  // File was not found by the last rescan (kept so its progress is preserved)
+  playability?: Playability;  // Set by the background probe; undefined until probed or if inconclusive
+  description?: string;  // From the course manifest (localplay.json)
+  resources?: Resource[];  // Files named after this video (slides, exercise files, links...)
+  chapters?: Chapter[];    // From a chapters sidecar file or the file's own chapter metadata
+  parts?: VideoPart[];     // Set when the video is joined from several files; the first part is the video's own file
 }
 
-// Lesson type (subfolder containing videos)
+// One file of a video split into parts ("03a"/"03b", "Part 1"/"Part 2"), played back to back
+export interface VideoPart {
+  filename: string;
+  path?: string;
+  fileHandle: FileSystemFileHandle;
+  size: number;
+  duration: number;  // 0 until the background metadata job fills it in
+  fingerprint?: string;
+  subtitleTracks?: SubtitleTrack[];  // Times are relative to the part
+  chapters?: Chapter[];              // Times are relative to the part
+}
+
+// Named position in a video; a chapter lasts until the next one starts
+export interface Chapter {
+  title: string;
+  startTime: number;  // in seconds
+}
+
+// Subtitle file for a video (e.g. "video.en.srt", "video.de.vtt"), or a subtitle stream inside it
+export interface SubtitleTrack {
+  id: string;            // Unique within the video (the subtitle filename, or "embedded-<track number>")
+  language: string;      // Language code inferred from the filename suffix or stream, or 'und' if unknown
+  label: string;         // Display label, e.g. "English", "Spanish (SDH)", "English (Embedded)"
+  fileHandle: FileSystemFileHandle;  // The video file itself for embedded streams
+  embedded?: EmbeddedSubtitleStream;
+}
+
+// Text subtitle stream inside an MKV/WebM or MP4/MOV file
+export interface EmbeddedSubtitleStream {
+  trackNumber: number;  // Matroska track number or MP4 track ID
+  codec: string;        // Matroska codec ID (S_TEXT/UTF8, S_TEXT/ASS...) or MP4 sample format (tx3g, wvtt)
+}
+
+// Lesson type (subfolder containing videos and/or nested sections)
 export interface Lesson {
   id: string;
   name: string;
   originalName: string;
-  videos: Video[];
-  totalVideos: number;
-  totalDuration: number;  // Total duration in seconds
-  sortOrder: number;
+  videos: Video[];        // Videos directly inside this folder
+  sections?: Lesson[];    // Nested subfolders (modules -> sections -> ...), any depth
+  totalVideos: number;    // Includes videos in nested sections
+  totalDuration: number;  // Total duration in seconds, includes nested sections
+  sortOrder: number;      // Position within its parent, in the course's sort mode
+  order?: number;         // Position from the course manifest (-1 for the implicit root lesson)
   dirHandle: FileSystemDirectoryHandle;
   numberPrefix: string;  // Original number prefix (e.g., "01", "02")
   thumbnail?: string;    // Data URL of thumbnail image
+  cover?: string;        // Data URL of the folder's cover art (cover.jpg, folder.jpg, poster.png)
+  customCover?: string;  // Data URL of a cover picked in the app (image file or video frame)
+  description?: string;  // From the course manifest (localplay.json)
+  resources?: Resource[];  // Files in this folder not matched to a single video
 }
 
 // Course type (root folder containing lessons)
@@ -57,6 +148,57 @@ export interface Course {
   totalDuration: number;  // Total duration in seconds
   dirHandle: FileSystemDirectoryHandle;
   lastAccessed?: number;
+  metadataPending?: boolean;  // Durations and thumbnails are still being filled in the background
+  description?: string;       // From the course manifest (localplay.json)
+  cover?: string;             // Data URL of the folder's cover art (cover.jpg, folder.jpg, poster.png)
+  customCover?: string;       // Data URL of a cover picked in the app (image file or video frame)
+  sortMode?: SortMode;        // Picked in the app; natural order when not set
+  sourceKind?: CourseSourceKind;  // Missing on courses imported before other sources (File System Access API)
+  newVideoIds?: string[];     // Videos the folder watcher found, until their lesson is opened
+}
+
+// How the lessons, sections and videos of a course are ordered
+// natural: by the numbers in the names ("S01E03", "Part 1.2", "Lecture 10"), then by name
+// alphabetical: by name, digits compared as text
+// date: by file modification date (a folder by its oldest video)
+export type SortMode = 'natural' | 'alphabetical' | 'date';
+
+// Overrides for one lesson, section or video in the course manifest
+export interface ManifestEntry {
+  title?: string;
+  description?: string;
+  order?: number;    // Replaces the number prefix for sorting
+  hidden?: boolean;  // Leave the file or folder out of the course
+}
+
+// Optional localplay.json manifest in a course folder
+// Entries are keyed by path relative to the course folder,
+// e.g. "01 Intro", "01 Intro/Part A" or "01 Intro/01 Welcome.mp4"
+export interface CourseManifest {
+  title?: string;
+  description?: string;
+  entries?: Record<string, ManifestEntry>;
+}
+
+// Where to look for a video's subtitle files
+export type SubtitleLocation =
+  | 'sameFolder'      // Next to the video
+  | 'subsFolder'      // In a "subs" or "subtitles" subfolder
+  | 'siblingFolder';  // In a "{lesson}_subtitles" folder next to the lesson folder
+
+// How strictly subtitle filenames must match the video filename
+export type SubtitleNameMatching = 'exact' | 'caseInsensitive' | 'fuzzy';
+
+// Subtitle lookup strategies used when scanning a course folder
+export interface SubtitleLookupOptions {
+  locations: SubtitleLocation[];  // Searched in this order
+  nameMatching: SubtitleNameMatching;
+}
+
+// Files and folders left out when scanning a course folder (on top of .localplayignore files)
+export interface ScanFilters {
+  excludePatterns: string[];  // gitignore-style patterns, relative to the course folder
+  minVideoSize: number;       // Skip video and audio files smaller than this, in bytes (0 = no limit)
 }
 
 // User preferences
@@ -70,20 +212,92 @@ export interface UserPreferences {
   defaultVolume: number;
   theme: 'dark' | 'light';
   subtitlesEnabled: boolean;
+  preferredSubtitleLanguages: string[];  // Most preferred first, updated when a track is picked
+  subtitleLookup: SubtitleLookupOptions;  // Applied when a course folder is scanned
+  scanFilters: ScanFilters;               // Applied when a course folder is scanned
+  joinVideoParts: boolean;                // Join "03a"/"03b" and "Part 1"/"Part 2" files when scanning
+  autoRemux: boolean;             // Convert MKV/AVI files the browser can't play to MP4 automatically
+  cacheRemuxedVideos: boolean;    // Keep converted files in the browser's private storage
+  watchFolders: boolean;          // Check course folders for new files in the background
   lastUpdated: number;
 }
 
-// Subtitle cue for SRT parsing
+// Styled run of subtitle text (from <i>, <b>, <font color>, ASS override tags, etc.)
+export interface SubtitleSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  color?: string;  // CSS color, e.g. "#ffcc00"
+}
+
+// Subtitle cue shared by all subtitle formats (SRT, WebVTT, ASS/SSA, SubViewer)
 export interface SubtitleCue {
   id: number;
   startTime: number;  // in seconds
   endTime: number;    // in seconds
-  text: string;
+  text: string;       // Plain text with markup removed, lines separated by \n
+  spans?: SubtitleSpan[];  // Styled text, when the format carries styling
+  align?: 'left' | 'center' | 'right';      // Horizontal alignment (default center)
+  vertical?: 'top' | 'middle' | 'bottom';   // Vertical position (default bottom)
 }
 
 // Alias for backward compatibility
 export type Collection = Course;
 
+// Result of rescanning a course folder against the stored course
+export interface RescanResult {
+  course: Course;
+  addedVideos: number;    // Videos found on disk that were not in the stored course
+  addedVideoIds: string[];  // IDs of those videos
+  missingVideos: number;  // Stored videos no longer found on disk
+  excludedVideos: number; // Stored videos now left out by the ignore rules or filters (removed)
+}
+
+// Live progress while scanning a course folder
+export interface ScanProgress {
+  lessonIndex: number;    // 1-based index of the lesson the last scanned video belongs to
+  totalLessons: number;
+  videosScanned: number;
+  totalVideos: number;
+  currentFile: string;    // Filename of the last scanned video
+}
+
+// A folder waiting in the import queue (dropped on the library, or a course of an imported library)
+// handle: opened with the File System Access API, kept between visits
+// entry, source: dropped or picked files, which last for the session
+export type QueuedFolder =
+  | { kind: 'handle'; name: string; handle: FileSystemDirectoryHandle }
+  | { kind: 'entry'; name: string; entry: FileSystemDirectoryEntry }
+  | { kind: 'source'; name: string; source: CourseSource };
+
+// A folder left out of an import, listed with the reason
+export interface SkippedFolder {
+  name: string;
+  reason: string;
+}
+
+// Status of one dropped folder in the import queue
+export type ImportStatus = 'queued' | 'importing' | 'imported' | 'failed' | 'skipped';
+
+export interface ImportQueueItem {
+  id: number;
+  name: string;
+  status: ImportStatus;
+  message?: string;  // Why the folder failed or was skipped, or the imported course's summary
+}
+
+// Options for scanning a course folder
+export interface ScanOptions {
+  subtitleLookup?: SubtitleLookupOptions;
+  scanFilters?: ScanFilters;
+  joinVideoParts?: boolean;                      // Join split videos into one (default true)
+  onExclude?: (path: string) => void;            // Called for each file or folder left out by the filters
+  signal?: AbortSignal;                          // Abort to cancel the scan
+  onProgress?: (progress: ScanProgress) => void;
+  concurrency?: number;                          // Max files probed at once
+}
+
 // Progress tracking types
 export interface VideoProgress {
   id: string;
@@ -108,6 +322,7 @@ export interface FolderHandleData {
 // Component prop types
 export interface VideoSidebarProps {
   videos: Video[];
+  sections?: Lesson[];
   currentVideo: Video | null;
   onSelectVideo: (video: Video) => void;
   progress: Record<string, VideoProgress>;
@@ -119,6 +334,10 @@ export interface VideoSidebarProps {
   replaceUnderscore: boolean;
   onMarkVideoComplete?: (video: Video) => void;
   onResetVideoProgress?: (video: Video) => void;
+  resources?: Resource[];  // Lesson-level resources
+  onOpenResource?: (resource: Resource) => void;
+  activeChapterIndex?: number;  // Chapter of the current video being played, -1 if none
+  onSelectChapter?: (chapter: Chapter) => void;
 }
 
 export interface LessonCardProps {
@@ -137,7 +356,13 @@ export interface CourseCardProps {
 // Hook return types
 export interface UseFileSystemReturn {
   selectFolder: () => Promise<Course | null>;
+  importFolderFiles: (files: File[], reselectCourse?: Course) => Promise<Course | null>;  // Without showDirectoryPicker
+  importQueuedFolder: (folder: QueuedFolder) => Promise<Course>;  // Rejects with the reason it failed
+  pickLibrary: () => Promise<QueuedFolder[] | null>;  // Course folders of a picked library folder
+  rescanCourse: (course: Course) => Promise<RescanResult | null>;
   verifyFolderAccess: (dirHandle: FileSystemDirectoryHandle) => Promise<boolean>;
+  cancelScan: () => void;
+  scanProgress: ScanProgress | null;  // Set while a folder is being scanned
   isLoading: boolean;
   error: string | null;
   isSupported: boolean;
@@ -165,6 +390,13 @@ export interface UseControlsReturn {
   handleActivity: () => void;
 }
 
+export interface UseImportQueueReturn {
+  items: ImportQueueItem[];
+  enqueue: (folders: QueuedFolder[], skipped?: SkippedFolder[]) => void;
+  clearFinished: () => void;
+  isImporting: boolean;
+}
+
 export interface UsePreferencesReturn {
   preferences: UserPreferences | null;
   isLoading: boolean;
@@ -175,11 +407,22 @@ export interface UsePreferencesReturn {
 // Utility types
 export type PermissionState = 'granted' | 'denied' | 'prompt';
 
+// Reports changes inside observed folders (the change records are not used)
+export interface FileSystemObserver {
+  observe(handle: FileSystemHandle, options?: { recursive?: boolean }): Promise<void>;
+  disconnect(): void;
+}
+
 // Window extensions for File System Access API
 declare global {
   interface Window {
     showDirectoryPicker(options?: {
       mode?: 'read' | 'readwrite';
     }): Promise<FileSystemDirectoryHandle>;
+    FileSystemObserver?: new (callback: () => void) => FileSystemObserver;  // Chromium only, recent versions
+  }
+
+  interface DataTransferItem {
+    getAsFileSystemHandle?(): Promise<FileSystemHandle | null>;  // Chromium only
   }
 }
@@ -0,0 +1,182 @@
+// Embedded artwork of audio files (podcasts, audiobooks)
+// Reads the front cover picture from ID3v2 tags (MP3, AAC), FLAC PICTURE blocks and
+// MP4 'covr' atoms (M4A). Only the tag data is read, never the whole file.
+
+// Larger tags/atoms are ignored rather than loaded into memory
+const MAX_TAG_SIZE = 16 * 1024 * 1024;
+
+const readBytes = async (file: Blob, start: number, length: number): Promise<Uint8Array> => {
+  return new Uint8Array(await file.slice(start, start + length).arrayBuffer());
+};
+
+const readAscii = (bytes: Uint8Array, start: number, length: number): string => {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+};
+
+const readUint32 = (bytes: Uint8Array, offset: number): number => {
+  return new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset);
+};
+
+// ID3v2 sizes store 7 bits per byte
+const readSyncsafe = (bytes: Uint8Array, offset: number): number => {
+  return (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+};
+
+// Find the end of a null-terminated string (two zero bytes for UTF-16 encodings)
+const skipTerminatedString = (bytes: Uint8Array, offset: number, wide: boolean): number => {
+  if (!wide) {
+    const end = bytes.indexOf(0, offset);
+    return end === -1 ? bytes.length : end + 1;
+  }
+  for (let i = offset; i + 1 < bytes.length; i += 2) {
+    if (bytes[i] === 0 && bytes[i + 1] === 0) return i + 2;
+  }
+  return bytes.length;
+};
+
+const guessImageType = (data: Uint8Array): string => {
+  return data[0] === 0x89 && data[1] === 0x50 ? 'image/png' : 'image/jpeg';
+};
+
+// Picture from an ID3v2.2-2.4 tag (APIC/PIC frame)
+const readId3Artwork = async (file: Blob): Promise<Blob | null> => {
+  const header = await readBytes(file, 0, 10);
+  if (readAscii(header, 0, 3) !== 'ID3') return null;
+
+  const version = header[3];
+  const tagSize = readSyncsafe(header, 6);
+  if (tagSize > MAX_TAG_SIZE) return null;
+
+  const tag = await readBytes(file, 10, tagSize);
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+  let offset = 0;
+
+  while (offset + headerLength <= tag.length) {
+    const id = readAscii(tag, offset, idLength);
+    if (!/^[A-Z0-9]+$/.test(id)) break; // Reached padding
+
+    const size = version === 2
+      ? (tag[offset + 3] << 16) | (tag[offset + 4] << 8) | tag[offset + 5]
+      : version === 4 ? readSyncsafe(tag, offset + 4) : readUint32(tag, offset + 4);
+    const body = tag.subarray(offset + headerLength, offset + headerLength + size);
+    offset += headerLength + size;
+
+    if (id !== 'APIC' && id !== 'PIC') continue;
+
+    // Text encoding, MIME type (3-char format in v2.2), picture type, description, data
+    const wide = body[0] === 1 || body[0] === 2;
+    let pos = 1;
+    let mimeType: string;
+    if (version === 2) {
+      mimeType = readAscii(body, pos, 3).toUpperCase() === 'PNG' ? 'image/png' : 'image/jpeg';
+      pos += 3;
+    } else {
+      const end = skipTerminatedString(body, pos, false);
+      mimeType = readAscii(body, pos, end - pos - 1) || 'image/jpeg';
+      pos = end;
+    }
+    pos = skipTerminatedString(body, pos + 1, wide);
+
+    const data = body.subarray(pos);
+    if (data.length > 0) {
+      return new Blob([data.slice()], { type: mimeType.includes('/') ? mimeType : guessImageType(data) });
+    }
+  }
+
+  return null;
+};
+
+// Picture from a FLAC metadata PICTURE block
+const readFlacArtwork = async (file: Blob): Promise<Blob | null> => {
+  if (readAscii(await readBytes(file, 0, 4), 0, 4) !== 'fLaC') return null;
+
+  let offset = 4;
+  for (;;) {
+    const blockHeader = await readBytes(file, offset, 4);
+    if (blockHeader.length < 4) return null;
+
+    const isLast = (blockHeader[0] & 0x80) !== 0;
+    const type = blockHeader[0] & 0x7f;
+    const length = (blockHeader[1] << 16) | (blockHeader[2] << 8) | blockHeader[3];
+
+    if (type === 6 && length <= MAX_TAG_SIZE) {
+      // Picture type, MIME type, description, width/height/depth/colors, data
+      const block = await readBytes(file, offset + 4, length);
+      const mimeLength = readUint32(block, 4);
+      const mimeType = readAscii(block, 8, mimeLength);
+      let pos = 8 + mimeLength;
+      pos += 4 + readUint32(block, pos);
+      pos += 16;
+      const dataLength = readUint32(block, pos);
+      return new Blob([block.slice(pos + 4, pos + 4 + dataLength)], { type: mimeType || 'image/jpeg' });
+    }
+
+    if (isLast) return null;
+    offset += 4 + length;
+  }
+};
+
+// Find a child atom inside an in-memory atom body
+const findAtom = (bytes: Uint8Array, type: string, start = 0): Uint8Array | null => {
+  let offset = start;
+  while (offset + 8 <= bytes.length) {
+    const size = readUint32(bytes, offset);
+    if (size < 8) return null;
+    if (readAscii(bytes, offset + 4, 4) === type) {
+      return bytes.subarray(offset + 8, offset + size);
+    }
+    offset += size;
+  }
+  return null;
+};
+
+// Picture from an MP4/M4A 'covr' atom (moov > udta > meta > ilst > covr > data)
+const readMp4Artwork = async (file: Blob): Promise<Blob | null> => {
+  // Walk the top-level atoms to find moov (it may sit after the media data)
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, 16);
+    let size = readUint32(header, 0);
+    const type = readAscii(header, 4, 4);
+    let headerLength = 8;
+    if (size === 1) {
+      size = readUint32(header, 8) * 2 ** 32 + readUint32(header, 12);
+      headerLength = 16;
+    } else if (size === 0) {
+      size = file.size - offset;
+    }
+    if (size < headerLength) return null;
+
+    if (type === 'moov') {
+      if (size > MAX_TAG_SIZE) return null;
+      const moov = await readBytes(file, offset + headerLength, size - headerLength);
+      const meta = findAtom(findAtom(moov, 'udta') || new Uint8Array(), 'meta');
+      // meta is a full box: 4 bytes of version and flags before its children
+      const covr = meta && findAtom(findAtom(meta, 'ilst', 4) || new Uint8Array(), 'covr');
+      const data = covr && findAtom(covr, 'data');
+      if (!data || data.length <= 8) return null;
+
+      // Data atom: 4-byte type indicator (13 = JPEG, 14 = PNG) and 4-byte locale
+      const image = data.subarray(8);
+      return new Blob([image.slice()], { type: data[3] === 14 ? 'image/png' : guessImageType(image) });
+    }
+
+    offset += size;
+  }
+  return null;
+};
+
+// Read the artwork embedded in an audio file; null if there is none or the tags can't be read
+export const readEmbeddedArtwork = async (file: File): Promise<Blob | null> => {
+  const ext = file.name.toLowerCase().slice(file.name.lastIndexOf('.'));
+
+  try {
+    if (ext === '.flac') return await readFlacArtwork(file);
+    if (ext === '.m4a') return await readMp4Artwork(file);
+    return await readId3Artwork(file);
+  } catch (err) {
+    console.warn('Could not read embedded artwork:', file.name, err);
+    return null;
+  }
+};
@@ -0,0 +1,274 @@
+import { parseVTT } from './subtitles';
+import {
+  MATROSKA_EXTENSIONS,
+  MP4_EXTENSIONS,
+  createByteReader,
+  getExtension,
+  readUint,
+  decodeText,
+  readEbmlElement,
+  readElementData,
+  readChildElements,
+  findMatroskaSegment,
+  findMp4Moov,
+  findMp4Box,
+  readBoxData,
+  readMp4Tracks,
+  readMp4Samples,
+  decodeMp4TextSample,
+} from './mediaContainer';
+import type { ByteReader, EbmlElement, Mp4Box } from './mediaContainer';
+import type { Chapter } from '../types';
+
+// A text file needs at least this many timestamp lines to count as a chapter list
+const MIN_CHAPTERS = 2;
+
+// "Previous chapter" restarts the current chapter when more than this far into it
+const RESTART_CHAPTER_THRESHOLD = 3;
+
+// Sort chapters by start time and drop duplicates and empty titles
+const normalizeChapters = (chapters: Chapter[]): Chapter[] => {
+  return chapters
+    .filter(chapter => chapter.title.trim() && Number.isFinite(chapter.startTime) && chapter.startTime >= 0)
+    .map(chapter => ({ title: chapter.title.trim(), startTime: chapter.startTime }))
+    .sort((a, b) => a.startTime - b.startTime)
+    .filter((chapter, index, sorted) => index === 0 || chapter.startTime !== sorted[index - 1].startTime);
+};
+
+// Sidecar files
+
+// Check if a file is named as a chapter sidecar ("chapters.txt", "Intro.chapters.vtt")
+export const isChapterFile = (filename: string): boolean => {
+  return /(^|\.)chapters\.(txt|vtt)$/i.test(filename);
+};
+
+// Sidecar filenames for a video, most specific first
+// A plain "<video>.txt" only counts if it contains a timestamp list, and the folder-wide
+// "chapters.txt"/"chapters.vtt" only applies to a folder with a single video.
+export const getChapterSidecarNames = (videoFilename: string, isOnlyVideo: boolean): string[] => {
+  const base = videoFilename.replace(/\.[^/.]+$/, '');
+  const names = [`${base}.chapters.vtt`, `${base}.chapters.txt`, `${base}.txt`];
+  return isOnlyVideo ? [...names, 'chapters.vtt', 'chapters.txt'] : names;
+};
+
+// "1:02:03", "12:34" or "0:05.5" to seconds
+const parseTimestamp = (timestamp: string): number => {
+  return timestamp.split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+};
+
+const TIMESTAMP = String.raw`(\d{1,2}(?::\d{1,2})?:\d{2}(?:\.\d+)?)`;
+
+// Timestamp first ("00:00 Intro", "[1:23] - Setup"), or last ("Intro - 0:00")
+const LEADING_TIMESTAMP = new RegExp(String.raw`^(?:[-*•]\s*)?[[(]?${TIMESTAMP}[\])]?\s*(?:[-–—:|.]\s*)?(.+)$`);
+const TRAILING_TIMESTAMP = new RegExp(String.raw`^(?:[-*•]\s*)?(.+?)\s*(?:[-–—:|]\s*)?[[(]?${TIMESTAMP}[\])]?$`);
+
+// Parse a YouTube-style chapter list: one "timestamp title" line per chapter
+// Lines without a timestamp (headings, notes) are skipped.
+export const parseChapterList = (content: string): Chapter[] => {
+  const chapters: Chapter[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const leading = line.match(LEADING_TIMESTAMP);
+    if (leading) {
+      chapters.push({ title: leading[2], startTime: parseTimestamp(leading[1]) });
+      continue;
+    }
+    const trailing = line.match(TRAILING_TIMESTAMP);
+    if (trailing) {
+      chapters.push({ title: trailing[1], startTime: parseTimestamp(trailing[2]) });
+    }
+  }
+
+  const normalized = normalizeChapters(chapters);
+  return normalized.length >= MIN_CHAPTERS ? normalized : [];
+};
+
+// Parse a chapter sidecar file: WebVTT chapters (cue text is the title) or a timestamp list
+export const parseChapterFile = (content: string, filename: string): Chapter[] => {
+  if (getExtension(filename) === '.vtt') {
+    return normalizeChapters(parseVTT(content).map(cue => ({
+      title: cue.text.replace(/\n/g, ' '),
+      startTime: cue.startTime,
+    })));
+  }
+  return parseChapterList(content);
+};
+
+// Matroska
+// Chapters > EditionEntry > ChapterAtom; start times are in nanoseconds regardless of the
+// segment's timestamp scale. The Chapters element may come after the clusters, in which
+// case the SeekHead points to it.
+
+const EBML = {
+  seekHead: 0x114d9b74,
+  seek: 0x4dbb,
+  seekId: 0x53ab,
+  seekPosition: 0x53ac,
+  chapters: 0x1043a770,
+  editionEntry: 0x45b9,
+  chapterAtom: 0xb6,
+  chapterTimeStart: 0x91,
+  chapterFlagHidden: 0x98,
+  chapterDisplay: 0x80,
+  chapString: 0x85,
+  cluster: 0x1f43b675,
+};
+
+const readMatroskaChapterList = async (reader: ByteReader, chaptersElement: EbmlElement): Promise<Chapter[]> => {
+  const chapters: Chapter[] = [];
+  let edition: EbmlElement | null = null;
+
+  // Only the first edition (ordered and alternate editions are not supported)
+  await readChildElements(reader, chaptersElement.dataStart, chaptersElement.dataEnd, async element => {
+    if (element.id === EBML.editionEntry && !edition) edition = element;
+  });
+  if (!edition) return [];
+  const { dataStart, dataEnd } = edition as EbmlElement;
+
+  await readChildElements(reader, dataStart, dataEnd, async atom => {
+    if (atom.id !== EBML.chapterAtom) return;
+
+    let startTime = 0;
+    let title = '';
+    let isHidden = false;
+    await readChildElements(reader, atom.dataStart, atom.dataEnd, async element => {
+      if (element.id === EBML.chapterTimeStart) {
+        startTime = readUint(await readElementData(reader, element)) / 1e9;
+      } else if (element.id === EBML.chapterFlagHidden) {
+        isHidden = readUint(await readElementData(reader, element)) === 1;
+      } else if (element.id === EBML.chapterDisplay && !title) {
+        // First display string (chapter names may be given in several languages)
+        await readChildElements(reader, element.dataStart, element.dataEnd, async display => {
+          if (display.id === EBML.chapString && !title) title = decodeText(await readElementData(reader, display));
+        });
+      }
+    });
+
+    if (!isHidden) chapters.push({ title, startTime });
+  });
+
+  return chapters;
+};
+
+const readMatroskaChapters = async (reader: ByteReader): Promise<Chapter[]> => {
+  const segment = await findMatroskaSegment(reader);
+  if (!segment) return [];
+
+  let chaptersPosition: number | null = null;
+  let offset = segment.dataStart;
+
+  while (offset < segment.dataEnd) {
+    const element = await readEbmlElement(reader, offset, segment.dataEnd);
+    if (!element || element.id === EBML.cluster) break;
+
+    if (element.id === EBML.chapters) {
+      return readMatroskaChapterList(reader, element);
+    }
+    if (element.id === EBML.seekHead) {
+      await readChildElements(reader, element.dataStart, element.dataEnd, async seek => {
+        if (seek.id !== EBML.seek) return;
+        let id = 0;
+        let position = 0;
+        await readChildElements(reader, seek.dataStart, seek.dataEnd, async child => {
+          if (child.id === EBML.seekId) id = readUint(await readElementData(reader, child));
+          if (child.id === EBML.seekPosition) position = readUint(await readElementData(reader, child));
+        });
+        if (id === EBML.chapters) chaptersPosition = segment.dataStart + position;
+      });
+    }
+    offset = element.dataEnd;
+  }
+
+  if (chaptersPosition === null) return [];
+  const element = await readEbmlElement(reader, chaptersPosition, segment.dataEnd);
+  return element?.id === EBML.chapters ? readMatroskaChapterList(reader, element) : [];
+};
+
+// MP4
+// QuickTime chapters are a text track referenced by a 'chap' track reference; Nero chapters
+// (written by many tools for M4B/MP4) are a 'chpl' box in the movie's user data.
+
+// Nero chapter list: version, flags, (reserved in version 1), count, then per chapter a
+// 64-bit start time in 100ns units and a length-prefixed title
+const readNeroChapters = async (reader: ByteReader, moov: Mp4Box): Promise<Chapter[]> => {
+  const chpl = await findMp4Box(reader, moov, ['udta', 'chpl']);
+  if (!chpl) return [];
+
+  const data = await readBoxData(reader, chpl);
+  let offset = data[0] === 1 ? 8 : 4;
+  const count = data[offset++];
+  const chapters: Chapter[] = [];
+
+  for (let i = 0; i < count && offset + 9 <= data.length; i++) {
+    const startTime = readUint(data, offset, 8) / 1e7;
+    const length = data[offset + 8];
+    chapters.push({ title: decodeText(data.subarray(offset + 9, offset + 9 + length)), startTime });
+    offset += 9 + length;
+  }
+  return chapters;
+};
+
+const readMp4Chapters = async (reader: ByteReader): Promise<Chapter[]> => {
+  const moov = await findMp4Moov(reader);
+  if (!moov) return [];
+
+  const tracks = await readMp4Tracks(reader, moov);
+  const chapterTrackIds = new Set(tracks.flatMap(track => track.chapterTrackIds));
+  const chapterTrack = tracks.find(track => chapterTrackIds.has(track.trackId));
+
+  if (chapterTrack) {
+    const samples = await readMp4Samples(reader, chapterTrack);
+    return samples.map(sample => ({
+      title: decodeMp4TextSample(sample.data),
+      startTime: sample.time / chapterTrack.timescale,
+    }));
+  }
+  return readNeroChapters(reader, moov);
+};
+
+// Check if a file's container can carry chapter metadata we can read
+export const canHaveEmbeddedChapters = (filename: string): boolean => {
+  const ext = getExtension(filename);
+  return MATROSKA_EXTENSIONS.includes(ext) || MP4_EXTENSIONS.includes(ext) || ext === '.m4a';
+};
+
+// Read the chapters stored in a video file (only headers and the chapter data are read)
+export const readEmbeddedChapters = async (file: File): Promise<Chapter[]> => {
+  try {
+    const reader = createByteReader(file);
+    const chapters = MATROSKA_EXTENSIONS.includes(getExtension(file.name))
+      ? await readMatroskaChapters(reader)
+      : await readMp4Chapters(reader);
+    const normalized = normalizeChapters(chapters);
+    // A single chapter spanning the whole file is no navigation
+    return normalized.length >= MIN_CHAPTERS ? normalized : [];
+  } catch (err) {
+    console.warn('Could not read embedded chapters:', file.name, err);
+    return [];
+  }
+};
+
+// Playback
+
+// Index of the chapter playing at a time, or -1 before the first chapter
+export const getChapterIndex = (chapters: Chapter[], time: number): number => {
+  for (let i = chapters.length - 1; i >= 0; i--) {
+    if (time >= chapters[i].startTime) return i;
+  }
+  return -1;
+};
+
+// Start time of the next or previous chapter, or null if there is none in that direction
+// Going back restarts the current chapter unless playback is near its start.
+export const getAdjacentChapterTime = (chapters: Chapter[], time: number, direction: 1 | -1): number | null => {
+  const index = getChapterIndex(chapters, time);
+
+  if (direction === 1) {
+    return chapters[index + 1]?.startTime ?? null;
+  }
+  if (index >= 0 && time - chapters[index].startTime > RESTART_CHAPTER_THRESHOLD) {
+    return chapters[index].startTime;
+  }
+  return index > 0 ? chapters[index - 1].startTime : null;
+};
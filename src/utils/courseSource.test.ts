@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { createFileListSource, createMemorySource } from './courseSource';
+import type { FileSystemDirectoryHandle } from '../types';
+
+const listNames = async (dirHandle: FileSystemDirectoryHandle): Promise<string[]> => {
+  const names: string[] = [];
+  for await (const entry of dirHandle.values()) {
+    names.push(`${entry.name}${entry.kind === 'directory' ? '/' : ''}`);
+  }
+  return names;
+};
+
+// Files picked with webkitdirectory carry their path relative to the parent of the picked folder
+const createPickedFile = (path: string, content = ''): File => {
+  const file = new File([content], path.split('/').pop()!);
+  Object.defineProperty(file, 'webkitRelativePath', { value: path });
+  return file;
+};
+
+describe('createMemorySource', () => {
+  it('exposes the files as a read-only folder tree', async () => {
+    const source = createMemorySource('Course', {
+      'Lesson/01 Intro.mp4': 'video',
+      'notes.txt': 'hello',
+    });
+
+    expect(source.kind).toBe('memory');
+    expect(source.root.name).toBe('Course');
+    expect(await listNames(source.root)).toEqual(['Lesson/', 'notes.txt']);
+
+    const notes = await source.root.getFileHandle('notes.txt');
+    expect(await (await notes.getFile()).text()).toBe('hello');
+    expect(await source.root.getFileHandle('notes.txt')).toBe(notes);
+
+    const lesson = await source.root.getDirectoryHandle('Lesson');
+    expect(await listNames(lesson)).toEqual(['01 Intro.mp4']);
+  });
+
+  it('fails like the File System Access API', async () => {
+    const source = createMemorySource('Course', { 'notes.txt': '' });
+
+    await expect(source.root.getFileHandle('missing.txt')).rejects.toMatchObject({ name: 'NotFoundError' });
+    await expect(source.root.getDirectoryHandle('notes.txt')).rejects.toMatchObject({ name: 'NotFoundError' });
+    await expect(source.root.getFileHandle('new.txt', { create: true })).rejects.toMatchObject({ name: 'NotAllowedError' });
+    await expect(source.root.removeEntry('notes.txt')).rejects.toMatchObject({ name: 'NotAllowedError' });
+  });
+
+  it('probes media with the given duration and playability', async () => {
+    const source = createMemorySource('Course', {
+      '01 Intro.mp4': { duration: 90 },
+      '02 Old.avi': { playability: 'unplayable' },
+    });
+
+    expect(await source.probe(await source.root.getFileHandle('01 Intro.mp4'))).toEqual({ duration: 90, playability: 'playable' });
+    expect(await source.probe(await source.root.getFileHandle('02 Old.avi'))).toEqual({ duration: 0, playability: 'unplayable' });
+  });
+});
+
+describe('createFileListSource', () => {
+  it('rebuilds the picked folder from the relative paths', async () => {
+    const source = createFileListSource([
+      createPickedFile('Course/01 Lesson/01 Intro.mp4'),
+      createPickedFile('Course/02 Lesson/01 Next.mp4'),
+      createPickedFile('Course/notes.txt', 'hello'),
+    ]);
+
+    expect(source.kind).toBe('fileList');
+    expect(source.root.name).toBe('Course');
+    expect(await listNames(source.root)).toEqual(['01 Lesson/', '02 Lesson/', 'notes.txt']);
+    expect(await listNames(await source.root.getDirectoryHandle('02 Lesson'))).toEqual(['01 Next.mp4']);
+  });
+
+  it('puts files without a relative path at the root', async () => {
+    const source = createFileListSource([new File([''], 'clip.mp4')]);
+
+    expect(source.root.name).toBe('Files');
+    expect(await listNames(source.root)).toEqual(['clip.mp4']);
+  });
+});
@@ -0,0 +1,214 @@
+import { probeMedia } from './playability';
+import type {
+  CourseSource,
+  Playability,
+  ProbeResult,
+  FileSystemDirectoryHandle,
+  FileSystemFileHandle,
+} from '../types';
+
+// Course sources
+// The parser lists and reads a course through the directory and file handles of a source's root,
+// and the metadata job probes media through the source. The File System Access API provides real
+// handles; the other sources expose their files through read-only objects of the same shape.
+
+// A folder picked with showDirectoryPicker (or a stored handle of one)
+export const createFileSystemAccessSource = (dirHandle: FileSystemDirectoryHandle): CourseSource => ({
+  kind: 'fileSystemAccess',
+  root: dirHandle,
+  probe: probeMedia,
+});
+
+// Folder tree built from a flat list of files
+interface VirtualFolder {
+  name: string;
+  folders: Map<string, VirtualFolder>;
+  files: Map<string, File>;
+}
+
+const createVirtualFolder = (name: string): VirtualFolder => ({ name, folders: new Map(), files: new Map() });
+
+// Add a file under its path relative to the root folder ("Lesson 1/01 Intro.mp4")
+const addVirtualFile = (root: VirtualFolder, path: string, file: File): void => {
+  const segments = path.split('/').filter(Boolean);
+  const filename = segments.pop();
+  if (!filename) return;
+
+  let folder = root;
+  for (const segment of segments) {
+    let child = folder.folders.get(segment);
+    if (!child) {
+      child = createVirtualFolder(segment);
+      folder.folders.set(segment, child);
+    }
+    folder = child;
+  }
+  folder.files.set(filename, file);
+};
+
+// Same errors as the File System Access API, so callers handle both alike
+const createNotFoundError = (name: string): DOMException => {
+  return new DOMException(`"${name}" was not found`, 'NotFoundError');
+};
+
+const createReadOnlyError = (): DOMException => {
+  return new DOMException('This folder is read-only', 'NotAllowedError');
+};
+
+const createVirtualFileHandle = (file: File): FileSystemFileHandle => ({
+  kind: 'file',
+  name: file.name,
+  getFile: async () => file,
+});
+
+// Handles are created once per entry, so repeated lookups return the same object
+const createVirtualDirectoryHandle = (folder: VirtualFolder): FileSystemDirectoryHandle => {
+  const fileHandles = new Map<string, FileSystemFileHandle>();
+  const directoryHandles = new Map<string, FileSystemDirectoryHandle>();
+
+  const getFileHandle = (name: string): FileSystemFileHandle | undefined => {
+    const file = folder.files.get(name);
+    if (!file) return undefined;
+    if (!fileHandles.has(name)) fileHandles.set(name, createVirtualFileHandle(file));
+    return fileHandles.get(name);
+  };
+
+  const getDirectoryHandle = (name: string): FileSystemDirectoryHandle | undefined => {
+    const child = folder.folders.get(name);
+    if (!child) return undefined;
+    if (!directoryHandles.has(name)) directoryHandles.set(name, createVirtualDirectoryHandle(child));
+    return directoryHandles.get(name);
+  };
+
+  return {
+    kind: 'directory',
+    name: folder.name,
+    getDirectoryHandle: async (name, options) => {
+      if (options?.create) throw createReadOnlyError();
+      const handle = getDirectoryHandle(name);
+      if (!handle) throw createNotFoundError(name);
+      return handle;
+    },
+    getFileHandle: async (name, options) => {
+      if (options?.create) throw createReadOnlyError();
+      const handle = getFileHandle(name);
+      if (!handle) throw createNotFoundError(name);
+      return handle;
+    },
+    removeEntry: async () => {
+      throw createReadOnlyError();
+    },
+    values: async function* () {
+      for (const name of folder.folders.keys()) {
+        yield getDirectoryHandle(name)!;
+      }
+      for (const name of folder.files.keys()) {
+        yield getFileHandle(name)!;
+      }
+    },
+    // The files were handed over by the user (or built in memory), so access is always granted
+    queryPermission: async () => 'granted',
+    requestPermission: async () => 'granted',
+  };
+};
+
+// Files picked with <input type="file" webkitdirectory>
+// Each file's webkitRelativePath starts with the picked folder's name ("Course/Lesson 1/01 Intro.mp4").
+export const createFileListSource = (files: FileList | File[]): CourseSource => {
+  const list = Array.from(files);
+  const firstPath = list.find(file => file.webkitRelativePath)?.webkitRelativePath ?? '';
+  const root = createVirtualFolder(firstPath.split('/')[0] || 'Files');
+
+  list.forEach(file => {
+    const path = file.webkitRelativePath || file.name;
+    // Drop the root folder's own name
+    addVirtualFile(root, path.includes('/') ? path.slice(path.indexOf('/') + 1) : path, file);
+  });
+
+  return {
+    kind: 'fileList',
+    root: createVirtualDirectoryHandle(root),
+    probe: probeMedia,
+  };
+};
+
+const readEntryBatch = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> => {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+};
+
+const readEntryFile = (entry: FileSystemFileEntry): Promise<File> => {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+};
+
+// Copy a dropped folder's entries into a virtual folder
+// readEntries returns the entries in batches, until an empty batch.
+const readDroppedFolder = async (entry: FileSystemDirectoryEntry, folder: VirtualFolder): Promise<void> => {
+  const reader = entry.createReader();
+  for (let batch = await readEntryBatch(reader); batch.length > 0; batch = await readEntryBatch(reader)) {
+    for (const child of batch) {
+      if (child.isDirectory) {
+        const childFolder = createVirtualFolder(child.name);
+        folder.folders.set(child.name, childFolder);
+        await readDroppedFolder(child as FileSystemDirectoryEntry, childFolder);
+      } else if (child.isFile) {
+        folder.files.set(child.name, await readEntryFile(child as FileSystemFileEntry));
+      }
+    }
+  }
+};
+
+// A folder dropped on the page, from DataTransferItem.webkitGetAsEntry()
+// Like a file list, the files are a snapshot for this session.
+export const createDroppedFolderSource = async (entry: FileSystemDirectoryEntry): Promise<CourseSource> => {
+  const root = createVirtualFolder(entry.name);
+  await readDroppedFolder(entry, root);
+
+  return {
+    kind: 'fileList',
+    root: createVirtualDirectoryHandle(root),
+    probe: probeMedia,
+  };
+};
+
+// Let the user pick a folder with <input webkitdirectory>, for browsers without showDirectoryPicker;
+// resolves null if nothing was picked
+export const pickFolderFiles = (): Promise<File[] | null> => {
+  return new Promise((resolve) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.webkitdirectory = true;
+    input.onchange = () => resolve(input.files && input.files.length > 0 ? Array.from(input.files) : null);
+    input.addEventListener('cancel', () => resolve(null));
+    input.click();
+  });
+};
+
+// A file of an in-memory course; media files report the given duration and playability when probed
+export interface MemoryFile {
+  content?: string | Uint8Array<ArrayBuffer>;  // Empty by default
+  lastModified?: number;
+  duration?: number;          // 0 by default
+  playability?: Playability;  // 'playable' by default
+}
+
+// An in-memory course folder, with files keyed by path relative to the course folder
+// ("Lesson 1/01 Intro.mp4"); used by tests, and runs without a browser
+export const createMemorySource = (name: string, files: Record<string, string | MemoryFile>): CourseSource => {
+  const root = createVirtualFolder(name);
+  const probes = new WeakMap<File, ProbeResult>();
+
+  Object.entries(files).forEach(([path, entry]) => {
+    const memoryFile = typeof entry === 'string' ? { content: entry } : entry;
+    const filename = path.split('/').pop() || path;
+    const file = new File([memoryFile.content ?? ''], filename, { lastModified: memoryFile.lastModified });
+
+    probes.set(file, { duration: memoryFile.duration ?? 0, playability: memoryFile.playability ?? 'playable' });
+    addVirtualFile(root, path, file);
+  });
+
+  return {
+    kind: 'memory',
+    root: createVirtualDirectoryHandle(root),
+    probe: async fileHandle => probes.get(await fileHandle.getFile()) ?? { duration: 0 },
+  };
+};
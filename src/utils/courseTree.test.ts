@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { getCompletionPercentage, getAllVideosInLessons, updateCourseTotals } from './courseTree';
+import { parseFolderStructure } from './folderParser';
+import { createMemorySource } from './courseSource';
+
+describe('getCompletionPercentage', () => {
+  it('counts completed videos out of all videos, including nested sections', async () => {
+    const course = await parseFolderStructure(createMemorySource('Course', {
+      '01 Basics/01 Intro.mp4': 'intro',
+      '01 Basics/02 Setup.mp4': 'setup',
+      '01 Basics/01 Extras/01 Bonus.mp4': 'bonus',
+    }));
+    const videos = getAllVideosInLessons(course.lessons);
+    const completed = new Set([videos[0].id]);
+
+    expect(getCompletionPercentage(videos, id => completed.has(id))).toBe(33);
+    expect(getCompletionPercentage([], () => true)).toBe(0);
+  });
+
+  it('leaves out missing videos, so a course can still reach 100%', async () => {
+    const course = await parseFolderStructure(createMemorySource('Course', {
+      '01 Basics/01 Intro.mp4': 'intro',
+      '01 Basics/02 Setup.mp4': 'setup',
+    }));
+    course.lessons[0].videos[1].missing = true;
+    const videos = getAllVideosInLessons(course.lessons);
+    const completed = new Set([videos[0].id]);
+
+    expect(getCompletionPercentage(videos, id => completed.has(id))).toBe(100);
+    expect(updateCourseTotals(course).totalVideos).toBe(1);
+  });
+});
@@ -0,0 +1,105 @@
+import type { Course, Lesson, Resource, Video } from '../types';
+
+// Helpers for walking the recursive lesson/section tree
+
+// Get all videos in a lesson, including videos in nested sections (in display order)
+export const getAllVideos = (lesson: Lesson): Video[] => {
+  const videos = [...(lesson.videos || [])];
+  for (const section of lesson.sections || []) {
+    videos.push(...getAllVideos(section));
+  }
+  return videos;
+};
+
+// Get all videos in a list of lessons (e.g. every video in a course)
+export const getAllVideosInLessons = (lessons: Lesson[]): Video[] => {
+  return lessons.flatMap(lesson => getAllVideos(lesson));
+};
+
+// Find the chain of lessons from the top level down to the lesson with the given ID
+// Returns an empty array if not found
+export const findLessonPath = (lessons: Lesson[], lessonId: string): Lesson[] => {
+  for (const lesson of lessons) {
+    if (lesson.id === lessonId) {
+      return [lesson];
+    }
+    const childPath = findLessonPath(lesson.sections || [], lessonId);
+    if (childPath.length > 0) {
+      return [lesson, ...childPath];
+    }
+  }
+  return [];
+};
+
+// Find a lesson or nested section by ID
+export const findLesson = (lessons: Lesson[], lessonId: string): Lesson | undefined => {
+  const path = findLessonPath(lessons, lessonId);
+  return path[path.length - 1];
+};
+
+// Count nested sections at every depth below a lesson
+export const countSections = (lesson: Lesson): number => {
+  return (lesson.sections || []).reduce((sum, section) => sum + 1 + countSections(section), 0);
+};
+
+// Find the chain of sections from a lesson down to the section directly containing a video
+// Returns an empty array if the video is not in the lesson
+export const findVideoPath = (lesson: Lesson, videoId: string): Lesson[] => {
+  if ((lesson.videos || []).some(video => video.id === videoId)) {
+    return [lesson];
+  }
+  for (const section of lesson.sections || []) {
+    const childPath = findVideoPath(section, videoId);
+    if (childPath.length > 0) {
+      return [lesson, ...childPath];
+    }
+  }
+  return [];
+};
+
+// Share of videos completed, as a whole percentage (0 if there are none)
+// Videos flagged missing are left out, matching the totals shown with the progress.
+export const getCompletionPercentage = (videos: Video[], isCompleted: (videoId: string) => boolean): number => {
+  const presentVideos = videos.filter(video => !video.missing);
+  if (presentVideos.length === 0) return 0;
+
+  const completedVideos = presentVideos.filter(video => isCompleted(video.id)).length;
+  return Math.round((completedVideos / presentVideos.length) * 100);
+};
+
+// Recompute totalVideos and totalDuration for a lesson and its sections
+// Videos flagged missing by a rescan are not counted
+export const updateLessonTotals = (lesson: Lesson): Lesson => {
+  const sections = (lesson.sections || []).map(updateLessonTotals);
+  const presentVideos = (lesson.videos || []).filter(video => !video.missing);
+
+  return {
+    ...lesson,
+    sections,
+    totalVideos: presentVideos.length + sections.reduce((sum, section) => sum + section.totalVideos, 0),
+    totalDuration:
+      presentVideos.reduce((sum, video) => sum + video.duration, 0) +
+      sections.reduce((sum, section) => sum + section.totalDuration, 0),
+  };
+};
+
+// Recompute course totals from its lessons
+export const updateCourseTotals = (course: Course): Course => {
+  const lessons = course.lessons.map(updateLessonTotals);
+
+  return {
+    ...course,
+    lessons,
+    totalVideos: lessons.reduce((sum, lesson) => sum + lesson.totalVideos, 0),
+    totalDuration: lessons.reduce((sum, lesson) => sum + lesson.totalDuration, 0),
+  };
+};
+
+// Get all resources in a lesson: its own, its videos' and those of nested sections
+export const getAllResources = (lesson: Lesson): Resource[] => {
+  return [
+    ...(lesson.resources || []),
+    ...(lesson.videos || []).flatMap(video => video.resources || []),
+    ...(lesson.sections || []).flatMap(getAllResources),
+  ];
+};
@@ -0,0 +1,118 @@
+import { getCourse, saveCourse } from './storage';
+import type { Course, Lesson, FileSystemFileHandle } from '../types';
+
+// Conventional artwork filenames, in order of preference
+const COVER_ART_NAMES = ['cover', 'folder', 'poster'];
+const COVER_ART_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp'];
+
+// Max width of stored cover images (they are kept as data URLs in IndexedDB)
+const COVER_MAX_WIDTH = 640;
+
+// Check if a file is conventional cover art (cover.jpg, folder.jpg, poster.png...)
+export const isCoverArtFile = (filename: string): boolean => {
+  const dotIndex = filename.lastIndexOf('.');
+  if (dotIndex === -1) return false;
+
+  const name = filename.slice(0, dotIndex).toLowerCase();
+  const ext = filename.slice(dotIndex).toLowerCase();
+  return COVER_ART_NAMES.includes(name) && COVER_ART_EXTENSIONS.includes(ext);
+};
+
+// Pick the preferred cover art file from a folder's cover art filenames
+export const pickCoverArtFile = (filenames: string[]): string | undefined => {
+  const rank = (filename: string): number => {
+    return COVER_ART_NAMES.indexOf(filename.slice(0, filename.lastIndexOf('.')).toLowerCase());
+  };
+  return [...filenames].sort((a, b) => rank(a) - rank(b))[0];
+};
+
+// Draw an image or video frame into a JPEG data URL, scaled down to COVER_MAX_WIDTH
+const drawCover = (source: CanvasImageSource, width: number, height: number): string => {
+  const scale = Math.min(1, COVER_MAX_WIDTH / width);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+// Create a cover image from an image file
+export const createCoverFromImage = async (image: Blob): Promise<string> => {
+  const bitmap = await createImageBitmap(image);
+  try {
+    return drawCover(bitmap, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Create a cover image from the frame currently shown by a video element
+export const createCoverFromVideoFrame = (video: HTMLVideoElement): string => {
+  if (!video.videoWidth || !video.videoHeight) return '';
+  return drawCover(video, video.videoWidth, video.videoHeight);
+};
+
+// Read cover art from a folder's artwork file; empty string if it can't be decoded
+export const readCoverArt = async (fileHandle: FileSystemFileHandle): Promise<string> => {
+  try {
+    return await createCoverFromImage(await fileHandle.getFile());
+  } catch (err) {
+    console.warn('Could not read cover art:', fileHandle.name, err);
+    return '';
+  }
+};
+
+// Let the user pick an image file; resolves null if nothing was picked
+export const pickImageFile = (): Promise<File | null> => {
+  return new Promise((resolve) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'image/*';
+    input.onchange = () => resolve(input.files?.[0] || null);
+    input.addEventListener('cancel', () => resolve(null));
+    input.click();
+  });
+};
+
+// Image to show for a course or lesson: custom cover, then folder artwork, then video thumbnail
+export const getCoverImage = (item: { customCover?: string; cover?: string; thumbnail?: string }): string => {
+  return item.customCover || item.cover || item.thumbnail || '';
+};
+
+// Replace a lesson (or nested section) anywhere in the lesson tree
+const updateLessonInTree = (lessons: Lesson[], lessonId: string, update: (lesson: Lesson) => Lesson): Lesson[] => {
+  return lessons.map(lesson => {
+    if (lesson.id === lessonId) return update(lesson);
+    return { ...lesson, sections: updateLessonInTree(lesson.sections || [], lessonId, update) };
+  });
+};
+
+// Save a custom cover for a course (undefined removes it); returns the updated course
+export const setCourseCover = async (courseId: string, customCover: string | undefined): Promise<Course | null> => {
+  const course = await getCourse(courseId);
+  if (!course) return null;
+
+  const updated = { ...course, customCover };
+  await saveCourse(updated);
+  return updated;
+};
+
+// Save a custom cover for a lesson or section (undefined removes it); returns the updated course
+export const setLessonCover = async (
+  courseId: string,
+  lessonId: string,
+  customCover: string | undefined
+): Promise<Course | null> => {
+  const course = await getCourse(courseId);
+  if (!course) return null;
+
+  const updated = {
+    ...course,
+    lessons: updateLessonInTree(course.lessons, lessonId, lesson => ({ ...lesson, customCover })),
+  };
+  await saveCourse(updated);
+  return updated;
+};
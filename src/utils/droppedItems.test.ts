@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { readDroppedItems } from './droppedItems';
+import { createMemorySource } from './courseSource';
+import type { FileSystemHandle } from '../types';
+
+interface FakeItem {
+  handle?: FileSystemHandle | null;  // Left out in browsers without getAsFileSystemHandle
+  entry?: { name: string; isDirectory: boolean } | null;
+  file?: File | null;
+}
+
+const createDataTransfer = (items: FakeItem[]): DataTransfer => ({
+  types: ['Files'],
+  items: items.map(item => ({
+    kind: 'file',
+    ...(item.handle !== undefined && { getAsFileSystemHandle: async () => item.handle }),
+    webkitGetAsEntry: () => item.entry ?? null,
+    getAsFile: () => item.file ?? null,
+  })),
+}) as unknown as DataTransfer;
+
+describe('readDroppedItems', () => {
+  it('prefers File System Access handles and skips dropped files', async () => {
+    const folder = createMemorySource('Course A', {}).root;
+    const file = await createMemorySource('Other', { 'clip.mp4': '' }).root.getFileHandle('clip.mp4');
+
+    const { folders, skipped } = await readDroppedItems(createDataTransfer([
+      { handle: folder, entry: { name: 'Course A', isDirectory: true } },
+      { handle: file, entry: { name: 'clip.mp4', isDirectory: false } },
+    ]));
+
+    expect(folders).toEqual([{ kind: 'handle', name: 'Course A', handle: folder }]);
+    expect(skipped.map(item => item.name)).toEqual(['clip.mp4']);
+  });
+
+  it('falls back to file entries', async () => {
+    const entry = { name: 'Course B', isDirectory: true };
+
+    const { folders, skipped } = await readDroppedItems(createDataTransfer([
+      { entry },
+      { entry: { name: 'notes.txt', isDirectory: false } },
+      { file: new File([], 'unknown.bin') },
+    ]));
+
+    expect(folders).toEqual([{ kind: 'entry', name: 'Course B', entry }]);
+    expect(skipped.map(item => item.name)).toEqual(['notes.txt', 'unknown.bin']);
+  });
+});
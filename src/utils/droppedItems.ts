@@ -0,0 +1,42 @@
+import type { QueuedFolder, SkippedFolder } from '../types';
+
+// What was dropped on the library
+export interface DroppedItems {
+  folders: QueuedFolder[];
+  skipped: SkippedFolder[];  // Files (and anything else that isn't a folder)
+}
+
+// Check if a drag carries files or folders from the file manager
+export const isFileDrag = (dataTransfer: DataTransfer): boolean => dataTransfer.types.includes('Files');
+
+// Read the folders dropped on the page
+// File System Access handles are used where the browser supports them, so the courses can be
+// kept between visits; other browsers give file entries. The items of a drop can only be read
+// during the drop event, so everything is requested before the first await.
+export const readDroppedItems = async (dataTransfer: DataTransfer): Promise<DroppedItems> => {
+  const items = Array.from(dataTransfer.items).filter(item => item.kind === 'file');
+  const dropped = items.map(item => ({
+    handle: item.getAsFileSystemHandle?.().catch(() => null) ?? Promise.resolve(null),
+    entry: item.webkitGetAsEntry(),
+    file: item.getAsFile(),
+  }));
+
+  const folders: QueuedFolder[] = [];
+  const skipped: SkippedFolder[] = [];
+
+  for (const { handle: pendingHandle, entry, file } of dropped) {
+    const handle = await pendingHandle;
+    if (handle?.kind === 'directory') {
+      folders.push({ kind: 'handle', name: handle.name, handle });
+    } else if (!handle && entry?.isDirectory) {
+      folders.push({ kind: 'entry', name: entry.name, entry: entry as FileSystemDirectoryEntry });
+    } else {
+      skipped.push({
+        name: handle?.name || entry?.name || file?.name || 'Unknown item',
+        reason: 'Not a folder - drop the course folder instead',
+      });
+    }
+  }
+
+  return { folders, skipped };
+};
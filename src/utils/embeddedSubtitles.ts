@@ -0,0 +1,390 @@
+import { parseSRT, parseVTT, parseASS, parseSubtitleSuffix, getLanguageLabel, UNKNOWN_LANGUAGE } from './subtitles';
+import {
+  MATROSKA_EXTENSIONS,
+  MP4_EXTENSIONS,
+  createByteReader,
+  getExtension,
+  readUint,
+  readAscii,
+  decodeText,
+  getVintLength,
+  readEbmlElement,
+  readElementData,
+  readChildElements,
+  findMatroskaSegment,
+  findMp4Moov,
+  readMp4Tracks,
+  readMp4Samples,
+  decodeMp4TextSample,
+} from './mediaContainer';
+import type { ByteReader, EbmlElement, Mp4Track } from './mediaContainer';
+import type { EmbeddedSubtitleStream, SubtitleCue, SubtitleTrack, FileSystemFileHandle } from '../types';
+
+// Embedded (soft) subtitles of MKV/WebM and MP4/MOV files
+// Only text subtitle streams are read: Matroska S_TEXT tracks and MP4 tx3g/wvtt tracks.
+// Picture-based subtitles (PGS, VobSub) can't be shown as text and are left out.
+
+// Stream details read from the container, before they become a SubtitleTrack
+interface SubtitleStreamInfo extends EmbeddedSubtitleStream {
+  language?: string;  // ISO 639-2 code or BCP 47 tag as stored in the file
+  name?: string;
+  forced?: boolean;
+}
+
+// Timed subtitle text read from the container, in seconds
+interface SubtitleEvent {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Matroska (MKV, WebM)
+// Cluster contents are walked flat, so clusters of unknown size need no special handling.
+
+const EBML = {
+  info: 0x1549a966,
+  timestampScale: 0x2ad7b1,
+  tracks: 0x1654ae6b,
+  trackEntry: 0xae,
+  trackNumber: 0xd7,
+  trackType: 0x83,
+  codecId: 0x86,
+  codecPrivate: 0x63a2,
+  language: 0x22b59c,
+  languageBcp47: 0x22b59d,
+  name: 0x536e,
+  flagForced: 0x55aa,
+  cluster: 0x1f43b675,
+  timestamp: 0xe7,
+  simpleBlock: 0xa3,
+  blockGroup: 0xa0,
+  block: 0xa1,
+  blockDuration: 0x9b,
+};
+
+const MATROSKA_SUBTITLE_TRACK_TYPE = 0x11;
+const MATROSKA_TEXT_CODECS = ['S_TEXT/UTF8', 'S_TEXT/ASS', 'S_TEXT/SSA', 'S_TEXT/WEBVTT'];
+
+// Default TimestampScale: timestamps in milliseconds
+const DEFAULT_TIMESTAMP_SCALE = 1000000;
+
+// Display time for blocks without a duration (cut short by the next event)
+const DEFAULT_EVENT_DURATION = 5;
+
+interface MatroskaTrack extends SubtitleStreamInfo {
+  codecPrivate?: Uint8Array;
+}
+
+interface MatroskaHeaders {
+  timestampScale: number;
+  tracks: MatroskaTrack[];
+  firstCluster: number | null;
+  segmentEnd: number;
+}
+
+const readMatroskaTrack = async (reader: ByteReader, entry: EbmlElement): Promise<MatroskaTrack & { type: number }> => {
+  // Matroska's default language is English
+  const track: MatroskaTrack & { type: number } = { trackNumber: 0, codec: '', type: 0, language: 'eng' };
+  let bcp47: string | undefined;
+
+  await readChildElements(reader, entry.dataStart, entry.dataEnd, async element => {
+    switch (element.id) {
+      case EBML.trackNumber: track.trackNumber = readUint(await readElementData(reader, element)); break;
+      case EBML.trackType: track.type = readUint(await readElementData(reader, element)); break;
+      case EBML.codecId: track.codec = decodeText(await readElementData(reader, element)); break;
+      case EBML.codecPrivate: track.codecPrivate = (await readElementData(reader, element)).slice(); break;
+      case EBML.language: track.language = decodeText(await readElementData(reader, element)); break;
+      case EBML.languageBcp47: bcp47 = decodeText(await readElementData(reader, element)); break;
+      case EBML.name: track.name = decodeText(await readElementData(reader, element)); break;
+      case EBML.flagForced: track.forced = readUint(await readElementData(reader, element)) === 1; break;
+    }
+  });
+
+  return { ...track, language: bcp47 || track.language };
+};
+
+// Read the segment info and track list, which come before the first cluster
+const readMatroskaHeaders = async (reader: ByteReader): Promise<MatroskaHeaders | null> => {
+  const segment = await findMatroskaSegment(reader);
+  if (!segment) return null;
+
+  const headers: MatroskaHeaders = {
+    timestampScale: DEFAULT_TIMESTAMP_SCALE,
+    tracks: [],
+    firstCluster: null,
+    segmentEnd: segment.dataEnd,
+  };
+
+  let offset = segment.dataStart;
+  while (offset < segment.dataEnd) {
+    const element = await readEbmlElement(reader, offset, segment.dataEnd);
+    if (!element) break;
+
+    if (element.id === EBML.cluster) {
+      headers.firstCluster = offset;
+      break;
+    }
+    if (element.id === EBML.info) {
+      await readChildElements(reader, element.dataStart, element.dataEnd, async child => {
+        if (child.id === EBML.timestampScale) {
+          headers.timestampScale = readUint(await readElementData(reader, child)) || DEFAULT_TIMESTAMP_SCALE;
+        }
+      });
+    } else if (element.id === EBML.tracks) {
+      await readChildElements(reader, element.dataStart, element.dataEnd, async child => {
+        if (child.id !== EBML.trackEntry) return;
+        const { type, ...track } = await readMatroskaTrack(reader, child);
+        if (type === MATROSKA_SUBTITLE_TRACK_TYPE && MATROSKA_TEXT_CODECS.includes(track.codec)) {
+          headers.tracks.push(track);
+        }
+      });
+    }
+    offset = element.dataEnd;
+  }
+
+  return headers;
+};
+
+// Read every block of one track (the whole file is read, cluster by cluster)
+const readMatroskaEvents = async (
+  reader: ByteReader,
+  headers: MatroskaHeaders,
+  trackNumber: number
+): Promise<SubtitleEvent[]> => {
+  const events: SubtitleEvent[] = [];
+  const toSeconds = (timestamp: number) => timestamp * headers.timestampScale / 1e9;
+  let clusterTime = 0;
+
+  // Block: track number (vint), signed 16-bit timestamp relative to the cluster, flags, data
+  const readBlock = async (block: EbmlElement, duration?: number): Promise<void> => {
+    const header = await reader.read(block.dataStart, 12);
+    const numberLength = getVintLength(header[0]);
+    if (numberLength === 0 || numberLength > 8) return;
+
+    const blockTrack = readUint(header, 0, numberLength) - (0x80 >> (numberLength - 1)) * 256 ** (numberLength - 1);
+    if (blockTrack !== trackNumber) return;
+
+    // Laced blocks pack several frames; subtitle muxers don't use lacing
+    const flags = header[numberLength + 2];
+    if ((flags & 0x06) !== 0) return;
+
+    const relative = (header[numberLength] << 8 | header[numberLength + 1]) << 16 >> 16;
+    const dataStart = block.dataStart + numberLength + 3;
+    const data = await reader.read(dataStart, block.dataEnd - dataStart);
+    const start = toSeconds(clusterTime + relative);
+
+    events.push({
+      start,
+      end: duration !== undefined ? start + toSeconds(duration) : NaN,
+      text: decodeText(data),
+    });
+  };
+
+  let offset = headers.firstCluster ?? headers.segmentEnd;
+  while (offset < headers.segmentEnd) {
+    const element = await readEbmlElement(reader, offset, headers.segmentEnd);
+    if (!element) break;
+
+    if (element.id === EBML.cluster) {
+      // Descend: the cluster's children are read by this loop
+      offset = element.dataStart;
+      continue;
+    }
+
+    if (element.id === EBML.timestamp) {
+      clusterTime = readUint(await readElementData(reader, element));
+    } else if (element.id === EBML.simpleBlock) {
+      await readBlock(element);
+    } else if (element.id === EBML.blockGroup) {
+      let block: EbmlElement | null = null;
+      let duration: number | undefined;
+      await readChildElements(reader, element.dataStart, element.dataEnd, async child => {
+        if (child.id === EBML.block) block = child;
+        if (child.id === EBML.blockDuration) duration = readUint(await readElementData(reader, child));
+      });
+      if (block) await readBlock(block, duration);
+    }
+    offset = element.dataEnd;
+  }
+
+  // Blocks without a duration last until the next event
+  events.sort((a, b) => a.start - b.start);
+  return events.map((event, index) => {
+    if (!Number.isNaN(event.end)) return event;
+    const next = events[index + 1]?.start ?? Infinity;
+    return { ...event, end: Math.min(event.start + DEFAULT_EVENT_DURATION, next) };
+  });
+};
+
+// MP4 (MP4, M4V, MOV)
+// Subtitle tracks have a 'sbtl'/'subt'/'text' handler. Text tracks that serve as another
+// track's chapter list are not subtitles.
+
+const MP4_SUBTITLE_HANDLERS = ['sbtl', 'subt', 'text'];
+const MP4_TEXT_FORMATS = ['tx3g', 'wvtt'];
+
+const readMp4SubtitleTracks = async (reader: ByteReader): Promise<Mp4Track[]> => {
+  const moov = await findMp4Moov(reader);
+  if (!moov) return [];
+
+  const tracks = await readMp4Tracks(reader, moov);
+  const chapterTrackIds = new Set(tracks.flatMap(track => track.chapterTrackIds));
+  return tracks.filter(track =>
+    MP4_SUBTITLE_HANDLERS.includes(track.handler) &&
+    MP4_TEXT_FORMATS.includes(track.format) &&
+    !chapterTrackIds.has(track.trackId)
+  );
+};
+
+// Text of one sample; wvtt holds 'vttc' cue boxes with the text in a 'payl' box ('vtte' marks a gap)
+const readMp4SampleText = (sample: Uint8Array, format: string): string => {
+  if (format === 'tx3g') return decodeMp4TextSample(sample);
+
+  const lines: string[] = [];
+  let offset = 0;
+  while (offset + 8 <= sample.length) {
+    const size = readUint(sample, offset, 4);
+    if (size < 8) break;
+    if (readAscii(sample, offset + 4, 4) === 'vttc') {
+      const cue = sample.subarray(offset + 8, offset + size);
+      let inner = 0;
+      while (inner + 8 <= cue.length) {
+        const innerSize = readUint(cue, inner, 4);
+        if (innerSize < 8) break;
+        if (readAscii(cue, inner + 4, 4) === 'payl') {
+          lines.push(decodeText(cue.subarray(inner + 8, inner + innerSize)));
+        }
+        inner += innerSize;
+      }
+    }
+    offset += size;
+  }
+  return lines.join('\n');
+};
+
+const readMp4Events = async (reader: ByteReader, track: Mp4Track): Promise<SubtitleEvent[]> => {
+  const samples = await readMp4Samples(reader, track);
+  return samples
+    .map(sample => ({
+      start: sample.time / track.timescale,
+      end: (sample.time + sample.duration) / track.timescale,
+      text: readMp4SampleText(sample.data, track.format),
+    }))
+    .filter(event => event.text.trim());
+};
+
+// Building subtitle documents
+// Events are written out as SRT, WebVTT or ASS so the regular parsers handle the markup.
+
+const formatTime = (seconds: number, separator: string): string => {
+  const ms = Math.round(seconds * 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+// ASS timestamps have centiseconds and a single-digit hour
+const formatASSTime = (seconds: number): string => {
+  const cs = Math.round(seconds * 100);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${Math.floor(cs / 360000)}:${pad(Math.floor(cs / 6000) % 60)}:${pad(Math.floor(cs / 100) % 60)}.${pad(cs % 100)}`;
+};
+
+const buildSRT = (events: SubtitleEvent[]): string => {
+  return events.map((event, index) =>
+    `${index + 1}\n${formatTime(event.start, ',')} --> ${formatTime(event.end, ',')}\n${event.text}\n`
+  ).join('\n');
+};
+
+const buildVTT = (events: SubtitleEvent[]): string => {
+  return 'WEBVTT\n\n' + events.map(event =>
+    `${formatTime(event.start, '.')} --> ${formatTime(event.end, '.')}\n${event.text}\n`
+  ).join('\n');
+};
+
+// Matroska stores the ASS header as codec private data and each event without its times:
+// "ReadOrder, Layer, Style, Name, MarginL, MarginR, MarginV, Effect, Text"
+const buildASS = (events: SubtitleEvent[], codecPrivate?: Uint8Array): string => {
+  let header = codecPrivate ? decodeText(codecPrivate) : '[Script Info]\n';
+  if (!/^\[Events\]/im.test(header)) {
+    header += '\n[Events]\nFormat: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text\n';
+  }
+
+  const dialogues = events.map(event => {
+    const fields = event.text.split(',');
+    const layer = fields[1] ?? '0';
+    const rest = fields.slice(2).join(',');
+    return `Dialogue: ${layer},${formatASSTime(event.start)},${formatASSTime(event.end)},${rest}`;
+  });
+
+  return `${header.trimEnd()}\n${dialogues.join('\n')}\n`;
+};
+
+// Turn a container language code into the app's language code ('eng' -> 'en')
+const normalizeLanguage = (code?: string): string => {
+  if (!code || code === UNKNOWN_LANGUAGE) return UNKNOWN_LANGUAGE;
+  const { language } = parseSubtitleSuffix(code);
+  if (language !== UNKNOWN_LANGUAGE) return language;
+  // Other ISO 639-2 codes are understood by Intl.DisplayNames as they are
+  return /^[a-z]{3}$/i.test(code) ? code.toLowerCase() : UNKNOWN_LANGUAGE;
+};
+
+const createEmbeddedTrack = (fileHandle: FileSystemFileHandle, stream: SubtitleStreamInfo): SubtitleTrack => {
+  const language = normalizeLanguage(stream.language);
+  const flags = stream.forced ? ['Forced', 'Embedded'] : ['Embedded'];
+  const name = stream.name?.trim() || (language !== UNKNOWN_LANGUAGE ? getLanguageLabel(language) : `Track ${stream.trackNumber}`);
+
+  return {
+    id: `embedded-${stream.trackNumber}`,
+    language,
+    label: `${name} (${flags.join(', ')})`,
+    fileHandle,
+    embedded: { trackNumber: stream.trackNumber, codec: stream.codec },
+  };
+};
+
+// Check if a file's container can carry embedded subtitles we can read
+export const canHaveEmbeddedSubtitles = (filename: string): boolean => {
+  const ext = getExtension(filename);
+  return MATROSKA_EXTENSIONS.includes(ext) || MP4_EXTENSIONS.includes(ext);
+};
+
+// List the text subtitle streams inside a video file (only headers are read)
+export const listEmbeddedSubtitles = async (fileHandle: FileSystemFileHandle, file: File): Promise<SubtitleTrack[]> => {
+  const ext = getExtension(file.name);
+
+  try {
+    const reader = createByteReader(file);
+    const streams: SubtitleStreamInfo[] = MATROSKA_EXTENSIONS.includes(ext)
+      ? (await readMatroskaHeaders(reader))?.tracks ?? []
+      : MP4_EXTENSIONS.includes(ext)
+        ? (await readMp4SubtitleTracks(reader)).map(track => ({ trackNumber: track.trackId, codec: track.format, language: track.language }))
+        : [];
+    return streams.map(stream => createEmbeddedTrack(fileHandle, stream));
+  } catch (err) {
+    console.warn('Could not read embedded subtitles:', file.name, err);
+    return [];
+  }
+};
+
+// Read the cues of an embedded subtitle stream
+// Matroska interleaves subtitles with the media, so this reads through the whole file.
+export const readEmbeddedSubtitles = async (file: File, stream: EmbeddedSubtitleStream): Promise<SubtitleCue[]> => {
+  const reader = createByteReader(file);
+
+  if (MATROSKA_EXTENSIONS.includes(getExtension(file.name))) {
+    const headers = await readMatroskaHeaders(reader);
+    const track = headers?.tracks.find(t => t.trackNumber === stream.trackNumber);
+    if (!headers || !track) return [];
+
+    const events = await readMatroskaEvents(reader, headers, track.trackNumber);
+    if (track.codec === 'S_TEXT/ASS' || track.codec === 'S_TEXT/SSA') return parseASS(buildASS(events, track.codecPrivate));
+    if (track.codec === 'S_TEXT/WEBVTT') return parseVTT(buildVTT(events));
+    return parseSRT(buildSRT(events));
+  }
+
+  const track = (await readMp4SubtitleTracks(reader)).find(t => t.trackId === stream.trackNumber);
+  if (!track) return [];
+
+  const events = await readMp4Events(reader, track);
+  return track.format === 'wvtt' ? parseVTT(buildVTT(events)) : parseSRT(buildSRT(events));
+};
@@ -0,0 +1,69 @@
+import { getAllProgress, copyProgress } from './storage';
+import { getAllVideosInLessons } from './courseTree';
+import type { Course, VideoProgress } from '../types';
+
+// Bytes hashed from the start and from the end of each file
+const FINGERPRINT_CHUNK_SIZE = 64 * 1024;
+
+// Convert a digest to a hex string
+const toHex = (buffer: ArrayBuffer): string => {
+  return Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+// Build a content fingerprint for a video file: size plus a hash of the first and last chunks
+// Unlike the name-based video ID it stays the same when the file, lesson or course folder is renamed or moved
+export const computeFingerprint = async (file: File): Promise<string> => {
+  const head = file.slice(0, FINGERPRINT_CHUNK_SIZE);
+  const tail = file.slice(Math.max(FINGERPRINT_CHUNK_SIZE, file.size - FINGERPRINT_CHUNK_SIZE));
+  const data = await new Blob([head, tail]).arrayBuffer();
+  const digest = await crypto.subtle.digest('SHA-256', data);
+
+  return `${file.size}-${toHex(digest).slice(0, 32)}`;
+};
+
+// Same as computeFingerprint, but never throws (fingerprints are optional)
+export const tryComputeFingerprint = async (file: File): Promise<string | undefined> => {
+  try {
+    return await computeFingerprint(file);
+  } catch (err) {
+    console.warn('Could not fingerprint file:', file.name, err);
+    return undefined;
+  }
+};
+
+// Reattach progress to videos whose name-based ID changed (renamed or moved course/lesson folders)
+// Looks up videos with the same fingerprint in the known courses and copies their progress
+// to the new video ID. Returns the number of videos whose progress was restored.
+export const reattachProgress = async (course: Course, knownCourses: Course[]): Promise<number> => {
+  const allProgress = await getAllProgress();
+  const progressById = new Map<string, VideoProgress>(allProgress.map(p => [p.id, p]));
+
+  // Fingerprint -> most recently watched progress record of a known video with that content
+  const progressByFingerprint = new Map<string, VideoProgress>();
+  knownCourses.forEach(known => {
+    getAllVideosInLessons(known.lessons || []).forEach(video => {
+      const progress = progressById.get(video.id);
+      if (!video.fingerprint || !progress) return;
+
+      const existing = progressByFingerprint.get(video.fingerprint);
+      if (!existing || progress.lastWatched > existing.lastWatched) {
+        progressByFingerprint.set(video.fingerprint, progress);
+      }
+    });
+  });
+
+  let restored = 0;
+  for (const video of getAllVideosInLessons(course.lessons)) {
+    if (!video.fingerprint || progressById.has(video.id)) continue;
+
+    const previous = progressByFingerprint.get(video.fingerprint);
+    if (previous && previous.id !== video.id) {
+      await copyProgress(previous.id, video.id);
+      restored++;
+    }
+  }
+
+  return restored;
+};
@@ -0,0 +1,230 @@
+import { describe, it, expect } from 'vitest';
+import { parseFolderStructure } from './folderParser';
+import { createMemorySource } from './courseSource';
+import { getAllVideosInLessons } from './courseTree';
+import type { Course, Lesson, ScanProgress } from '../types';
+
+const videoNames = (lesson: Lesson): string[] => lesson.videos.map(video => video.filename);
+const lessonNames = (course: Course): string[] => course.lessons.map(lesson => lesson.originalName);
+
+describe('parseFolderStructure', () => {
+  it('turns subfolders into lessons and nested subfolders into sections', async () => {
+    const course = await parseFolderStructure(createMemorySource('React Course', {
+      '01 Basics/01 Intro.mp4': '',
+      '01 Basics/02 JSX.mp4': '',
+      '02 Advanced/01 Hooks/01 useState.mp4': '',
+      '02 Advanced/01 Hooks/02 useEffect.mp4': '',
+      '02 Advanced/02 Context.mp4': '',
+      'Empty/notes.md': '',
+    }));
+
+    expect(course.id).toBe('course-React Course');
+    expect(course.title).toBe('React Course');
+    expect(lessonNames(course)).toEqual(['01 Basics', '02 Advanced']);
+    expect(course.totalLessons).toBe(2);
+    expect(course.totalVideos).toBe(5);
+
+    const [basics, advanced] = course.lessons;
+    expect(basics.id).toBe('lesson-React Course-01 Basics');
+    expect(basics.name).toBe('Basics');
+    expect(basics.numberPrefix).toBe('01');
+    expect(videoNames(basics)).toEqual(['01 Intro.mp4', '02 JSX.mp4']);
+    expect(basics.videos[0]).toMatchObject({
+      id: 'video-React Course-01 Basics-01 Intro.mp4',
+      path: '01 Basics/01 Intro.mp4',
+      name: 'Intro',
+      mediaType: 'video',
+      duration: 0,
+    });
+
+    expect(advanced.totalVideos).toBe(3);
+    expect(videoNames(advanced)).toEqual(['02 Context.mp4']);
+    expect(advanced.sections?.map(section => section.id)).toEqual(['lesson-React Course-02 Advanced/01 Hooks']);
+    expect(videoNames(advanced.sections![0])).toEqual(['01 useState.mp4', '02 useEffect.mp4']);
+  });
+
+  it('collects loose files at the root into an implicit lesson listed first', async () => {
+    const flat = await parseFolderStructure(createMemorySource('Podcast', {
+      '02 Second.mp3': '',
+      '01 First.mp3': '',
+    }));
+    expect(flat.lessons).toHaveLength(1);
+    expect(flat.lessons[0].id).toBe('lesson-Podcast-.');
+    expect(flat.lessons[0].name).toBe('Podcast');
+    expect(videoNames(flat.lessons[0])).toEqual(['01 First.mp3', '02 Second.mp3']);
+    expect(flat.lessons[0].videos[0].mediaType).toBe('audio');
+
+    const mixed = await parseFolderStructure(createMemorySource('Course', {
+      '01 Lesson/01 Video.mp4': '',
+      'Welcome.mp4': '',
+    }));
+    expect(mixed.lessons.map(lesson => lesson.name)).toEqual(['General', 'Lesson']);
+  });
+
+  it('sorts numbered names naturally', async () => {
+    const course = await parseFolderStructure(createMemorySource('Course', {
+      'Lecture 10.mp4': '',
+      'Lecture 2.mp4': '',
+      'Lecture 1.mp4': '',
+      'Bonus.mp4': '',
+    }));
+    expect(videoNames(course.lessons[0])).toEqual(['Lecture 1.mp4', 'Lecture 2.mp4', 'Lecture 10.mp4', 'Bonus.mp4']);
+    expect(course.lessons[0].videos.map(video => video.sortOrder)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('applies the course manifest', async () => {
+    const course = await parseFolderStructure(createMemorySource('Course', {
+      'localplay.json': JSON.stringify({
+        title: 'Better Title',
+        description: 'About this course',
+        entries: {
+          '01 Intro': { title: 'Getting Started' },
+          '01 Intro/02 Second.mp4': { order: 0, description: 'Watch this first' },
+          '01 Intro/03 Draft.mp4': { hidden: true },
+        },
+      }),
+      '01 Intro/01 First.mp4': '',
+      '01 Intro/02 Second.mp4': '',
+      '01 Intro/03 Draft.mp4': '',
+    }));
+
+    expect(course.title).toBe('Better Title');
+    expect(course.description).toBe('About this course');
+    expect(course.lessons[0].name).toBe('Getting Started');
+    expect(videoNames(course.lessons[0])).toEqual(['02 Second.mp4', '01 First.mp4']);
+    expect(course.lessons[0].videos[0].description).toBe('Watch this first');
+  });
+
+  it('leaves out files matched by ignore rules and reports them', async () => {
+    const excluded: string[] = [];
+    const course = await parseFolderStructure(createMemorySource('Course', {
+      '.localplayignore': 'raw/\n*-sample.mp4\n',
+      '01 Lesson/.localplayignore': '!keep-sample.mp4',
+      '01 Lesson/01 Video.mp4': '',
+      '01 Lesson/02 Clip-sample.mp4': '',
+      '01 Lesson/keep-sample.mp4': '',
+      '01 Lesson/._01 Video.mp4': '',
+      'raw/take1.mp4': '',
+      '__MACOSX/01 Lesson/01 Video.mp4': '',
+    }), { onExclude: path => excluded.push(path) });
+
+    expect(lessonNames(course)).toEqual(['01 Lesson']);
+    expect(videoNames(course.lessons[0])).toEqual(['01 Video.mp4', 'keep-sample.mp4']);
+    expect(excluded).toEqual(expect.arrayContaining([
+      'raw',
+      '__MACOSX',
+      '01 Lesson/02 Clip-sample.mp4',
+      '01 Lesson/._01 Video.mp4',
+    ]));
+  });
+
+  it('skips videos below the minimum size', async () => {
+    const excluded: string[] = [];
+    const course = await parseFolderStructure(createMemorySource('Course', {
+      '01 Full.mp4': { content: 'x'.repeat(2048) },
+      '02 Stub.mp4': { content: 'x' },
+    }), {
+      scanFilters: { excludePatterns: [], minVideoSize: 1024 },
+      onExclude: path => excluded.push(path),
+    });
+
+    expect(videoNames(course.lessons[0])).toEqual(['01 Full.mp4']);
+    expect(excluded).toEqual(['02 Stub.mp4']);
+  });
+
+  it('matches subtitle files to videos', async () => {
+    const course = await parseFolderStructure(createMemorySource('Course', {
+      '01 Lesson/01 Intro.mp4': '',
+      '01 Lesson/01 Intro.en.srt': '',
+      '01 Lesson/subs/01 Intro.de.vtt': '',
+      '01 Lesson/02 Next.mp4': '',
+    }));
+
+    const [intro, next] = course.lessons[0].videos;
+    expect(intro.subtitleTracks?.map(track => track.language).sort()).toEqual(['de', 'en']);
+    expect(next.subtitleTracks).toEqual([]);
+    // Subtitle folders never become sections
+    expect(course.lessons[0].sections).toEqual([]);
+  });
+
+  it('reads chapter sidecar files', async () => {
+    const course = await parseFolderStructure(createMemorySource('Course', {
+      '01 Intro.mp4': '',
+      '01 Intro.chapters.txt': '0:00 Welcome\n1:30 Setup\n10:05 Wrap-up',
+      '02 Other.mp4': '',
+    }));
+
+    const [intro, other] = course.lessons[0].videos;
+    expect(intro.chapters).toEqual([
+      { title: 'Welcome', startTime: 0 },
+      { title: 'Setup', startTime: 90 },
+      { title: 'Wrap-up', startTime: 605 },
+    ]);
+    expect(other.chapters).toBeUndefined();
+    expect(course.lessons[0].resources).toEqual([]);
+  });
+
+  it('attaches resources to videos by name and to the lesson otherwise', async () => {
+    const course = await parseFolderStructure(createMemorySource('Course', {
+      '01 Lesson/01 Intro.mp4': '',
+      '01 Lesson/01 Intro slides.pdf': '',
+      '01 Lesson/exercises.zip': '',
+    }));
+
+    const lesson = course.lessons[0];
+    expect(lesson.videos[0].resources?.map(resource => resource.filename)).toEqual(['01 Intro slides.pdf']);
+    expect(lesson.resources?.map(resource => resource.filename)).toEqual(['exercises.zip']);
+  });
+
+  it('joins multi-part videos unless turned off', async () => {
+    const files = {
+      '03a Hooks.mp4': { content: 'aa', lastModified: 1 },
+      '03b Hooks.mp4': { content: 'bbb', lastModified: 2 },
+      '04 Context.mp4': '',
+    };
+
+    const joined = await parseFolderStructure(createMemorySource('Course', files));
+    const [hooks, context] = joined.lessons[0].videos;
+    expect(joined.totalVideos).toBe(2);
+    expect(hooks.id).toBe('video-Course-.-03a Hooks.mp4');
+    expect(hooks.name).toBe('Hooks');
+    expect(hooks.size).toBe(5);
+    expect(hooks.parts?.map(part => part.filename)).toEqual(['03a Hooks.mp4', '03b Hooks.mp4']);
+    expect(context.parts).toBeUndefined();
+
+    const separate = await parseFolderStructure(createMemorySource('Course', files), { joinVideoParts: false });
+    expect(separate.totalVideos).toBe(3);
+  });
+
+  it('reports progress against the total number of videos', async () => {
+    const updates: ScanProgress[] = [];
+    await parseFolderStructure(createMemorySource('Course', {
+      '01 Lesson/01 A.mp4': '',
+      '01 Lesson/02 B.mp4': '',
+      '02 Lesson/01 C.mp4': '',
+    }), { onProgress: progress => updates.push(progress) });
+
+    expect(updates[0]).toMatchObject({ videosScanned: 0, totalVideos: 3, totalLessons: 2 });
+    expect(updates[updates.length - 1]).toMatchObject({ videosScanned: 3, totalVideos: 3 });
+  });
+
+  it('stops with an AbortError when the signal is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(parseFolderStructure(createMemorySource('Course', { '01 A.mp4': '' }), {
+      signal: controller.signal,
+    })).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('gives every video a content fingerprint', async () => {
+    const course = await parseFolderStructure(createMemorySource('Course', {
+      '01 A.mp4': 'first video',
+      '02 B.mp4': 'second video',
+    }));
+
+    const fingerprints = getAllVideosInLessons(course.lessons).map(video => video.fingerprint);
+    expect(fingerprints.every(Boolean)).toBe(true);
+    expect(new Set(fingerprints).size).toBe(2);
+  });
+});
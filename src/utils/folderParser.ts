@@ -1,4 +1,43 @@
-import type { Course, Lesson, Video, FileSystemDirectoryHandle, FileSystemFileHandle } from '../types';
+import {
+  DEFAULT_SUBTITLE_LOOKUP,
+  isSubtitleFolder,
+  collectSubtitleCandidates,
+  matchSubtitlesForVideo,
+} from './subtitleLookup';
+import type { SubtitleCandidate } from './subtitleLookup';
+import { tryComputeFingerprint } from './fingerprint';
+import { createTaskPool, throwIfAborted } from './taskPool';
+import { readManifest, getManifestEntry, isHiddenByManifest } from './manifest';
+import { DEFAULT_SCAN_FILTERS, parseIgnoreRules, readIgnoreFile, isIgnored } from './ignoreRules';
+import type { IgnoreRule } from './ignoreRules';
+import { isResourceFile, createResource, assignResources } from './resources';
+import { isCoverArtFile, pickCoverArtFile, readCoverArt } from './coverArt';
+import { sortCourse } from './sortOrder';
+import { joinVideoParts } from './videoParts';
+import { canHaveEmbeddedSubtitles, listEmbeddedSubtitles } from './embeddedSubtitles';
+import {
+  isChapterFile,
+  getChapterSidecarNames,
+  parseChapterFile,
+  canHaveEmbeddedChapters,
+  readEmbeddedChapters,
+} from './chapters';
+import type { TaskPool } from './taskPool';
+import type {
+  Course,
+  Lesson,
+  Video,
+  SubtitleLookupOptions,
+  ScanFilters,
+  ScanOptions,
+  CourseSource,
+  CourseManifest,
+  ManifestEntry,
+  Resource,
+  Chapter,
+  FileSystemDirectoryHandle,
+  FileSystemFileHandle,
+} from '../types';
 
 // Supported video formats
 const VIDEO_EXTENSIONS = [
@@ -6,16 +45,19 @@ const VIDEO_EXTENSIONS = [
   '.m4v', '.flv', '.wmv', '.mpg', '.mpeg'
 ];
 
-// Check if file is a video
-const isVideoFile = (filename: string): boolean => {
+// Supported audio formats (played like videos, with an audio layout in the player)
+const AUDIO_EXTENSIONS = ['.mp3', '.m4a', '.flac', '.opus', '.aac'];
+
+// Check if file is audio-only
+const isAudioFile = (filename: string): boolean => {
   const ext = filename.toLowerCase().slice(filename.lastIndexOf('.'));
-  return VIDEO_EXTENSIONS.includes(ext);
+  return AUDIO_EXTENSIONS.includes(ext);
 };
 
-// Extract number prefix from filename/foldername (returns the number for sorting)
-const extractNumber = (name: string): number => {
-  const match = name.match(/^(\d+)/);
-  return match ? parseInt(match[1], 10) : Infinity;
+// Check if file is a video or audio file (both become videos in the course)
+export const isVideoFile = (filename: string): boolean => {
+  const ext = filename.toLowerCase().slice(filename.lastIndexOf('.'));
+  return VIDEO_EXTENSIONS.includes(ext) || AUDIO_EXTENSIONS.includes(ext);
 };
 
 // Extract number prefix string from filename/foldername (returns the original string like "01", "02")
@@ -30,240 +72,575 @@ const cleanName = (name: string): string => {
 };
 
 // Generate stable IDs
-const generateCourseId = (folderName: string): string => {
+export const generateCourseId = (folderName: string): string => {
   return `course-${folderName}`;
 };
 
-const generateLessonId = (courseName: string, lessonName: string): string => {
-  return `lesson-${courseName}-${lessonName}`;
+// lessonPath is the lesson folder name, or "lesson/section/..." for nested sections
+const generateLessonId = (courseName: string, lessonPath: string): string => {
+  return `lesson-${courseName}-${lessonPath}`;
 };
 
-const generateVideoId = (courseName: string, lessonName: string, fileName: string): string => {
-  return `video-${courseName}-${lessonName}-${fileName}`;
+const generateVideoId = (courseName: string, lessonPath: string, fileName: string): string => {
+  return `video-${courseName}-${lessonPath}-${fileName}`;
 };
 
-// Get video duration from file
-const getVideoDuration = async (fileHandle: FileSystemFileHandle): Promise<number> => {
-  return new Promise(async (resolve) => {
-    try {
-      const file = await fileHandle.getFile();
-      const videoUrl = URL.createObjectURL(file);
-
-      const video = document.createElement('video');
-      video.preload = 'metadata';
-
-      video.onloadedmetadata = () => {
-        URL.revokeObjectURL(videoUrl);
-        resolve(video.duration || 0);
-      };
-
-      video.onerror = () => {
-        URL.revokeObjectURL(videoUrl);
-        resolve(0);
-      };
-
-      // Timeout after 5 seconds
-      setTimeout(() => {
-        URL.revokeObjectURL(videoUrl);
-        resolve(0);
-      }, 5000);
-
-      video.src = videoUrl;
-      video.load();
-    } catch (error) {
-      console.error('Error getting video duration:', error);
-      resolve(0);
-    }
-  });
+// Path key for the implicit lesson built from loose video files at the course root
+// ("." can never be a real folder name, so IDs cannot collide with a lesson folder)
+const ROOT_LESSON_PATH = '.';
+
+// Path of a file or folder relative to the course root, as used by the course manifest
+const joinCoursePath = (parentPath: string, name: string): string => {
+  return parentPath && parentPath !== ROOT_LESSON_PATH ? `${parentPath}/${name}` : name;
 };
 
-// Generate thumbnail from video file (at 10s if video > 10s, else 10% or 2s)
-const generateThumbnail = async (fileHandle: FileSystemFileHandle, duration: number): Promise<string> => {
-  return new Promise(async (resolve) => {
-    try {
-      const file = await fileHandle.getFile();
-      const videoUrl = URL.createObjectURL(file);
-
-      const video = document.createElement('video');
-      video.crossOrigin = 'anonymous';
-      video.muted = true;
-      video.preload = 'metadata';
-
-      video.onloadedmetadata = () => {
-        // Seek to 10s if video > 10s, otherwise use 10% or 2s whichever is smaller
-        const seekTime = duration > 10 ? 10 : Math.min(duration * 0.1, 2);
-        video.currentTime = seekTime;
-      };
-
-      video.onseeked = () => {
-        // Create canvas and draw the frame
-        const canvas = document.createElement('canvas');
-        const aspectRatio = video.videoWidth / video.videoHeight;
-
-        // Set thumbnail size (max 320px width)
-        canvas.width = 320;
-        canvas.height = Math.round(320 / aspectRatio);
-
-        const ctx = canvas.getContext('2d');
-        if (ctx) {
-          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-          const dataUrl = canvas.toDataURL('image/jpeg', 0.7);
-          URL.revokeObjectURL(videoUrl);
-          resolve(dataUrl);
-        } else {
-          URL.revokeObjectURL(videoUrl);
-          resolve('');
-        }
-      };
-
-      video.onerror = () => {
-        URL.revokeObjectURL(videoUrl);
-        resolve('');
-      };
-
-      // Timeout after 10 seconds
-      setTimeout(() => {
-        URL.revokeObjectURL(videoUrl);
-        resolve('');
-      }, 10000);
-
-      video.src = videoUrl;
-      video.load();
-    } catch (error) {
-      console.error('Error generating thumbnail:', error);
-      resolve('');
+// Check if a file or folder is left out of the course: hidden by the manifest or matched by an ignore rule
+const isExcluded = (
+  manifest: CourseManifest | null,
+  rules: IgnoreRule[],
+  path: string,
+  isDirectory: boolean
+): boolean => {
+  return isHiddenByManifest(manifest, path) || isIgnored(rules, path, isDirectory);
+};
+
+// Rules for a folder: its parent's rules followed by its own .localplayignore
+const getFolderRules = async (
+  dirHandle: FileSystemDirectoryHandle,
+  folderPath: string,
+  parentRules: IgnoreRule[]
+): Promise<IgnoreRule[]> => {
+  return [...parentRules, ...await readIgnoreFile(dirHandle, folderPath)];
+};
+
+// Check if a directory should be treated as a lesson/section (not a subtitles folder)
+const isLessonDirectory = (name: string): boolean => {
+  return !isSubtitleFolder(name);
+};
+
+// Default number of video files read at once while scanning
+const DEFAULT_SCAN_CONCURRENCY = 4;
+
+// Shared state for one folder scan
+interface ScanContext {
+  subtitleLookup: SubtitleLookupOptions;
+  filters: ScanFilters;
+  joinVideoParts: boolean;
+  manifest: CourseManifest | null;
+  pool: TaskPool;
+  signal?: AbortSignal;
+  reportVideo: (lessonIndex: number, filename: string) => void;
+  reportExcluded: (path: string) => void;
+}
+
+// Count video files in a lesson folder and its nested sections (directory listing only)
+// Size filters are left to the scan itself, so the count may be slightly high
+const countVideoFiles = async (
+  dirHandle: FileSystemDirectoryHandle,
+  lessonPath: string,
+  manifest: CourseManifest | null,
+  parentRules: IgnoreRule[],
+  signal?: AbortSignal
+): Promise<number> => {
+  const rules = await getFolderRules(dirHandle, lessonPath, parentRules);
+  let count = 0;
+  for await (const entry of dirHandle.values()) {
+    throwIfAborted(signal);
+    const entryPath = joinCoursePath(lessonPath, entry.name);
+    if (isExcluded(manifest, rules, entryPath, entry.kind === 'directory')) continue;
+
+    if (entry.kind === 'file' && isVideoFile(entry.name)) {
+      count++;
+    } else if (entry.kind === 'directory' && isLessonDirectory(entry.name)) {
+      count += await countVideoFiles(await dirHandle.getDirectoryHandle(entry.name), entryPath, manifest, rules, signal);
     }
-  });
+  }
+  return count;
 };
 
-// Find subtitle file for a video in the subtitles folder
-const findSubtitleForVideo = async (
-  parentDirHandle: FileSystemDirectoryHandle,
-  lessonName: string,
-  videoFilename: string
-): Promise<FileSystemFileHandle | undefined> => {
-  try {
-    // Look for a folder named {lessonName}_subtitles
-    const subtitlesFolderName = `${lessonName}_subtitles`;
-    const subtitlesDir = await parentDirHandle.getDirectoryHandle(subtitlesFolderName);
-
-    // Get video name without extension
-    const videoNameWithoutExt = videoFilename.replace(/\.[^/.]+$/, '');
-
-    // Look for matching .srt file
-    for await (const entry of subtitlesDir.values()) {
-      if (entry.kind === 'file' && entry.name.toLowerCase().endsWith('.srt')) {
-        const srtNameWithoutExt = entry.name.replace(/\.srt$/i, '');
-        if (srtNameWithoutExt === videoNameWithoutExt) {
-          return await subtitlesDir.getFileHandle(entry.name);
+// Parse a single video file inside a lesson folder
+// Subtitle tracks are matched from the subtitle files collected for the folder;
+// chapters come from a sidecar file, else from the file's own chapter metadata;
+// title, order and description can be overridden by the course manifest entry
+const parseVideoFile = async (
+  dirHandle: FileSystemDirectoryHandle,
+  filename: string,
+  courseName: string,
+  lessonPath: string,
+  subtitleCandidates: SubtitleCandidate[],
+  subtitleLookup: SubtitleLookupOptions,
+  manifestEntry: ManifestEntry,
+  sidecarChapters: Chapter[] | undefined
+): Promise<Video> => {
+  const fileHandle = await dirHandle.getFileHandle(filename);
+  const file = await fileHandle.getFile();
+
+  // Content fingerprint, used to reattach progress after renames
+  const fingerprint = await tryComputeFingerprint(file);
+
+  // Find subtitle tracks for this video (external files first, then streams inside the file)
+  const subtitleTracks = matchSubtitlesForVideo(
+    subtitleCandidates,
+    filename,
+    subtitleLookup.nameMatching
+  );
+  if (canHaveEmbeddedSubtitles(filename)) {
+    subtitleTracks.push(...await listEmbeddedSubtitles(fileHandle, file));
+  }
+
+  const chapters = sidecarChapters ??
+    (canHaveEmbeddedChapters(filename) ? await readEmbeddedChapters(file) : []);
+
+  return {
+    id: generateVideoId(courseName, lessonPath, filename),
+    path: joinCoursePath(lessonPath, filename),
+    fingerprint,
+    name: manifestEntry.title || cleanName(filename.replace(/\.[^/.]+$/, '')), // Remove extension
+    filename,
+    fileHandle,
+    mediaType: isAudioFile(filename) ? 'audio' : 'video',
+    size: file.size,
+    duration: 0, // Filled in by the background metadata job
+    sortOrder: 0, // Set when the course is sorted
+    order: manifestEntry.order,
+    lastModified: file.lastModified,
+    numberPrefix: extractNumberPrefix(filename),
+    subtitleTracks,
+    description: manifestEntry.description,
+    chapters: chapters.length > 0 ? chapters : undefined,
+  };
+};
+
+// Check if a file is smaller than the minimum size for videos (0 = no limit)
+const isBelowMinSize = async (
+  dirHandle: FileSystemDirectoryHandle,
+  filename: string,
+  minSize: number
+): Promise<boolean> => {
+  if (minSize <= 0) return false;
+  const file = await (await dirHandle.getFileHandle(filename)).getFile();
+  return file.size < minSize;
+};
+
+// Parse all video files of one folder through the scan pool
+// Files below the minimum size are reported as excluded and left out
+const parseVideoFiles = async (
+  dirHandle: FileSystemDirectoryHandle,
+  filenames: string[],
+  courseName: string,
+  lessonPath: string,
+  subtitleCandidates: SubtitleCandidate[],
+  sidecarChapters: Map<string, Chapter[]>,
+  context: ScanContext,
+  lessonIndex: number
+): Promise<Video[]> => {
+  const videos = await Promise.all(filenames.map(filename =>
+    context.pool.run(async (): Promise<Video | null> => {
+      if (await isBelowMinSize(dirHandle, filename, context.filters.minVideoSize)) {
+        context.reportExcluded(joinCoursePath(lessonPath, filename));
+        context.reportVideo(lessonIndex, filename);
+        return null;
+      }
+
+      const video = await parseVideoFile(
+        dirHandle,
+        filename,
+        courseName,
+        lessonPath,
+        subtitleCandidates,
+        context.subtitleLookup,
+        getManifestEntry(context.manifest, joinCoursePath(lessonPath, filename)),
+        sidecarChapters.get(filename)
+      );
+      context.reportVideo(lessonIndex, filename);
+      return video;
+    })
+  ));
+  return videos.filter((video): video is Video => video !== null);
+};
+
+// Read the resource files of a folder and split them between its videos and the folder itself
+const collectResources = async (
+  dirHandle: FileSystemDirectoryHandle,
+  lessonPath: string,
+  resourceFilenames: string[],
+  videoFilenames: string[]
+): Promise<{ lessonResources: Resource[]; videoResources: Map<string, Resource[]> }> => {
+  const resources = await Promise.all(resourceFilenames.map(async filename =>
+    createResource(await dirHandle.getFileHandle(filename), joinCoursePath(lessonPath, filename))
+  ));
+  return assignResources(resources, videoFilenames);
+};
+
+// Read the preferred cover art file of a folder (cover.jpg, folder.jpg, poster.png), if any
+const readFolderCover = async (
+  dirHandle: FileSystemDirectoryHandle,
+  coverFilenames: string[],
+  context: ScanContext
+): Promise<string | undefined> => {
+  const filename = pickCoverArtFile(coverFilenames);
+  if (!filename) return undefined;
+
+  const cover = await context.pool.run(async () => readCoverArt(await dirHandle.getFileHandle(filename)));
+  return cover || undefined;
+};
+
+// Read the chapter sidecar files of a folder ("chapters.txt", "<video>.chapters.vtt", "<video>.txt")
+// Returns the chapters per video filename, and the resource files left once the text files
+// used as chapter lists are taken out (unused chapter-named text files stay resources)
+const readChapterSidecars = async (
+  dirHandle: FileSystemDirectoryHandle,
+  videoFilenames: string[],
+  chapterFilenames: string[],
+  resourceFilenames: string[],
+  context: ScanContext
+): Promise<{ sidecarChapters: Map<string, Chapter[]>; remainingResourceFilenames: string[] }> => {
+  const sidecarChapters = new Map<string, Chapter[]>();
+  const usedFilenames = new Set<string>();
+  const candidateFilenames = [...chapterFilenames, ...resourceFilenames];
+  const byLowerName = new Map(candidateFilenames.map(filename => [filename.toLowerCase(), filename]));
+
+  await Promise.all(videoFilenames.map(async videoFilename => {
+    for (const name of getChapterSidecarNames(videoFilename, videoFilenames.length === 1)) {
+      const filename = byLowerName.get(name.toLowerCase());
+      if (!filename) continue;
+
+      const chapters = await context.pool.run(async () => {
+        try {
+          const file = await (await dirHandle.getFileHandle(filename)).getFile();
+          return parseChapterFile(await file.text(), filename);
+        } catch (err) {
+          console.warn('Could not read chapter file:', filename, err);
+          return [];
         }
+      });
+      if (chapters.length > 0) {
+        sidecarChapters.set(videoFilename, chapters);
+        usedFilenames.add(filename);
+        return;
       }
     }
-  } catch {
-    // Subtitle folder not found or other error - subtitles not available
-  }
-  return undefined;
+  }));
+
+  return {
+    sidecarChapters,
+    remainingResourceFilenames: candidateFilenames.filter(filename =>
+      isResourceFile(filename) && !usedFilenames.has(filename)
+    ),
+  };
+};
+
+// Attach the resources matched to each video
+const attachVideoResources = (videos: Video[], videoResources: Map<string, Resource[]>): Video[] => {
+  return videos.map(video => ({ ...video, resources: videoResources.get(video.filename) || [] }));
 };
 
-// Parse a lesson folder (subfolder containing videos)
+// Join split videos ("03a"/"03b", "Part 1"/"Part 2") into one, if enabled
+// The joined video is named like a single file without the part marker would be.
+const joinPartsIfEnabled = (videos: Video[], lessonPath: string, context: ScanContext): Video[] => {
+  if (!context.joinVideoParts) return videos;
+  return joinVideoParts(videos, (baseName, first) =>
+    getManifestEntry(context.manifest, joinCoursePath(lessonPath, first.filename)).title || cleanName(baseName)
+  );
+};
+
+// Parse a lesson folder (subfolder containing videos and/or nested section folders)
+// lessonPath is the folder path relative to the course root, used for stable IDs
+// lessonIndex is the 1-based index of the top-level lesson, used for progress reporting
 const parseLessonFolder = async (
   dirHandle: FileSystemDirectoryHandle,
   courseName: string,
-  parentDirHandle: FileSystemDirectoryHandle
+  parentDirHandle: FileSystemDirectoryHandle,
+  context: ScanContext,
+  lessonIndex: number,
+  parentRules: IgnoreRule[],
+  parentPath: string = ''
 ): Promise<Lesson> => {
-  const videos: Video[] = [];
+  const lessonPath = parentPath ? `${parentPath}/${dirHandle.name}` : dirHandle.name;
+  const rules = await getFolderRules(dirHandle, lessonPath, parentRules);
+  const videoFilenames: string[] = [];
+  const resourceFilenames: string[] = [];
+  const chapterFilenames: string[] = [];
+  const coverFilenames: string[] = [];
+  const sectionDirHandles: FileSystemDirectoryHandle[] = [];
+
+  // Subtitle files near this folder, matched to each video below
+  const subtitleCandidates = await collectSubtitleCandidates(
+    dirHandle,
+    parentDirHandle,
+    dirHandle.name,
+    context.subtitleLookup
+  );
 
   for await (const entry of dirHandle.values()) {
+    throwIfAborted(context.signal);
+    const entryPath = joinCoursePath(lessonPath, entry.name);
+    if (isExcluded(context.manifest, rules, entryPath, entry.kind === 'directory')) {
+      context.reportExcluded(entryPath);
+      continue;
+    }
+
     if (entry.kind === 'file' && isVideoFile(entry.name)) {
-      const fileHandle = await dirHandle.getFileHandle(entry.name);
-      const file = await fileHandle.getFile();
+      videoFilenames.push(entry.name);
+    } else if (entry.kind === 'file' && isCoverArtFile(entry.name)) {
+      coverFilenames.push(entry.name);
+    } else if (entry.kind === 'file' && isChapterFile(entry.name)) {
+      chapterFilenames.push(entry.name);
+    } else if (entry.kind === 'file' && isResourceFile(entry.name)) {
+      resourceFilenames.push(entry.name);
+    } else if (entry.kind === 'directory' && isLessonDirectory(entry.name)) {
+      sectionDirHandles.push(await dirHandle.getDirectoryHandle(entry.name));
+    }
+  }
 
-      // Get video duration
-      const duration = await getVideoDuration(fileHandle);
+  // Chapter lists for the videos; the other text files are resources
+  const { sidecarChapters, remainingResourceFilenames } = await readChapterSidecars(
+    dirHandle,
+    videoFilenames,
+    chapterFilenames,
+    resourceFilenames,
+    context
+  );
+
+  // Slides, PDFs, exercise files and links, matched to videos by name prefix
+  const { lessonResources, videoResources } = await collectResources(
+    dirHandle,
+    lessonPath,
+    remainingResourceFilenames,
+    videoFilenames
+  );
 
-      // Find subtitle file for this video
-      const subtitleFile = await findSubtitleForVideo(
-        parentDirHandle,
-        dirHandle.name,
-        entry.name
-      );
+  // Videos, nested sections and cover art are read in parallel; the pool bounds the actual file work
+  const [parsedVideos, parsedSections, cover] = await Promise.all([
+    parseVideoFiles(dirHandle, videoFilenames, courseName, lessonPath, subtitleCandidates, sidecarChapters, context, lessonIndex),
+    Promise.all(sectionDirHandles.map(sectionDirHandle =>
+      parseLessonFolder(sectionDirHandle, courseName, dirHandle, context, lessonIndex, rules, lessonPath)
+    )),
+    readFolderCover(dirHandle, coverFilenames, context),
+  ]);
 
-      videos.push({
-        id: generateVideoId(courseName, dirHandle.name, entry.name),
-        name: cleanName(entry.name.replace(/\.[^/.]+$/, '')), // Remove extension
-        filename: entry.name,
-        fileHandle,
-        size: file.size,
-        duration,
-        sortOrder: extractNumber(entry.name),
-        numberPrefix: extractNumberPrefix(entry.name),
-        subtitleFile,
-      });
-    }
-  }
+  const videos = joinPartsIfEnabled(attachVideoResources(parsedVideos, videoResources), lessonPath, context);
 
-  // Sort videos by number prefix
-  videos.sort((a, b) => a.sortOrder - b.sortOrder);
+  // Only keep sections that have videos somewhere below them
+  const sections = parsedSections.filter(section => section.totalVideos > 0);
 
-  // Calculate total duration
-  const totalDuration = videos.reduce((sum, video) => sum + video.duration, 0);
+  // Roll up totals from nested sections
+  const totalVideos = videos.length + sections.reduce((sum, section) => sum + section.totalVideos, 0);
+  const totalDuration =
+    videos.reduce((sum, video) => sum + video.duration, 0) +
+    sections.reduce((sum, section) => sum + section.totalDuration, 0);
 
-  // Generate thumbnail from first video (at 10s if duration > 10s)
-  let thumbnail = '';
-  if (videos.length > 0) {
-    thumbnail = await generateThumbnail(videos[0].fileHandle, videos[0].duration);
-  }
+  const manifestEntry = getManifestEntry(context.manifest, lessonPath);
 
   return {
-    id: generateLessonId(courseName, dirHandle.name),
-    name: cleanName(dirHandle.name),
+    id: generateLessonId(courseName, lessonPath),
+    name: manifestEntry.title || cleanName(dirHandle.name),
     originalName: dirHandle.name,
     videos,
-    totalVideos: videos.length,
+    sections,
+    totalVideos,
     totalDuration,
-    sortOrder: extractNumber(dirHandle.name),
+    sortOrder: 0, // Set when the course is sorted
+    order: manifestEntry.order,
     dirHandle,
     numberPrefix: extractNumberPrefix(dirHandle.name),
-    thumbnail,
+    thumbnail: '', // Filled in by the background metadata job
+    cover,
+    description: manifestEntry.description,
+    resources: lessonResources,
+  };
+};
+
+// Name of the implicit lesson for loose root files when the course also has lesson folders
+const GENERAL_LESSON_NAME = 'General';
+
+// Build the implicit lesson from video files at the course root
+// For a flat folder this is the only lesson and takes the course name; otherwise it is "General"
+const buildRootLesson = async (
+  dirHandle: FileSystemDirectoryHandle,
+  videoFilenames: string[],
+  resourceFilenames: string[],
+  chapterFilenames: string[],
+  cover: string | undefined,
+  isOnlyLesson: boolean,
+  context: ScanContext,
+  lessonIndex: number
+): Promise<Lesson> => {
+  const subtitleCandidates = await collectSubtitleCandidates(
+    dirHandle,
+    dirHandle,
+    dirHandle.name,
+    context.subtitleLookup
+  );
+
+  const { sidecarChapters, remainingResourceFilenames } = await readChapterSidecars(
+    dirHandle,
+    videoFilenames,
+    chapterFilenames,
+    resourceFilenames,
+    context
+  );
+
+  const { lessonResources, videoResources } = await collectResources(
+    dirHandle,
+    ROOT_LESSON_PATH,
+    remainingResourceFilenames,
+    videoFilenames
+  );
+
+  const parsedVideos = await parseVideoFiles(
+    dirHandle,
+    videoFilenames,
+    dirHandle.name,
+    ROOT_LESSON_PATH,
+    subtitleCandidates,
+    sidecarChapters,
+    context,
+    lessonIndex
+  );
+  const videos = joinPartsIfEnabled(attachVideoResources(parsedVideos, videoResources), ROOT_LESSON_PATH, context);
+
+  const totalDuration = videos.reduce((sum, video) => sum + video.duration, 0);
+
+  return {
+    id: generateLessonId(dirHandle.name, ROOT_LESSON_PATH),
+    name: isOnlyLesson ? context.manifest?.title || cleanName(dirHandle.name) : GENERAL_LESSON_NAME,
+    originalName: dirHandle.name,
+    videos,
+    sections: [],
+    totalVideos: videos.length,
+    totalDuration,
+    sortOrder: 0, // Set when the course is sorted
+    order: -1, // Always listed before lesson folders
+    dirHandle,
+    numberPrefix: '',
+    thumbnail: '', // Filled in by the background metadata job
+    cover, // Same artwork as the course
+    resources: lessonResources,
   };
 };
 
-// Parse a course folder structure (3-level hierarchy)
-// Root folder = Course, Subfolders = Lessons, Video files in subfolders = Videos
-export const parseFolderStructure = async (dirHandle: FileSystemDirectoryHandle): Promise<Course> => {
-  const lessons: Lesson[] = [];
-  let totalVideos = 0;
-  let totalDuration = 0;
+// Parse a course folder structure from any course source (File System Access, file list, in memory)
+// Root folder = Course, Subfolders = Lessons, nested subfolders = Sections (any depth),
+// Video files in any lesson or section folder = Videos.
+// Loose video files at the root become an implicit lesson (the only lesson for a flat folder).
+// An optional localplay.json manifest can override titles and order, hide files and add descriptions.
+// Only the structure is read here: durations and thumbnails are left empty (metadataPending)
+// and filled in later by startMetadataFill, so the course can be shown right away.
+// Video files are read in parallel (bounded by options.concurrency); progress is reported
+// after each file, and aborting options.signal cancels the scan with an AbortError.
+export const parseFolderStructure = async (
+  source: CourseSource,
+  options: ScanOptions = {}
+): Promise<Course> => {
+  const { signal, onProgress } = options;
+  const dirHandle = source.root;
+  const rootVideoFilenames: string[] = [];
+  const rootResourceFilenames: string[] = [];
+  const rootCoverFilenames: string[] = [];
+  const rootChapterFilenames: string[] = [];
+  const lessonDirHandles: FileSystemDirectoryHandle[] = [];
+
+  // Optional localplay.json with title/order/description overrides and hidden files
+  const manifest = await readManifest(dirHandle);
+
+  // Global exclude patterns, then the course's own .localplayignore
+  const filters = options.scanFilters || DEFAULT_SCAN_FILTERS;
+  const rules = await getFolderRules(dirHandle, '', parseIgnoreRules(filters.excludePatterns.join('\n')));
 
   // Iterate through directory entries
   for await (const entry of dirHandle.values()) {
-    // Only process subdirectories as lessons (ignore loose video files at root and _subtitles folders)
-    if (entry.kind === 'directory' && !entry.name.endsWith('_subtitles')) {
-      const lessonDirHandle = await dirHandle.getDirectoryHandle(entry.name);
-      const lesson = await parseLessonFolder(lessonDirHandle, dirHandle.name, dirHandle);
-
-      // Only add lessons that have videos
-      if (lesson.videos.length > 0) {
-        lessons.push(lesson);
-        totalVideos += lesson.totalVideos;
-        totalDuration += lesson.totalDuration;
-      }
+    throwIfAborted(signal);
+    if (isExcluded(manifest, rules, entry.name, entry.kind === 'directory')) {
+      options.onExclude?.(entry.name);
+      continue;
+    }
+
+    if (entry.kind === 'file' && isVideoFile(entry.name)) {
+      // Loose video at the root - collected into the implicit lesson below
+      rootVideoFilenames.push(entry.name);
+    } else if (entry.kind === 'file' && isCoverArtFile(entry.name)) {
+      // Course artwork (cover.jpg, folder.jpg, poster.png)
+      rootCoverFilenames.push(entry.name);
+    } else if (entry.kind === 'file' && isChapterFile(entry.name)) {
+      // Chapter list for the loose videos ("chapters.txt", "<video>.chapters.vtt")
+      rootChapterFilenames.push(entry.name);
+    } else if (entry.kind === 'file' && isResourceFile(entry.name)) {
+      // Loose resource at the root - belongs to the implicit lesson, if there is one
+      rootResourceFilenames.push(entry.name);
+    } else if (entry.kind === 'directory' && isLessonDirectory(entry.name)) {
+      // Subdirectories are lessons (ignoring subtitle folders)
+      lessonDirHandles.push(await dirHandle.getDirectoryHandle(entry.name));
     }
   }
 
-  // Sort lessons by number prefix
-  lessons.sort((a, b) => a.sortOrder - b.sortOrder);
+  // Count videos up front so progress can be reported against a fixed total
+  // Lessons without videos (directly or in nested sections) are skipped
+  const lessonCounts = await Promise.all(lessonDirHandles.map(handle =>
+    countVideoFiles(handle, handle.name, manifest, rules, signal)
+  ));
+  const videoLessonDirHandles = lessonDirHandles.filter((_, index) => lessonCounts[index] > 0);
+  const hasRootLesson = rootVideoFilenames.length > 0;
+  const totalLessons = videoLessonDirHandles.length + (hasRootLesson ? 1 : 0);
+  const totalVideos = rootVideoFilenames.length + lessonCounts.reduce((sum, count) => sum + count, 0);
+
+  let videosScanned = 0;
+  const context: ScanContext = {
+    subtitleLookup: options.subtitleLookup || DEFAULT_SUBTITLE_LOOKUP,
+    filters,
+    joinVideoParts: options.joinVideoParts ?? true,
+    manifest,
+    pool: createTaskPool(options.concurrency || DEFAULT_SCAN_CONCURRENCY, signal),
+    signal,
+    reportVideo: (lessonIndex, filename) => {
+      videosScanned++;
+      onProgress?.({ lessonIndex, totalLessons, videosScanned, totalVideos, currentFile: filename });
+    },
+    reportExcluded: path => options.onExclude?.(path),
+  };
 
-  return {
+  onProgress?.({ lessonIndex: 0, totalLessons, videosScanned: 0, totalVideos, currentFile: '' });
+
+  const [parsedLessons, cover] = await Promise.all([
+    Promise.all(videoLessonDirHandles.map((lessonDirHandle, index) =>
+      parseLessonFolder(lessonDirHandle, dirHandle.name, dirHandle, context, index + 1, rules)
+    )),
+    readFolderCover(dirHandle, rootCoverFilenames, context),
+  ]);
+  const lessons = parsedLessons.filter(lesson => lesson.totalVideos > 0);
+
+  if (hasRootLesson) {
+    const rootLesson = await buildRootLesson(
+      dirHandle,
+      rootVideoFilenames,
+      rootResourceFilenames,
+      rootChapterFilenames,
+      cover,
+      lessons.length === 0,
+      context,
+      totalLessons
+    );
+    // All loose files may have been left out by the size filter
+    if (rootLesson.totalVideos > 0) {
+      lessons.push(rootLesson);
+    }
+  }
+
+  // Lessons, sections and videos in natural order (a course's own sort mode is applied on rescan)
+  return sortCourse({
     id: generateCourseId(dirHandle.name),
-    title: cleanName(dirHandle.name),
+    title: manifest?.title || cleanName(dirHandle.name),
     originalName: dirHandle.name,
     lessons,
     totalLessons: lessons.length,
-    totalVideos,
-    totalDuration,
+    totalVideos: lessons.reduce((sum, lesson) => sum + lesson.totalVideos, 0),
+    totalDuration: lessons.reduce((sum, lesson) => sum + lesson.totalDuration, 0),
     dirHandle,
-  };
+    metadataPending: true,
+    description: manifest?.description,
+    cover,
+    sourceKind: source.kind,
+  });
 };
 
 // Get video URL from file handle
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { countNewVideos, formatNewVideos } from './folderWatcher';
+import { parseFolderStructure } from './folderParser';
+import { createMemorySource } from './courseSource';
+import { mergeRescannedCourse } from './rescan';
+
+describe('countNewVideos', () => {
+  it('counts the new videos of a course and of each lesson', async () => {
+    const stored = await parseFolderStructure(createMemorySource('Course', {
+      '01 Basics/01 Intro.mp4': 'intro',
+      '02 Advanced/01 Deploy.mp4': 'deploy',
+    }));
+    const scanned = await parseFolderStructure(createMemorySource('Course', {
+      '01 Basics/01 Intro.mp4': 'intro',
+      '01 Basics/02 Setup.mp4': 'setup',
+      '02 Advanced/01 Deploy.mp4': 'deploy',
+      '02 Advanced/02 Scale.mp4': 'scale',
+      '02 Advanced/03 Monitor.mp4': 'monitor',
+    }));
+
+    const { course, addedVideoIds } = mergeRescannedCourse(stored, scanned);
+    const watched = { ...course, newVideoIds: addedVideoIds };
+
+    expect(countNewVideos(watched)).toBe(3);
+    expect(countNewVideos(watched, watched.lessons[0])).toBe(1);
+    expect(countNewVideos(watched, watched.lessons[1])).toBe(2);
+    expect(countNewVideos(course)).toBe(0);
+  });
+
+  it('leaves out new videos that went missing again', async () => {
+    const course = await parseFolderStructure(createMemorySource('Course', {
+      '01 Basics/01 Intro.mp4': 'intro',
+    }));
+    const video = course.lessons[0].videos[0];
+    video.missing = true;
+
+    expect(countNewVideos({ ...course, newVideoIds: [video.id] })).toBe(0);
+  });
+});
+
+describe('formatNewVideos', () => {
+  it('pluralizes the count', () => {
+    expect(formatNewVideos(1)).toBe('1 new video');
+    expect(formatNewVideos(4)).toBe('4 new videos');
+  });
+});
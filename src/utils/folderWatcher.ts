@@ -0,0 +1,256 @@
+import { parseFolderStructure, isVideoFile } from './folderParser';
+import { createFileSystemAccessSource } from './courseSource';
+import { mergeRescannedCourse } from './rescan';
+import { reattachProgress } from './fingerprint';
+import { startMetadataFill, notifyCourseUpdated } from './videoMetadata';
+import { getAllVideos, getAllVideosInLessons } from './courseTree';
+import { isSessionCourse } from './sessionCourses';
+import { getAllCourses, updateCourse, getFolderHandle, saveFolderHandle, getPreferences } from './storage';
+import type { Course, Lesson, FileSystemDirectoryHandle, FileSystemObserver } from '../types';
+
+// Folder watcher
+// Opt-in (Settings → Scanning): checks the stored course folders for added, removed or renamed
+// files and updates the courses in the background, flagging new videos until their lesson is
+// opened. Folders are checked when the app gains focus, and either when the browser reports a
+// change (FileSystemObserver) or on an interval. A check only lists the folder; the course is
+// rescanned when the listing changed.
+
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+const FOCUS_CHECK_INTERVAL_MS = 30 * 1000;  // Minimum time between checks when the app gains focus
+const OBSERVER_DELAY_MS = 2000;             // Let a copy into the folder settle before rescanning
+
+// Listing of each course folder at its last check in this session
+const listings = new Map<string, string>();
+
+let stopWatcher: (() => void) | null = null;
+
+// Incremented whenever the watcher starts or stops, so checks queued by an earlier watcher end
+let generation = 0;
+
+// Checks run one at a time, in the order they were requested
+let checkQueue: Promise<void> = Promise.resolve();
+
+// Paths of every file and folder inside a course folder (folders end with "/")
+const listFolder = async (dirHandle: FileSystemDirectoryHandle, parentPath = ''): Promise<string[]> => {
+  const paths: string[] = [];
+  for await (const entry of dirHandle.values()) {
+    const path = parentPath ? `${parentPath}/${entry.name}` : entry.name;
+    if (entry.kind === 'directory') {
+      paths.push(`${path}/`, ...await listFolder(entry, path));
+    } else {
+      paths.push(path);
+    }
+  }
+  return paths.sort();
+};
+
+// Paths of the files a course plays (every part of joined videos); missing videos are left out
+const getPresentVideoPaths = (course: Course): string[] => {
+  return getAllVideosInLessons(course.lessons)
+    .filter(video => !video.missing)
+    .flatMap(video => video.parts ? video.parts.map(part => part.path) : [video.path])
+    .filter((path): path is string => !!path);
+};
+
+// Check if a course folder needs a rescan
+// Within a session, any change to the listing counts. The first check of a session compares
+// the media files on disk with the stored course, to pick up changes made while the app was closed.
+const needsRescan = (course: Course, paths: string[], listing: string): boolean => {
+  const previous = listings.get(course.id);
+  if (previous !== undefined) return previous !== listing;
+
+  const presentPaths = getPresentVideoPaths(course);
+  const known = new Set(presentPaths);
+  const listed = new Set(paths);
+  return paths.some(path => isVideoFile(path) && !known.has(path)) || presentPaths.some(path => !listed.has(path));
+};
+
+// What the watcher compares to tell whether a rescan changed a course
+const getVideoSummary = (course: Course): string => {
+  return getAllVideosInLessons(course.lessons)
+    .map(video => `${video.id}${video.missing ? ' (missing)' : ''}`)
+    .sort()
+    .join('\n');
+};
+
+// Check one course folder, and rescan and save the course if files were added, removed or renamed
+const checkCourse = async (course: Course): Promise<void> => {
+  // Picked files are a snapshot; they have no folder to watch
+  if (isSessionCourse(course)) return;
+
+  const dirHandle = (await getFolderHandle(course.id))?.handle || course.dirHandle;
+
+  // Never prompt from a background check; the folder is checked again once access is granted
+  if (await dirHandle.queryPermission({ mode: 'read' }) !== 'granted') return;
+
+  const paths = await listFolder(dirHandle);
+  const listing = paths.join('\n');
+  if (!needsRescan(course, paths, listing)) {
+    listings.set(course.id, listing);
+    return;
+  }
+
+  const preferences = await getPreferences();
+  const excludedPaths: string[] = [];
+  const source = createFileSystemAccessSource(dirHandle);
+  const scanned = await parseFolderStructure(source, {
+    subtitleLookup: preferences.subtitleLookup,
+    scanFilters: preferences.scanFilters,
+    joinVideoParts: preferences.joinVideoParts,
+    onExclude: path => excludedPaths.push(path),
+  });
+
+  listings.set(course.id, listing);
+
+  // Merge into the latest stored copy in one transaction, so durations and thumbnails the metadata
+  // job saves meanwhile aren't overwritten
+  let isChanged = false;
+  const updated = await updateCourse(course.id, stored => {
+    const result = mergeRescannedCourse(stored, scanned, excludedPaths);
+    if (getVideoSummary(result.course) === getVideoSummary(stored)) return stored;
+
+    isChanged = true;
+    const videoIds = new Set(getAllVideosInLessons(result.course.lessons).map(video => video.id));
+    const newVideoIds = [...new Set([...(stored.newVideoIds || []), ...result.addedVideoIds])];
+    return {
+      ...result.course,
+      newVideoIds: newVideoIds.filter(id => videoIds.has(id)),
+    };
+  });
+  if (!updated || !isChanged) return;  // Removed during the scan, or nothing changed
+  notifyCourseUpdated(updated);
+
+  // Videos renamed or moved within the folder keep their progress
+  await reattachProgress(updated, await getAllCourses());
+
+  await saveFolderHandle(course.id, dirHandle, {
+    title: updated.title,
+    totalLessons: updated.totalLessons,
+    totalVideos: updated.totalVideos,
+  });
+  startMetadataFill(updated, source.probe);
+};
+
+// Queue a check of the stored courses (all, or those matching a filter)
+const checkCourses = (filter: (course: Course) => boolean = () => true): Promise<void> => {
+  const queuedGeneration = generation;
+  checkQueue = checkQueue.then(async () => {
+    const courses = (await getAllCourses()).filter(filter);
+    for (const course of courses) {
+      if (generation !== queuedGeneration) return;  // Watcher stopped (or restarted)
+
+      try {
+        await checkCourse(course);
+      } catch (err) {
+        console.warn('Could not check course folder:', course.title, err);
+      }
+    }
+  });
+  return checkQueue;
+};
+
+// Observe the folders of courses that aren't observed yet
+// Folders without access can't be observed; they are tried again on the next check.
+const observeCourses = async (
+  observers: Map<string, FileSystemObserver>,
+  onChange: (courseId: string) => void
+): Promise<void> => {
+  const Observer = window.FileSystemObserver;
+  if (!Observer) return;
+
+  const startGeneration = generation;
+  for (const course of await getAllCourses()) {
+    if (observers.has(course.id) || isSessionCourse(course)) continue;
+
+    const dirHandle = (await getFolderHandle(course.id))?.handle || course.dirHandle;
+    const observer = new Observer(() => onChange(course.id));
+    try {
+      await observer.observe(dirHandle, { recursive: true });
+    } catch {
+      observer.disconnect();
+      continue;
+    }
+
+    // The watcher stopped while the folder was being observed
+    if (generation !== startGeneration) {
+      observer.disconnect();
+      return;
+    }
+    observers.set(course.id, observer);
+  }
+};
+
+// Start watching the stored course folders (the first check runs right away)
+export const startFolderWatcher = (): void => {
+  if (stopWatcher) return;
+  generation++;
+
+  const observers = new Map<string, FileSystemObserver>();
+  const changeTimers = new Map<string, number>();
+  let lastFocusCheck = 0;
+
+  // A change is reported for every file of a copy; check once the copy has settled
+  const handleChange = (courseId: string): void => {
+    window.clearTimeout(changeTimers.get(courseId));
+    changeTimers.set(courseId, window.setTimeout(() => {
+      changeTimers.delete(courseId);
+      checkCourses(course => course.id === courseId);
+    }, OBSERVER_DELAY_MS));
+  };
+
+  const checkAll = (): void => {
+    observeCourses(observers, handleChange).catch(err => console.warn('Could not observe course folders:', err));
+    checkCourses();
+  };
+
+  const handleFocus = (): void => {
+    if (Date.now() - lastFocusCheck < FOCUS_CHECK_INTERVAL_MS) return;
+    lastFocusCheck = Date.now();
+    checkAll();
+  };
+
+  window.addEventListener('focus', handleFocus);
+  const interval = window.FileSystemObserver ? undefined : window.setInterval(checkAll, CHECK_INTERVAL_MS);
+
+  stopWatcher = () => {
+    window.removeEventListener('focus', handleFocus);
+    window.clearInterval(interval);
+    changeTimers.forEach(timer => window.clearTimeout(timer));
+    observers.forEach(observer => observer.disconnect());
+  };
+
+  handleFocus();
+};
+
+export const stopFolderWatcher = (): void => {
+  if (!stopWatcher) return;
+  generation++;
+  stopWatcher();
+  stopWatcher = null;
+};
+
+// Number of new videos the watcher found in a course, or in one of its lessons
+export const countNewVideos = (course: Course, lesson?: Lesson): number => {
+  if (!course.newVideoIds?.length) return 0;
+
+  const newVideoIds = new Set(course.newVideoIds);
+  const videos = lesson ? getAllVideos(lesson) : getAllVideosInLessons(course.lessons);
+  return videos.filter(video => newVideoIds.has(video.id) && !video.missing).length;
+};
+
+export const formatNewVideos = (count: number): string => `${count} new video${count === 1 ? '' : 's'}`;
+
+// Clear the new flag of videos (when their lesson is opened); returns the updated course
+export const clearNewVideos = async (courseId: string, videoIds: string[]): Promise<Course | null> => {
+  let isCleared = false;
+  const updated = await updateCourse(courseId, course => {
+    if (!course.newVideoIds?.some(id => videoIds.includes(id))) return course;
+
+    isCleared = true;
+    return { ...course, newVideoIds: course.newVideoIds.filter(id => !videoIds.includes(id)) };
+  });
+  if (!updated || !isCleared) return null;
+
+  notifyCourseUpdated(updated);
+  return updated;
+};
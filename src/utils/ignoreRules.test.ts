@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { parseIgnoreRules, isIgnored, isInExcludedPath, DEFAULT_SCAN_FILTERS } from './ignoreRules';
+
+describe('isIgnored', () => {
+  it('matches unanchored patterns at any depth', () => {
+    const rules = parseIgnoreRules('*.tmp\n# a comment\n\nraw/');
+    expect(isIgnored(rules, 'clip.tmp', false)).toBe(true);
+    expect(isIgnored(rules, 'Lesson/clip.TMP', false)).toBe(true);
+    expect(isIgnored(rules, 'Lesson/raw', true)).toBe(true);
+    expect(isIgnored(rules, 'Lesson/raw', false)).toBe(false);
+    expect(isIgnored(rules, 'Lesson/clip.mp4', false)).toBe(false);
+  });
+
+  it('anchors patterns containing a slash to their folder', () => {
+    const rules = parseIgnoreRules('/extras\ndrafts/*.mp4', 'Lesson');
+    expect(isIgnored(rules, 'Lesson/extras', true)).toBe(true);
+    expect(isIgnored(rules, 'Lesson/sub/extras', true)).toBe(false);
+    expect(isIgnored(rules, 'Lesson/drafts/a.mp4', false)).toBe(true);
+    expect(isIgnored(rules, 'Other/drafts/a.mp4', false)).toBe(false);
+  });
+
+  it('spans folders with double stars', () => {
+    const rules = parseIgnoreRules('**/old/**');
+    expect(isIgnored(rules, 'old/a.mp4', false)).toBe(true);
+    expect(isIgnored(rules, 'Lesson/old/deep/a.mp4', false)).toBe(true);
+  });
+
+  it('lets later negated rules include files again', () => {
+    const rules = [...parseIgnoreRules('*-sample.mp4'), ...parseIgnoreRules('!keep-sample.mp4', 'Lesson')];
+    expect(isIgnored(rules, 'Lesson/keep-sample.mp4', false)).toBe(false);
+    expect(isIgnored(rules, 'Lesson/drop-sample.mp4', false)).toBe(true);
+    expect(isIgnored(rules, 'Other/keep-sample.mp4', false)).toBe(true);
+  });
+
+  it('excludes system junk by default', () => {
+    const rules = parseIgnoreRules(DEFAULT_SCAN_FILTERS.excludePatterns.join('\n'));
+    expect(isIgnored(rules, 'Lesson/._01 Intro.mp4', false)).toBe(true);
+    expect(isIgnored(rules, '__MACOSX', true)).toBe(true);
+    expect(isIgnored(rules, '.git', true)).toBe(true);
+    expect(isIgnored(rules, 'Lesson/01 Intro.mp4', false)).toBe(false);
+  });
+});
+
+describe('isInExcludedPath', () => {
+  it('matches the path itself and everything inside it', () => {
+    expect(isInExcludedPath('raw', ['raw'])).toBe(true);
+    expect(isInExcludedPath('raw/take1.mp4', ['raw'])).toBe(true);
+    expect(isInExcludedPath('rawfootage/take1.mp4', ['raw'])).toBe(false);
+  });
+});
@@ -0,0 +1,125 @@
+import type { ScanFilters, FileSystemDirectoryHandle } from '../types';
+
+// Name of the optional ignore file in a course, lesson or section folder
+export const IGNORE_FILENAME = '.localplayignore';
+
+// Default exclusions: macOS resource forks, hidden folders and system junk folders
+export const DEFAULT_SCAN_FILTERS: ScanFilters = {
+  excludePatterns: ['._*', '.*/', '__MACOSX/', '$RECYCLE.BIN/', 'System Volume Information/'],
+  minVideoSize: 0,
+};
+
+// One line of an ignore file, compiled
+export interface IgnoreRule {
+  basePath: string;    // Folder the rule was read from, relative to the course folder ('' for the root)
+  pattern: RegExp;     // Matched against the path relative to basePath
+  negate: boolean;     // "!pattern" includes again what an earlier rule excluded
+  directoryOnly: boolean;  // "pattern/" only matches folders
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Translate a gitignore glob into a regular expression source
+// "*" and "?" stay within one path segment, "**" spans segments, "[abc]" is a character class.
+const globToRegExpSource = (glob: string): string => {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*' && glob[i + 1] === '*') {
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';  // "**/": any number of folders, including none
+        i += 2;
+      } else {
+        source += '.*';        // "/**" at the end: everything inside
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && glob.indexOf(']', i + 2) !== -1) {
+      const end = glob.indexOf(']', i + 2);
+      const members = glob.slice(i + 1, end);
+      source += `[${members[0] === '!' ? '^' + members.slice(1) : members}]`;
+      i = end;
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += escapeRegExp(glob[++i]);
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return source;
+};
+
+// Compile one ignore file line; null for blank lines and comments
+// Patterns containing a slash (other than a trailing one) are anchored to basePath;
+// others match a name at any depth. Matching ignores case, like the usual course file systems.
+const compileRule = (line: string, basePath: string): IgnoreRule | null => {
+  let text = line.replace(/(?<!\\)\s+$/, '');
+  if (!text || text.startsWith('#')) return null;
+
+  const negate = text.startsWith('!');
+  if (negate) text = text.slice(1);
+
+  const directoryOnly = text.endsWith('/');
+  if (directoryOnly) text = text.replace(/\/+$/, '');
+  if (!text) return null;
+
+  const isAnchored = text.includes('/');
+  text = text.replace(/^\//, '');
+
+  const source = globToRegExpSource(text);
+  return {
+    basePath,
+    pattern: new RegExp(isAnchored ? `^${source}$` : `^(?:.*/)?${source}$`, 'i'),
+    negate,
+    directoryOnly,
+  };
+};
+
+// Parse the lines of an ignore file (or the global exclude patterns) into rules
+export const parseIgnoreRules = (content: string, basePath = ''): IgnoreRule[] => {
+  return content
+    .split(/\r?\n/)
+    .map(line => compileRule(line, basePath))
+    .filter((rule): rule is IgnoreRule => rule !== null);
+};
+
+// Read the ignore file of a folder; a folder without one adds no rules
+export const readIgnoreFile = async (
+  dirHandle: FileSystemDirectoryHandle,
+  basePath: string
+): Promise<IgnoreRule[]> => {
+  try {
+    const fileHandle = await dirHandle.getFileHandle(IGNORE_FILENAME);
+    return parseIgnoreRules(await (await fileHandle.getFile()).text(), basePath);
+  } catch {
+    return [];
+  }
+};
+
+// Check if a path relative to the course folder is excluded by a list of rules
+// Later rules win, so a folder's own ignore file can override its parents and the global patterns.
+export const isIgnored = (rules: IgnoreRule[], path: string, isDirectory: boolean): boolean => {
+  let ignored = false;
+
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    if (rule.basePath && !path.startsWith(`${rule.basePath}/`)) continue;
+
+    const relativePath = rule.basePath ? path.slice(rule.basePath.length + 1) : path;
+    if (rule.pattern.test(relativePath)) {
+      ignored = !rule.negate;
+    }
+  }
+
+  return ignored;
+};
+
+// Check if a path lies inside (or is) one of a list of excluded paths
+export const isInExcludedPath = (path: string, excludedPaths: string[]): boolean => {
+  return excludedPaths.some(excluded => path === excluded || path.startsWith(`${excluded}/`));
+};
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { listCourseFolders, formatImportSummary } from './libraryImport';
+import { createMemorySource } from './courseSource';
+import { DEFAULT_SCAN_FILTERS } from './ignoreRules';
+import type { ImportQueueItem, ImportStatus } from '../types';
+
+const createItems = (...statuses: ImportStatus[]): ImportQueueItem[] => {
+  return statuses.map((status, index) => ({ id: index + 1, name: `Course ${index + 1}`, status }));
+};
+
+describe('listCourseFolders', () => {
+  it('lists the child folders in natural order, leaving out excluded folders and loose files', async () => {
+    const library = createMemorySource('Courses', {
+      'Course 10/01 Intro.mp4': '',
+      'Course 2/01 Intro.mp4': '',
+      '.trash/01 Intro.mp4': '',
+      '__MACOSX/Course 2/01 Intro.mp4': '',
+      'Old/01 Intro.mp4': '',
+      'readme.txt': '',
+    });
+
+    const folders = await listCourseFolders(library.root, [...DEFAULT_SCAN_FILTERS.excludePatterns, 'Old/']);
+    expect(folders.map(folder => folder.name)).toEqual(['Course 2', 'Course 10']);
+  });
+});
+
+describe('formatImportSummary', () => {
+  it('counts the folder being imported among the folders to import', () => {
+    expect(formatImportSummary(createItems('imported', 'importing', 'queued', 'skipped'))).toBe('Importing 2 of 3 folders');
+  });
+
+  it('sums up a finished import', () => {
+    expect(formatImportSummary(createItems('imported', 'imported', 'skipped', 'failed'))).toBe('4 folders: 2 added, 1 skipped, 1 failed');
+    expect(formatImportSummary(createItems('imported'))).toBe('1 folder: 1 added');
+  });
+});
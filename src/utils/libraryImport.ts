@@ -0,0 +1,40 @@
+import { parseIgnoreRules, isIgnored } from './ignoreRules';
+import { compareNatural } from './sortOrder';
+import type { FileSystemDirectoryHandle, ImportQueueItem } from '../types';
+
+// List the course folders of a library folder (every child folder is a course)
+// Folders matched by the global exclude patterns (hidden and system folders by default) are left out;
+// files directly in the library folder are ignored.
+export const listCourseFolders = async (
+  libraryHandle: FileSystemDirectoryHandle,
+  excludePatterns: string[]
+): Promise<FileSystemDirectoryHandle[]> => {
+  const rules = parseIgnoreRules(excludePatterns.join('\n'));
+  const folders: FileSystemDirectoryHandle[] = [];
+
+  for await (const entry of libraryHandle.values()) {
+    if (entry.kind === 'directory' && !isIgnored(rules, entry.name, true)) {
+      folders.push(entry);
+    }
+  }
+
+  return folders.sort((a, b) => compareNatural(a.name, b.name));
+};
+
+const pluralize = (count: number, word: string): string => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// Summary of an import queue ("Importing 3 of 20 folders" or "20 folders: 15 added, 3 skipped, 2 failed")
+export const formatImportSummary = (items: ImportQueueItem[]): string => {
+  const count = (status: ImportQueueItem['status']): number => items.filter(item => item.status === status).length;
+  const pending = count('queued') + count('importing');
+
+  if (pending > 0) {
+    const toImport = items.length - count('skipped');
+    return `Importing ${toImport - pending + 1} of ${pluralize(toImport, 'folder')}`;
+  }
+
+  const parts = [`${count('imported')} added`];
+  if (count('skipped') > 0) parts.push(`${count('skipped')} skipped`);
+  if (count('failed') > 0) parts.push(`${count('failed')} failed`);
+  return `${pluralize(items.length, 'folder')}: ${parts.join(', ')}`;
+};
@@ -0,0 +1,74 @@
+import type { CourseManifest, ManifestEntry, FileSystemDirectoryHandle } from '../types';
+
+// Name of the optional manifest file in a course folder
+export const MANIFEST_FILENAME = 'localplay.json';
+
+// Normalize a manifest path key ("01 Intro\\Part A/" -> "01 Intro/Part A")
+const normalizePath = (path: string): string => {
+  return path
+    .replace(/\\/g, '/')
+    .replace(/^\.\//, '')
+    .replace(/\/+$/, '');
+};
+
+// Keep only the fields we understand, with the right types
+const normalizeEntry = (value: unknown): ManifestEntry => {
+  const entry: ManifestEntry = {};
+  if (typeof value !== 'object' || value === null) return entry;
+
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.title === 'string' && raw.title.trim()) entry.title = raw.title.trim();
+  if (typeof raw.description === 'string' && raw.description.trim()) entry.description = raw.description.trim();
+  if (typeof raw.order === 'number' && Number.isFinite(raw.order)) entry.order = raw.order;
+  if (typeof raw.hidden === 'boolean') entry.hidden = raw.hidden;
+  return entry;
+};
+
+// Validate parsed JSON into a manifest
+const normalizeManifest = (data: unknown): CourseManifest => {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('Manifest must be a JSON object');
+  }
+
+  const raw = data as Record<string, unknown>;
+  const { title, description } = normalizeEntry(raw);
+  const entries: Record<string, ManifestEntry> = {};
+
+  if (typeof raw.entries === 'object' && raw.entries !== null) {
+    Object.entries(raw.entries as Record<string, unknown>).forEach(([path, value]) => {
+      entries[normalizePath(path)] = normalizeEntry(value);
+    });
+  }
+
+  return { title, description, entries };
+};
+
+// Read the manifest from a course folder
+// Returns null if there is no manifest; an invalid manifest is logged and ignored
+export const readManifest = async (dirHandle: FileSystemDirectoryHandle): Promise<CourseManifest | null> => {
+  let text: string;
+  try {
+    const fileHandle = await dirHandle.getFileHandle(MANIFEST_FILENAME);
+    text = await (await fileHandle.getFile()).text();
+  } catch {
+    // No manifest in this folder
+    return null;
+  }
+
+  try {
+    return normalizeManifest(JSON.parse(text));
+  } catch (err) {
+    console.warn(`Ignoring invalid ${MANIFEST_FILENAME}:`, err);
+    return null;
+  }
+};
+
+// Get the overrides for a path relative to the course folder (empty if none)
+export const getManifestEntry = (manifest: CourseManifest | null, path: string): ManifestEntry => {
+  return manifest?.entries?.[path] || {};
+};
+
+// Check if the manifest hides a file or folder
+export const isHiddenByManifest = (manifest: CourseManifest | null, path: string): boolean => {
+  return getManifestEntry(manifest, path).hidden === true;
+};
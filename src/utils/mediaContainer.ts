@@ -0,0 +1,320 @@
+// Low-level readers for Matroska (MKV, WebM) and MP4 (MP4, M4V, MOV) files
+// Shared by the embedded subtitle and chapter readers. Files are read in chunks through
+// a ByteReader, so only the parts that are needed are loaded.
+
+export const MATROSKA_EXTENSIONS = ['.mkv', '.webm'];
+export const MP4_EXTENSIONS = ['.mp4', '.m4v', '.mov'];
+
+// Bytes read at once; element and box headers are served from this window
+const CHUNK_SIZE = 1024 * 1024;
+
+export interface ByteReader {
+  size: number;
+  read: (offset: number, length: number) => Promise<Uint8Array>;  // May return less at the end of the file
+}
+
+export const createByteReader = (file: Blob): ByteReader => {
+  let chunkStart = 0;
+  let chunk = new Uint8Array(0);
+
+  const read = async (offset: number, length: number): Promise<Uint8Array> => {
+    if (offset >= chunkStart && offset + length <= chunkStart + chunk.length) {
+      return chunk.subarray(offset - chunkStart, offset - chunkStart + length);
+    }
+    if (length > CHUNK_SIZE) {
+      return new Uint8Array(await file.slice(offset, offset + length).arrayBuffer());
+    }
+    chunkStart = offset;
+    chunk = new Uint8Array(await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer());
+    return chunk.subarray(0, length);
+  };
+
+  return { size: file.size, read };
+};
+
+export const getExtension = (filename: string): string => {
+  return filename.toLowerCase().slice(filename.lastIndexOf('.'));
+};
+
+// Big-endian unsigned integer of up to 8 bytes (exact up to 2^53)
+export const readUint = (bytes: Uint8Array, start = 0, length = bytes.length - start): number => {
+  let value = 0;
+  for (let i = start; i < start + length; i++) {
+    value = value * 256 + bytes[i];
+  }
+  return value;
+};
+
+export const readAscii = (bytes: Uint8Array, start: number, length: number): string => {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+};
+
+export const decodeText = (bytes: Uint8Array): string => {
+  return new TextDecoder().decode(bytes).replace(/\0+$/, '');
+};
+
+// Matroska
+// EBML elements: variable-length ID, variable-length size, data.
+
+export interface EbmlElement {
+  id: number;
+  dataStart: number;
+  dataEnd: number;
+}
+
+const EBML_HEADER_ID = 0x1a45dfa3;
+const SEGMENT_ID = 0x18538067;
+
+// Length of a variable-length integer from its first byte (0 if invalid)
+export const getVintLength = (firstByte: number): number => {
+  return firstByte === 0 ? 0 : Math.clz32(firstByte) - 23;
+};
+
+// Elements of unknown size (live-muxed files) are taken to run to the end of their parent
+export const readEbmlElement = async (reader: ByteReader, offset: number, parentEnd: number): Promise<EbmlElement | null> => {
+  const bytes = await reader.read(offset, 12);
+  const idLength = getVintLength(bytes[0]);
+  if (idLength === 0 || idLength > 4 || bytes.length < idLength + 1) return null;
+
+  const sizeLength = getVintLength(bytes[idLength]);
+  if (sizeLength === 0 || bytes.length < idLength + sizeLength) return null;
+
+  // Size without its length marker; all value bits set means unknown size
+  let size = bytes[idLength] & (0xff >> sizeLength);
+  let isUnknown = size === 0xff >> sizeLength;
+  for (let i = 1; i < sizeLength; i++) {
+    size = size * 256 + bytes[idLength + i];
+    isUnknown = isUnknown && bytes[idLength + i] === 0xff;
+  }
+
+  const dataStart = offset + idLength + sizeLength;
+  return {
+    id: readUint(bytes, 0, idLength),
+    dataStart,
+    dataEnd: isUnknown ? parentEnd : Math.min(dataStart + size, parentEnd),
+  };
+};
+
+export const readElementData = (reader: ByteReader, element: EbmlElement): Promise<Uint8Array> => {
+  return reader.read(element.dataStart, element.dataEnd - element.dataStart);
+};
+
+// Read the child elements of a range one after another
+export const readChildElements = async (
+  reader: ByteReader,
+  start: number,
+  end: number,
+  onElement: (element: EbmlElement) => Promise<void>
+): Promise<void> => {
+  let offset = start;
+  while (offset < end) {
+    const element = await readEbmlElement(reader, offset, end);
+    if (!element) return;
+    await onElement(element);
+    offset = element.dataEnd;
+  }
+};
+
+// Find the Segment element that holds everything after the EBML header
+export const findMatroskaSegment = async (reader: ByteReader): Promise<EbmlElement | null> => {
+  const header = await readEbmlElement(reader, 0, reader.size);
+  if (!header || header.id !== EBML_HEADER_ID) return null;
+
+  const segment = await readEbmlElement(reader, header.dataEnd, reader.size);
+  return segment?.id === SEGMENT_ID ? segment : null;
+};
+
+// MP4
+// Boxes: 32-bit size (1 = 64-bit size follows, 0 = to the end of the parent), 4-char type, data.
+
+export interface Mp4Box {
+  type: string;
+  dataStart: number;
+  dataEnd: number;
+}
+
+// A track of the movie, with the details needed to read its samples
+export interface Mp4Track {
+  trackId: number;
+  handler: string;      // e.g. 'vide', 'soun', 'sbtl', 'text'
+  format: string;       // Sample format of the first sample description, e.g. 'avc1', 'tx3g'
+  timescale: number;    // Time units per second
+  language: string;     // ISO 639-2/T code, 'und' if unset
+  chapterTrackIds: number[];  // Tracks this one references as its chapter list ('chap')
+  stbl: Mp4Box;
+}
+
+// A sample's time and duration (in the track's timescale) and data
+export interface Mp4Sample {
+  time: number;
+  duration: number;
+  data: Uint8Array;
+}
+
+export const readMp4Box = async (reader: ByteReader, offset: number, parentEnd: number): Promise<Mp4Box | null> => {
+  const header = await reader.read(offset, 16);
+  if (header.length < 8) return null;
+
+  let size = readUint(header, 0, 4);
+  let headerLength = 8;
+  if (size === 1) {
+    size = readUint(header, 8, 8);
+    headerLength = 16;
+  } else if (size === 0) {
+    size = parentEnd - offset;
+  }
+  if (size < headerLength) return null;
+
+  return {
+    type: readAscii(header, 4, 4),
+    dataStart: offset + headerLength,
+    dataEnd: Math.min(offset + size, parentEnd),
+  };
+};
+
+// Child boxes of a range with the given type
+export const findMp4Boxes = async (reader: ByteReader, start: number, end: number, type: string): Promise<Mp4Box[]> => {
+  const boxes: Mp4Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    const box = await readMp4Box(reader, offset, end);
+    if (!box) break;
+    if (box.type === type) boxes.push(box);
+    offset = box.dataEnd;
+  }
+  return boxes;
+};
+
+// Follow a path of box types below a box, e.g. ['mdia', 'minf', 'stbl']
+export const findMp4Box = async (reader: ByteReader, parent: Mp4Box, path: string[]): Promise<Mp4Box | null> => {
+  let box: Mp4Box | null = parent;
+  for (const type of path) {
+    box = (await findMp4Boxes(reader, box.dataStart, box.dataEnd, type))[0] ?? null;
+    if (!box) return null;
+  }
+  return box;
+};
+
+export const readBoxData = (reader: ByteReader, box: Mp4Box): Promise<Uint8Array> => {
+  return reader.read(box.dataStart, box.dataEnd - box.dataStart);
+};
+
+// The movie box (it may sit after the media data)
+export const findMp4Moov = async (reader: ByteReader): Promise<Mp4Box | null> => {
+  return (await findMp4Boxes(reader, 0, reader.size, 'moov'))[0] ?? null;
+};
+
+// Packed ISO 639-2/T language code: three 5-bit letters offset by 0x60
+const decodeMp4Language = (packed: number): string => {
+  return String.fromCharCode(
+    ((packed >> 10) & 0x1f) + 0x60,
+    ((packed >> 5) & 0x1f) + 0x60,
+    (packed & 0x1f) + 0x60
+  );
+};
+
+const readMp4Track = async (reader: ByteReader, trak: Mp4Box): Promise<Mp4Track | null> => {
+  const tkhd = await findMp4Box(reader, trak, ['tkhd']);
+  const mdhd = await findMp4Box(reader, trak, ['mdia', 'mdhd']);
+  const hdlr = await findMp4Box(reader, trak, ['mdia', 'hdlr']);
+  const stbl = await findMp4Box(reader, trak, ['mdia', 'minf', 'stbl']);
+  const stsd = stbl && await findMp4Box(reader, stbl, ['stsd']);
+  if (!tkhd || !mdhd || !hdlr || !stbl || !stsd) return null;
+
+  // Version 1 boxes use 64-bit creation/modification times (and duration in mdhd)
+  const tkhdData = await readBoxData(reader, tkhd);
+  const mdhdData = await readBoxData(reader, mdhd);
+  const isV1 = mdhdData[0] === 1;
+
+  // Sample description: version/flags, entry count, then the first entry's size and format
+  const format = readAscii(await reader.read(stsd.dataStart + 12, 4), 0, 4);
+
+  const chap = await findMp4Box(reader, trak, ['tref', 'chap']);
+  const chapData = chap ? await readBoxData(reader, chap) : new Uint8Array(0);
+
+  return {
+    trackId: readUint(tkhdData, tkhdData[0] === 1 ? 20 : 12, 4),
+    handler: readAscii(await readBoxData(reader, hdlr), 8, 4),
+    format,
+    timescale: readUint(mdhdData, isV1 ? 20 : 12, 4) || 1,
+    language: decodeMp4Language(readUint(mdhdData, isV1 ? 32 : 20, 2)),
+    chapterTrackIds: Array.from({ length: Math.floor(chapData.length / 4) }, (_, i) => readUint(chapData, i * 4, 4)),
+    stbl,
+  };
+};
+
+// Read the track list of a movie (only box headers and the small header boxes)
+export const readMp4Tracks = async (reader: ByteReader, moov: Mp4Box): Promise<Mp4Track[]> => {
+  const traks = await findMp4Boxes(reader, moov.dataStart, moov.dataEnd, 'trak');
+  const tracks = await Promise.all(traks.map(trak => readMp4Track(reader, trak)));
+  return tracks.filter((track): track is Mp4Track => track !== null);
+};
+
+// Read every sample of a track from its sample tables, chunk by chunk
+// Meant for sparse tracks (subtitles, chapters): all samples are held in memory.
+export const readMp4Samples = async (reader: ByteReader, track: Mp4Track): Promise<Mp4Sample[]> => {
+  const readTable = async (type: string): Promise<Uint8Array | null> => {
+    const box = await findMp4Box(reader, track.stbl, [type]);
+    return box ? (await readBoxData(reader, box)).slice() : null;
+  };
+
+  const stts = await readTable('stts');
+  const stsc = await readTable('stsc');
+  const stsz = await readTable('stsz');
+  const stco = await readTable('stco');
+  const co64 = stco ? null : await readTable('co64');
+  if (!stts || !stsc || !stsz || !(stco || co64)) return [];
+
+  // Sample durations (time-to-sample runs)
+  const durations: number[] = [];
+  for (let i = 0, count = readUint(stts, 4, 4); i < count; i++) {
+    const runLength = readUint(stts, 8 + i * 8, 4);
+    const delta = readUint(stts, 12 + i * 8, 4);
+    for (let j = 0; j < runLength; j++) durations.push(delta);
+  }
+
+  // Sample sizes (one fixed size, or a table)
+  const fixedSize = readUint(stsz, 4, 4);
+  const sampleCount = readUint(stsz, 8, 4);
+  const sizes = Array.from({ length: sampleCount }, (_, i) => fixedSize || readUint(stsz, 12 + i * 4, 4));
+
+  // Chunk offsets
+  const chunkOffsets = stco
+    ? Array.from({ length: readUint(stco, 4, 4) }, (_, i) => readUint(stco, 8 + i * 4, 4))
+    : Array.from({ length: readUint(co64!, 4, 4) }, (_, i) => readUint(co64!, 8 + i * 8, 8));
+
+  // Samples per chunk: runs starting at a (1-based) chunk number
+  const chunkRuns = Array.from({ length: readUint(stsc, 4, 4) }, (_, i) => ({
+    firstChunk: readUint(stsc, 8 + i * 12, 4),
+    samplesPerChunk: readUint(stsc, 12 + i * 12, 4),
+  }));
+
+  const samples: Mp4Sample[] = [];
+  let sample = 0;
+  let time = 0;
+
+  for (let chunk = 0; chunk < chunkOffsets.length && sample < sampleCount; chunk++) {
+    const run = chunkRuns.filter(r => r.firstChunk <= chunk + 1).pop();
+    const samplesInChunk = Math.min(run?.samplesPerChunk ?? 0, sampleCount - sample);
+    const chunkSize = sizes.slice(sample, sample + samplesInChunk).reduce((sum, size) => sum + size, 0);
+    const data = await reader.read(chunkOffsets[chunk], chunkSize);
+
+    let offset = 0;
+    for (let i = 0; i < samplesInChunk; i++, sample++) {
+      const duration = durations[sample] ?? 0;
+      samples.push({ time, duration, data: data.subarray(offset, offset + sizes[sample]) });
+      offset += sizes[sample];
+      time += duration;
+    }
+  }
+
+  return samples;
+};
+
+// Text of a 3GPP timed text (tx3g) or QuickTime text sample: a 16-bit length and the text
+// (UTF-8, or UTF-16 with a byte order mark); style boxes may follow
+export const decodeMp4TextSample = (sample: Uint8Array): string => {
+  const text = sample.subarray(2, 2 + readUint(sample, 0, 2));
+  if (text[0] === 0xfe && text[1] === 0xff) return new TextDecoder('utf-16be').decode(text.subarray(2));
+  return decodeText(text);
+};
@@ -0,0 +1,98 @@
+import type { MediaType, Playability, ProbeResult, Video, FileSystemFileHandle } from '../types';
+
+// MIME types to ask canPlayType about, by extension
+const MIME_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/mp4',
+  '.webm': 'video/webm',
+  '.ogg': 'video/ogg',
+  '.mov': 'video/quicktime',
+  '.avi': 'video/x-msvideo',
+  '.mkv': 'video/x-matroska',
+  '.flv': 'video/x-flv',
+  '.wmv': 'video/x-ms-wmv',
+  '.mpg': 'video/mpeg',
+  '.mpeg': 'video/mpeg',
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.flac': 'audio/flac',
+  '.opus': 'audio/ogg; codecs=opus',
+  '.aac': 'audio/aac',
+};
+
+// How long a trial decode may take before falling back to canPlayType
+const PROBE_TIMEOUT_MS = 8000;
+
+// Check whether the browser claims it can play a file's format at all
+export const canPlayFormat = (filename: string): boolean => {
+  const mimeType = MIME_TYPES[filename.toLowerCase().slice(filename.lastIndexOf('.'))];
+  if (!mimeType) return true;
+  return document.createElement('video').canPlayType(mimeType) !== '';
+};
+
+// Trial-decode a file: read its duration, then wait for the first frame to decode
+// Videos that only decode their audio are reported as 'audio-only'.
+export const probeMedia = async (fileHandle: FileSystemFileHandle, mediaType: MediaType = 'video'): Promise<ProbeResult> => {
+  let file: File;
+  try {
+    file = await fileHandle.getFile();
+  } catch (error) {
+    console.error('Error reading file for probe:', error);
+    return { duration: 0 };
+  }
+
+  const url = URL.createObjectURL(file);
+  const element = document.createElement(mediaType === 'audio' ? 'audio' : 'video');
+  element.muted = true;
+  element.preload = 'auto';
+
+  return new Promise((resolve) => {
+    let duration = 0;
+
+    const finish = (playability?: Playability): void => {
+      clearTimeout(timeout);
+      element.onloadedmetadata = null;
+      element.onloadeddata = null;
+      element.onerror = null;
+      element.removeAttribute('src');
+      element.load();
+      URL.revokeObjectURL(url);
+      resolve({ duration, playability });
+    };
+
+    element.onloadedmetadata = () => {
+      duration = Number.isFinite(element.duration) ? element.duration : 0;
+    };
+
+    element.onloadeddata = () => {
+      const hasPicture = !(element instanceof HTMLVideoElement) || element.videoWidth > 0;
+      finish(hasPicture ? 'playable' : 'audio-only');
+    };
+
+    element.onerror = () => finish('unplayable');
+
+    // Inconclusive: trust what the browser says about the format
+    const timeout = setTimeout(() => {
+      finish(canPlayFormat(file.name) ? undefined : 'unplayable');
+    }, PROBE_TIMEOUT_MS);
+
+    element.src = url;
+  });
+};
+
+// Check if a video is known not to play (wholly or its picture) in this browser
+export const hasPlaybackProblem = (video: Video): boolean => {
+  return video.playability === 'unplayable' || video.playability === 'audio-only';
+};
+
+// Explain a media element error to the user
+export const getPlaybackErrorMessage = (error: MediaError | null): string => {
+  switch (error?.code) {
+    case MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED:
+      return 'Your browser does not support this file\'s format or codec.';
+    case MediaError.MEDIA_ERR_DECODE:
+      return 'The file could not be decoded. It may be damaged or use an unsupported codec.';
+    default:
+      return 'The file could not be played.';
+  }
+};
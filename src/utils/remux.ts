@@ -0,0 +1,161 @@
+import coreURL from '@ffmpeg/core?url';
+import wasmURL from '@ffmpeg/core/wasm?url';
+import { createAbortError, throwIfAborted } from './taskPool';
+import type { RemuxRequest, RemuxMessage } from './remuxWorker';
+import type { Video, FileSystemDirectoryHandle } from '../types';
+
+// Containers the browser often refuses even when the streams inside would play
+const REMUXABLE_EXTENSIONS = ['.mkv', '.avi'];
+
+// Origin Private File System folder holding converted files
+const CACHE_DIR_NAME = 'remuxed';
+
+// Check if a video's container can be rewritten as MP4 in the browser
+// Videos joined from several parts are not converted
+export const canRemux = (video: Video): boolean => {
+  const ext = video.filename.toLowerCase().slice(video.filename.lastIndexOf('.'));
+  return video.mediaType !== 'audio' && !video.parts && REMUXABLE_EXTENSIONS.includes(ext);
+};
+
+// Rewrite a video's file as MP4 without re-encoding (only the container changes)
+// The bundled ffmpeg.wasm core runs in its own Web Worker, started here and ended when done. The
+// output is written to the video's OPFS cache file as it is muxed, and the returned File reads it
+// from disk. Unless the conversion is kept (see discardRemux), delete it once it is no longer played.
+export const remuxToMp4 = async (
+  video: Video,
+  file: File,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<File> => {
+  throwIfAborted(signal);
+  const filename = await getCacheFilename(video);
+  const dir = await getCacheDir(true);
+  // Marks the file as incomplete until the conversion succeeds (e.g. if the app is closed meanwhile)
+  await dir.getFileHandle(getPartialMarker(filename), { create: true });
+  const worker = new Worker(new URL('./remuxWorker.ts', import.meta.url), { type: 'module' });
+
+  try {
+    const exitCode = await new Promise<number>((resolve, reject) => {
+      const handleAbort = () => reject(createAbortError());
+      signal?.addEventListener('abort', handleAbort, { once: true });
+
+      worker.onmessage = (event: MessageEvent<RemuxMessage>) => {
+        const message = event.data;
+        if (message.type === 'progress') {
+          onProgress(message.fraction);
+          return;
+        }
+        signal?.removeEventListener('abort', handleAbort);
+        if (message.type === 'done') {
+          resolve(message.exitCode);
+        } else {
+          reject(new Error(message.message));
+        }
+      };
+      worker.onerror = event => {
+        signal?.removeEventListener('abort', handleAbort);
+        reject(new Error(event.message || 'The converter could not be started.'));
+      };
+
+      const request: RemuxRequest = { file, coreURL, wasmURL, dirName: CACHE_DIR_NAME, filename };
+      worker.postMessage(request);
+    });
+    if (exitCode !== 0) {
+      throw new Error('The streams in this file can\'t be stored in MP4 without re-encoding.');
+    }
+
+    const converted = await (await dir.getFileHandle(filename)).getFile();
+    await removeCacheFile(getPartialMarker(filename));
+    return converted;
+  } catch (err) {
+    // Stop the worker before removing the partly written file it still holds open
+    worker.terminate();
+    await removeCacheFile(filename);
+    await removeCacheFile(getPartialMarker(filename));
+    throw err;
+  } finally {
+    worker.terminate();
+  }
+};
+
+// OPFS cache of converted files
+// Entries are keyed by video ID plus fingerprint, so a changed file is converted again.
+
+// Root of the Origin Private File System
+// The DOM typings of its handle lack the permission methods of the app's handle type (OPFS
+// handles are always accessible), so the handle is typed here once.
+const getStorageRoot = async (): Promise<FileSystemDirectoryHandle> => {
+  const root = await navigator.storage.getDirectory();
+  return root as unknown as FileSystemDirectoryHandle;
+};
+
+const getCacheDir = async (create: boolean): Promise<FileSystemDirectoryHandle> => {
+  const root = await getStorageRoot();
+  return root.getDirectoryHandle(CACHE_DIR_NAME, { create });
+};
+
+const getCacheFilename = async (video: Video): Promise<string> => {
+  const key = new TextEncoder().encode(`${video.id}\n${video.fingerprint ?? video.size}`);
+  const hash = await crypto.subtle.digest('SHA-256', key);
+  const hex = Array.from(new Uint8Array(hash), byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 32)}.mp4`;
+};
+
+const getPartialMarker = (filename: string): string => `${filename}.partial`;
+
+// Get the cached conversion of a video, or null if there is none
+export const getCachedRemux = async (video: Video): Promise<File | null> => {
+  try {
+    const dir = await getCacheDir(false);
+    const filename = await getCacheFilename(video);
+    const isPartial = await dir.getFileHandle(getPartialMarker(filename)).then(() => true, () => false);
+    if (isPartial) return null;
+
+    const fileHandle = await dir.getFileHandle(filename);
+    return await fileHandle.getFile();
+  } catch {
+    return null;
+  }
+};
+
+const removeCacheFile = async (filename: string): Promise<void> => {
+  try {
+    const dir = await getCacheDir(false);
+    await dir.removeEntry(filename);
+  } catch {
+    // Not written, or already removed
+  }
+};
+
+// Delete a video's converted file (a conversion that isn't kept in the cache)
+export const discardRemux = async (video: Video): Promise<void> => {
+  const filename = await getCacheFilename(video);
+  await removeCacheFile(filename);
+  await removeCacheFile(getPartialMarker(filename));
+};
+
+// Total size of the cached conversions in bytes
+export const getRemuxCacheSize = async (): Promise<number> => {
+  try {
+    const dir = await getCacheDir(false);
+    let size = 0;
+    for await (const entry of dir.values()) {
+      if (entry.kind === 'file') {
+        size += (await entry.getFile()).size;
+      }
+    }
+    return size;
+  } catch {
+    return 0;
+  }
+};
+
+// Delete all cached conversions
+export const clearRemuxCache = async (): Promise<void> => {
+  try {
+    const root = await getStorageRoot();
+    await root.removeEntry(CACHE_DIR_NAME, { recursive: true });
+  } catch {
+    // Nothing cached yet
+  }
+};
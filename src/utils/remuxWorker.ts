@@ -0,0 +1,129 @@
+// Web Worker that rewrites a video as MP4 with the bundled ffmpeg.wasm core
+// The source file is mounted read-only (WORKERFS) and the output file is backed by an Origin
+// Private File System file, so neither is held in memory: every write of the muxer goes
+// straight to disk through a sync access handle (only available in workers).
+
+// Sent by remux.ts to start a conversion
+export interface RemuxRequest {
+  file: File;
+  coreURL: string;   // ffmpeg-core.js, bundled as an asset
+  wasmURL: string;   // ffmpeg-core.wasm, bundled as an asset
+  dirName: string;   // OPFS folder of the output file
+  filename: string;  // Output file, created or overwritten
+}
+
+// Sent back while converting and when done
+export type RemuxMessage =
+  | { type: 'progress'; fraction: number }
+  | { type: 'done'; exitCode: number }
+  | { type: 'error'; message: string };
+
+// OPFS file access for workers (missing from the DOM typings)
+interface SyncAccessHandle {
+  read(buffer: ArrayBufferView, options: { at: number }): number;
+  write(buffer: ArrayBufferView, options: { at: number }): number;
+  getSize(): number;
+  truncate(size: number): void;
+  flush(): void;
+  close(): void;
+}
+
+interface SyncAccessFileHandle {
+  createSyncAccessHandle(): Promise<SyncAccessHandle>;
+}
+
+// The parts of the ffmpeg.wasm core (an Emscripten module) used here
+interface EmscriptenStream {
+  position: number;
+}
+
+interface EmscriptenStreamOps {
+  read(stream: EmscriptenStream, buffer: Int8Array, offset: number, length: number, position: number): number;
+  write(stream: EmscriptenStream, buffer: Int8Array, offset: number, length: number, position: number): number;
+  llseek(stream: EmscriptenStream, offset: number, whence: number): number;
+}
+
+interface FFmpegCore {
+  FS: {
+    mkdir(path: string): void;
+    mount(type: unknown, options: { files: File[] }, mountPoint: string): void;
+    writeFile(path: string, data: Uint8Array): void;
+    lookupPath(path: string): { node: { stream_ops: EmscriptenStreamOps } };
+    filesystems: { WORKERFS: unknown };
+    ErrnoError: new (errno: number) => Error;
+  };
+  setLogger(logger: (log: { type: string; message: string }) => void): void;
+  setProgress(handler: (progress: { progress: number; time: number }) => void): void;
+  exec(...args: string[]): void;
+  ret: number;
+}
+
+type CreateFFmpegCore = (options: { mainScriptUrlOrBlob: string }) => Promise<FFmpegCore>;
+
+const EINVAL = 28;
+
+const post = (message: RemuxMessage): void => {
+  self.postMessage(message);
+};
+
+// Stream operations that read and write an OPFS file instead of the node's memory
+// Seeking is supported, so the MP4 muxer can go back and fill in sizes once it knows them.
+const createOpfsStreamOps = (access: SyncAccessHandle, core: FFmpegCore): EmscriptenStreamOps => ({
+  read: (_stream, buffer, offset, length, position) => {
+    return access.read(buffer.subarray(offset, offset + length), { at: position });
+  },
+  write: (_stream, buffer, offset, length, position) => {
+    return access.write(buffer.subarray(offset, offset + length), { at: position });
+  },
+  llseek: (stream, offset, whence) => {
+    // SEEK_SET, SEEK_CUR, SEEK_END
+    const base = whence === 1 ? stream.position : whence === 2 ? access.getSize() : 0;
+    const position = base + offset;
+    if (position < 0) throw new core.FS.ErrnoError(EINVAL);
+    return position;
+  },
+});
+
+const remux = async ({ file, coreURL, wasmURL, dirName, filename }: RemuxRequest): Promise<number> => {
+  const createFFmpegCore: CreateFFmpegCore = (await import(/* @vite-ignore */ coreURL)).default;
+  const core = await createFFmpegCore({
+    // The core finds its .wasm through the JSON after the "#" (as ffmpeg.wasm's own worker does)
+    mainScriptUrlOrBlob: `${coreURL}#${btoa(JSON.stringify({ wasmURL }))}`,
+  });
+  core.setLogger(() => {});
+  core.setProgress(({ progress }) => post({ type: 'progress', fraction: Math.min(1, Math.max(0, progress)) }));
+
+  const root = await navigator.storage.getDirectory();
+  const dir = await root.getDirectoryHandle(dirName, { create: true });
+  const fileHandle = await dir.getFileHandle(filename, { create: true }) as FileSystemFileHandle & SyncAccessFileHandle;
+  const access = await fileHandle.createSyncAccessHandle();
+
+  try {
+    access.truncate(0);
+
+    core.FS.mkdir('/input');
+    core.FS.mount(core.FS.filesystems.WORKERFS, { files: [file] }, '/input');
+
+    // An empty file whose reads and writes go to the OPFS file
+    core.FS.writeFile('/output.mp4', new Uint8Array());
+    core.FS.lookupPath('/output.mp4').node.stream_ops = createOpfsStreamOps(access, core);
+
+    // First video and audio stream only: MP4 can't hold most subtitle and attachment streams
+    core.exec(
+      '-i', `/input/${file.name}`,
+      '-map', '0:v:0', '-map', '0:a:0?',
+      '-c', 'copy',
+      '-y', '/output.mp4'
+    );
+    access.flush();
+    return core.ret;
+  } finally {
+    access.close();
+  }
+};
+
+self.onmessage = (event: MessageEvent<RemuxRequest>) => {
+  remux(event.data)
+    .then(exitCode => post({ type: 'done', exitCode }))
+    .catch(err => post({ type: 'error', message: err instanceof Error ? err.message : String(err) }));
+};
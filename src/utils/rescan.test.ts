@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { mergeRescannedCourse, formatRescanSummary } from './rescan';
+import { parseFolderStructure } from './folderParser';
+import { createMemorySource } from './courseSource';
+import type { MemoryFile } from './courseSource';
+import { getAllVideosInLessons } from './courseTree';
+import type { Course } from '../types';
+
+const scan = (files: Record<string, string | MemoryFile>): Promise<Course> => {
+  return parseFolderStructure(createMemorySource('Course', files));
+};
+
+const filenames = (course: Course): string[] => {
+  return getAllVideosInLessons(course.lessons).map(video => `${video.filename}${video.missing ? ' (missing)' : ''}`);
+};
+
+describe('mergeRescannedCourse', () => {
+  it('adds new videos and keeps vanished ones flagged as missing', async () => {
+    const stored = await scan({
+      '01 Lesson/01 Intro.mp4': 'intro',
+      '01 Lesson/02 Setup.mp4': 'setup',
+    });
+    const scanned = await scan({
+      '01 Lesson/01 Intro.mp4': 'intro',
+      '01 Lesson/03 Deploy.mp4': 'deploy',
+    });
+
+    const result = mergeRescannedCourse(stored, scanned);
+    expect(result.addedVideos).toBe(1);
+    expect(result.addedVideoIds).toEqual(['video-Course-01 Lesson-03 Deploy.mp4']);
+    expect(result.missingVideos).toBe(1);
+    expect(filenames(result.course)).toEqual(['01 Intro.mp4', '02 Setup.mp4 (missing)', '03 Deploy.mp4']);
+    expect(result.course.totalVideos).toBe(2);
+    expect(formatRescanSummary(result)).toBe('Rescan complete: 1 new video, 1 missing');
+  });
+
+  it('counts a renamed or moved video as neither new nor missing', async () => {
+    const stored = await scan({ '01 Lesson/01 Intro.mp4': 'same content' });
+    const scanned = await scan({ '02 Lesson/01 Welcome.mp4': 'same content' });
+
+    const result = mergeRescannedCourse(stored, scanned);
+    expect(result.addedVideos).toBe(0);
+    expect(result.missingVideos).toBe(0);
+    expect(filenames(result.course)).toEqual(['01 Welcome.mp4']);
+    expect(formatRescanSummary(result)).toBe('Rescan complete: no changes found');
+  });
+
+  it('removes videos that are now excluded', async () => {
+    const stored = await scan({
+      '01 Intro.mp4': 'intro',
+      'raw/take1.mp4': 'take',
+    });
+    const scanned = await scan({ '01 Intro.mp4': 'intro' });
+
+    const result = mergeRescannedCourse(stored, scanned, ['raw']);
+    expect(result.excludedVideos).toBe(1);
+    expect(result.missingVideos).toBe(0);
+    expect(filenames(result.course)).toEqual(['01 Intro.mp4']);
+  });
+
+  it('keeps probed metadata and the course sort mode', async () => {
+    const stored = await scan({ '01 Intro.mp4': 'intro' });
+    stored.sortMode = 'alphabetical';
+    stored.lessons[0].videos[0] = { ...stored.lessons[0].videos[0], duration: 120, playability: 'playable' };
+
+    const result = mergeRescannedCourse(stored, await scan({ '01 Intro.mp4': 'intro' }));
+    expect(result.course.sortMode).toBe('alphabetical');
+    expect(result.course.lessons[0].videos[0]).toMatchObject({ duration: 120, playability: 'playable' });
+  });
+});
@@ -0,0 +1,183 @@
+import { getAllVideos, getAllVideosInLessons, updateCourseTotals } from './courseTree';
+import { isInExcludedPath } from './ignoreRules';
+import { sortCourse } from './sortOrder';
+import type { Course, Lesson, Video, RescanResult } from '../types';
+
+// Running totals while merging, plus the fingerprints on each side to detect moved videos
+interface MergeState {
+  addedIds: string[];
+  missing: number;
+  excluded: number;
+  storedFingerprints: Set<string>;
+  scannedFingerprints: Set<string>;
+  excludedPaths: string[];
+}
+
+// Collect the content fingerprints of every video (and every part of joined videos) in a list of lessons
+// A file stored as its own video and now joined as a later part counts as moved.
+const collectFingerprints = (lessons: Lesson[]): Set<string> => {
+  const fingerprints = new Set<string>();
+  getAllVideosInLessons(lessons).forEach(video => {
+    if (video.fingerprint) fingerprints.add(video.fingerprint);
+    video.parts?.forEach(part => {
+      if (part.fingerprint) fingerprints.add(part.fingerprint);
+    });
+  });
+  return fingerprints;
+};
+
+// Keep the metadata already probed for a video, unless its parts changed (joined, split or
+// a part added), in which case the background metadata job probes it again
+const keepProbedMetadata = (scanned: Video, stored: Video | undefined): Video => {
+  const storedParts = stored?.parts?.map(part => part.filename).join('/') ?? '';
+  const scannedParts = scanned.parts?.map(part => part.filename).join('/') ?? '';
+  if (!stored || storedParts !== scannedParts) return scanned;
+
+  return {
+    ...scanned,
+    duration: scanned.duration || stored.duration || 0,
+    playability: scanned.playability ?? stored.playability,
+    parts: scanned.parts?.map((part, index) => ({
+      ...part,
+      duration: part.duration || stored.parts?.[index]?.duration || 0,
+    })),
+  };
+};
+
+// A stored video that is still on disk under another name or folder
+const wasMoved = (video: Video, state: MergeState): boolean => {
+  return !!video.fingerprint && state.scannedFingerprints.has(video.fingerprint);
+};
+
+// A stored video that is still on disk but now left out by the ignore rules or filters
+const wasExcluded = (video: Video, state: MergeState): boolean => {
+  return !!video.path && isInExcludedPath(video.path, state.excludedPaths);
+};
+
+// Stored videos that are gone from the scan: moved ones are dropped (counted as neither),
+// excluded ones are dropped and counted, the rest are kept flagged as missing
+const keepMissing = (videos: Video[], state: MergeState): Video[] => {
+  return videos
+    .filter(video => !wasMoved(video, state))
+    .filter(video => {
+      if (!wasExcluded(video, state)) return true;
+      state.excluded++;
+      return false;
+    })
+    .map(video => ({ ...video, missing: true }));
+};
+
+// A scanned video that was already in the course under another name or folder
+const isKnown = (video: Video, state: MergeState): boolean => {
+  return !!video.fingerprint && state.storedFingerprints.has(video.fingerprint);
+};
+
+// Flag every video in a lesson that is no longer on disk as missing (moved and excluded videos are dropped)
+const markLessonMissing = (lesson: Lesson, state: MergeState): Lesson => {
+  const videos = keepMissing(lesson.videos || [], state);
+  state.missing += videos.length;
+
+  return {
+    ...lesson,
+    videos,
+    sections: (lesson.sections || []).map(section => markLessonMissing(section, state)),
+    totalVideos: 0,
+    totalDuration: 0,
+  };
+};
+
+// Merge videos: keep everything found on disk, and keep stored videos that disappeared flagged as missing
+const mergeVideos = (stored: Video[], scanned: Video[], state: MergeState): Video[] => {
+  const storedById = new Map(stored.map(video => [video.id, video]));
+  const scannedIds = new Set(scanned.map(video => video.id));
+
+  state.addedIds.push(...scanned
+    .filter(video => !storedById.has(video.id) && !isKnown(video, state))
+    .map(video => video.id));
+
+  // Keep durations and playability already probed, so only new videos need the background metadata job
+  const present = scanned.map(video => keepProbedMetadata(video, storedById.get(video.id)));
+
+  // Moved videos are dropped here; their progress is reattached by fingerprint
+  const missing = keepMissing(stored.filter(video => !scannedIds.has(video.id)), state);
+  state.missing += missing.length;
+
+  return [...present, ...missing];
+};
+
+// Merge lessons (and nested sections) by ID
+const mergeLessons = (stored: Lesson[], scanned: Lesson[], state: MergeState): Lesson[] => {
+  const storedById = new Map(stored.map(lesson => [lesson.id, lesson]));
+  const scannedIds = new Set(scanned.map(lesson => lesson.id));
+
+  const merged = scanned.map(lesson => {
+    const storedLesson = storedById.get(lesson.id);
+    if (!storedLesson) {
+      state.addedIds.push(...getAllVideos(lesson).filter(video => !isKnown(video, state)).map(video => video.id));
+      return lesson;
+    }
+
+    return {
+      ...lesson,
+      thumbnail: lesson.thumbnail || storedLesson.thumbnail,
+      customCover: storedLesson.customCover,
+      videos: mergeVideos(storedLesson.videos || [], lesson.videos, state),
+      sections: mergeLessons(storedLesson.sections || [], lesson.sections || [], state),
+    };
+  });
+
+  // Lessons whose videos all moved elsewhere are dropped entirely
+  const missing = stored
+    .filter(lesson => !scannedIds.has(lesson.id))
+    .map(lesson => markLessonMissing(lesson, state))
+    .filter(lesson => getAllVideos(lesson).length > 0);
+
+  return [...merged, ...missing];
+};
+
+// Merge a fresh scan of a course folder into the stored course
+// New videos are added, videos no longer on disk are kept but flagged as missing,
+// and video IDs are unchanged so every saved progress record still applies.
+// Videos found again under a new name or folder (same fingerprint) count as neither.
+// Videos under excludedPaths (left out by the scan's ignore rules and filters) are removed.
+export const mergeRescannedCourse = (stored: Course, scanned: Course, excludedPaths: string[] = []): RescanResult => {
+  const state: MergeState = {
+    addedIds: [],
+    missing: 0,
+    excluded: 0,
+    storedFingerprints: collectFingerprints(stored.lessons),
+    scannedFingerprints: collectFingerprints(scanned.lessons),
+    excludedPaths,
+  };
+  const lessons = mergeLessons(stored.lessons, scanned.lessons, state);
+
+  // Totals only count videos that are on disk; the course keeps its own sort mode
+  return {
+    course: updateCourseTotals(sortCourse({
+      ...stored,
+      ...scanned,
+      lessons,
+      lastAccessed: stored.lastAccessed,
+      sortMode: stored.sortMode,
+    })),
+    addedVideos: state.addedIds.length,
+    addedVideoIds: state.addedIds,
+    missingVideos: state.missing,
+    excludedVideos: state.excluded,
+  };
+};
+
+// Short summary of a rescan for display ("Rescan complete: 3 new videos, 1 missing")
+export const formatRescanSummary = (result: RescanResult): string => {
+  const parts: string[] = [];
+  if (result.addedVideos > 0) {
+    parts.push(`${result.addedVideos} new video${result.addedVideos === 1 ? '' : 's'}`);
+  }
+  if (result.missingVideos > 0) {
+    parts.push(`${result.missingVideos} missing`);
+  }
+  if (result.excludedVideos > 0) {
+    parts.push(`${result.excludedVideos} excluded`);
+  }
+  return parts.length > 0 ? `Rescan complete: ${parts.join(', ')}` : 'Rescan complete: no changes found';
+};
@@ -0,0 +1,127 @@
+import type { Resource, ResourceKind, FileSystemFileHandle } from '../types';
+
+// Supported resource formats by kind
+const RESOURCE_EXTENSIONS: Record<ResourceKind, string[]> = {
+  pdf: ['.pdf'],
+  image: ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.svg'],
+  slides: ['.ppt', '.pptx', '.key', '.odp'],
+  archive: ['.zip', '.rar', '.7z', '.tar', '.gz'],
+  document: ['.txt', '.md', '.doc', '.docx', '.odt', '.rtf'],
+  link: ['.url', '.webloc'],
+};
+
+// Get the resource kind of a file, or null if it is not a resource
+export const getResourceKind = (filename: string): ResourceKind | null => {
+  const ext = filename.toLowerCase().slice(filename.lastIndexOf('.'));
+  const kinds = Object.keys(RESOURCE_EXTENSIONS) as ResourceKind[];
+  return kinds.find(kind => RESOURCE_EXTENSIONS[kind].includes(ext)) || null;
+};
+
+// Check if file is a lesson resource
+export const isResourceFile = (filename: string): boolean => {
+  return getResourceKind(filename) !== null;
+};
+
+// Read the target of a Windows .url or macOS .webloc shortcut (http/https only)
+const readLinkUrl = async (fileHandle: FileSystemFileHandle): Promise<string | undefined> => {
+  try {
+    const text = await (await fileHandle.getFile()).text();
+    const match = text.match(/^URL=(.+)$/m) || text.match(/<string>([^<]+)<\/string>/);
+    const url = match?.[1].trim();
+    return url && /^https?:\/\//i.test(url) ? url : undefined;
+  } catch (err) {
+    console.warn('Could not read link file:', fileHandle.name, err);
+    return undefined;
+  }
+};
+
+// Create a resource for a file; path is relative to the course folder and used as its ID
+export const createResource = async (fileHandle: FileSystemFileHandle, path: string): Promise<Resource> => {
+  const kind = getResourceKind(fileHandle.name) || 'document';
+
+  return {
+    id: path,
+    name: fileHandle.name.replace(/\.[^/.]+$/, ''),
+    filename: fileHandle.name,
+    kind,
+    fileHandle,
+    url: kind === 'link' ? await readLinkUrl(fileHandle) : undefined,
+  };
+};
+
+// Check if a resource name starts with a video name at a word boundary
+// ("03 Setup - slides" matches "03 Setup", "10 Notes" does not match "1")
+const startsWithName = (resourceName: string, videoName: string): boolean => {
+  const resource = resourceName.toLowerCase();
+  const video = videoName.toLowerCase();
+  if (!resource.startsWith(video)) return false;
+  return resource.length === video.length || !/[a-z0-9]/.test(resource[video.length]);
+};
+
+// Get the leading number of a name ("03-exercise" -> 3), or null
+const getLeadingNumber = (name: string): number | null => {
+  const match = name.match(/^(\d+)/);
+  return match ? parseInt(match[1], 10) : null;
+};
+
+// Split the resources of a folder between its videos and the lesson itself
+// A resource belongs to the video whose name (without extension) it starts with, the longest
+// name winning; otherwise to the only video with the same number prefix; otherwise to the lesson.
+export const assignResources = (
+  resources: Resource[],
+  videoFilenames: string[]
+): { lessonResources: Resource[]; videoResources: Map<string, Resource[]> } => {
+  const lessonResources: Resource[] = [];
+  const videoResources = new Map<string, Resource[]>();
+  const videoNames = videoFilenames.map(filename => ({
+    filename,
+    name: filename.replace(/\.[^/.]+$/, ''),
+  }));
+
+  const sorted = [...resources].sort((a, b) =>
+    a.filename.localeCompare(b.filename, undefined, { numeric: true })
+  );
+
+  for (const resource of sorted) {
+    let match = videoNames
+      .filter(video => startsWithName(resource.name, video.name))
+      .sort((a, b) => b.name.length - a.name.length)[0];
+
+    if (!match) {
+      const number = getLeadingNumber(resource.name);
+      const sameNumber = number === null
+        ? []
+        : videoNames.filter(video => getLeadingNumber(video.name) === number);
+      if (sameNumber.length === 1) {
+        match = sameNumber[0];
+      }
+    }
+
+    if (match) {
+      videoResources.set(match.filename, [...(videoResources.get(match.filename) || []), resource]);
+    } else {
+      lessonResources.push(resource);
+    }
+  }
+
+  return { lessonResources, videoResources };
+};
+
+// Check if a resource can be shown in the in-app viewer
+export const isViewableResource = (resource: Resource): boolean => {
+  return resource.kind === 'pdf' || resource.kind === 'image';
+};
+
+// Save a copy of a resource file through the browser's download flow
+export const downloadResource = async (resource: Resource): Promise<void> => {
+  const file = await resource.fileHandle.getFile();
+  const url = URL.createObjectURL(file);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = resource.filename;
+  link.click();
+
+  // Give the download a moment to start before releasing the file
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
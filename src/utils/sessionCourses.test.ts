@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { isSessionCourse, needsFolderReselect, getSessionCourse, toStoredSessionCourse } from './sessionCourses';
+import { parseFolderStructure } from './folderParser';
+import { createFileListSource } from './courseSource';
+import type { Course } from '../types';
+
+const createPickedFile = (path: string): File => {
+  const file = new File(['video'], path.split('/').pop()!);
+  Object.defineProperty(file, 'webkitRelativePath', { value: path });
+  return file;
+};
+
+describe('toStoredSessionCourse', () => {
+  it('keeps the course for the session and stores a copy without handles', async () => {
+    const course = await parseFolderStructure(createFileListSource([
+      createPickedFile('Picked/01 Lesson/01 Intro.mp4'),
+      createPickedFile('Picked/01 Lesson/01 Intro.en.srt'),
+    ]));
+    expect(isSessionCourse(course)).toBe(true);
+    expect(needsFolderReselect(course)).toBe(true);
+
+    const stored = toStoredSessionCourse(course);
+    expect(getSessionCourse(course.id)).toBe(course);
+    expect(needsFolderReselect(stored)).toBe(false);
+
+    // The stored copy can be cloned into IndexedDB, with handles reduced to their names
+    const cloned = structuredClone(stored);
+    expect(cloned.dirHandle).toEqual({ kind: 'directory', name: 'Picked' });
+    expect(cloned.lessons[0].videos[0].fileHandle).toEqual({ kind: 'file', name: '01 Intro.mp4' });
+    expect(cloned.lessons[0].videos[0].subtitleTracks?.[0].fileHandle).toEqual({ kind: 'file', name: '01 Intro.en.srt' });
+    expect(cloned.lessons[0].videos[0].id).toBe(course.lessons[0].videos[0].id);
+  });
+
+  it('does not make a copy stored on an earlier visit available again', () => {
+    const stored = {
+      id: 'course-Earlier',
+      title: 'Earlier',
+      originalName: 'Earlier',
+      lessons: [],
+      totalLessons: 0,
+      totalVideos: 0,
+      totalDuration: 0,
+      dirHandle: { kind: 'directory', name: 'Earlier' },
+      sourceKind: 'fileList',
+    } as unknown as Course;
+
+    toStoredSessionCourse(stored);
+    expect(needsFolderReselect(stored)).toBe(true);
+    expect(getSessionCourse('course-Earlier')).toBeUndefined();
+  });
+});
@@ -0,0 +1,48 @@
+import type { Course, FileSystemHandle } from '../types';
+
+// Session courses
+// Courses imported from picked or dropped files (browsers without the File System Access API)
+// can't keep their files across visits: File objects can't be stored like folder handles.
+// Their stored copy keeps everything but the handles, so the course card, settings and progress
+// (keyed by the same name-based video IDs) survive; the full course lives here until the tab
+// closes, and on the next visit the user is asked to select the folder again.
+
+const sessionCourses = new Map<string, Course>();
+
+// Course whose files only last for the session
+export const isSessionCourse = (course: Course): boolean => course.sourceKind === 'fileList';
+
+// Session course stored on an earlier visit, whose files have to be selected again
+export const needsFolderReselect = (course: Course): boolean => {
+  return isSessionCourse(course) && !sessionCourses.has(course.id);
+};
+
+export const getSessionCourse = (id: string): Course | undefined => sessionCourses.get(id);
+
+export const deleteSessionCourse = (id: string): void => {
+  sessionCourses.delete(id);
+};
+
+const isHandle = (value: object): value is FileSystemHandle => {
+  return 'kind' in value && (value.kind === 'file' || value.kind === 'directory')
+    && 'name' in value && ('getFile' in value || 'values' in value);
+};
+
+// Replace every file and folder handle with a plain { kind, name } record
+const detachHandles = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(detachHandles);
+  if (!value || typeof value !== 'object') return value;
+  if (isHandle(value)) return { kind: value.kind, name: value.name };
+
+  return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, detachHandles(entry)]));
+};
+
+// Keep a session course with its files for this session, and return the copy to store in
+// IndexedDB (handles of picked files can't be cloned). The stored copy's handles can't be read;
+// saving it again (from an earlier visit) doesn't make it available.
+export const toStoredSessionCourse = (course: Course): Course => {
+  if (isHandle(course.dirHandle)) {
+    sessionCourses.set(course.id, course);
+  }
+  return detachHandles(course) as Course;
+};
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { extractSortKey, compareBySortMode } from './sortOrder';
+import type { SortableItem } from './sortOrder';
+import type { SortMode } from '../types';
+
+const sortNames = (items: SortableItem[], mode: SortMode): string[] => {
+  return [...items].sort((a, b) => compareBySortMode(a, b, mode)).map(item => item.name);
+};
+
+const named = (...names: string[]): SortableItem[] => names.map(name => ({ name }));
+
+describe('extractSortKey', () => {
+  it('reads episode codes', () => {
+    expect(extractSortKey('Show S01E03 Pilot')).toEqual([1, 3]);
+    expect(extractSortKey('show s2 e10')).toEqual([2, 10]);
+    expect(extractSortKey('Show 1x03')).toEqual([1, 3]);
+  });
+
+  it('reads leading numbers with sub-numbers', () => {
+    expect(extractSortKey('03 Intro')).toEqual([3]);
+    expect(extractSortKey('1.2.3 Setup')).toEqual([1, 2, 3]);
+    expect(extractSortKey('1-05 Intro')).toEqual([1, 5]);
+  });
+
+  it('reads numbers after a keyword or at the end', () => {
+    expect(extractSortKey('Hooks Lecture 10 - Intro')).toEqual([10]);
+    expect(extractSortKey('Part 1.2')).toEqual([1, 2]);
+    expect(extractSortKey('Recap 3')).toEqual([3]);
+  });
+
+  it('returns an empty key for unnumbered names', () => {
+    expect(extractSortKey('Bonus')).toEqual([]);
+  });
+});
+
+describe('compareBySortMode', () => {
+  it('orders by number in natural mode, unnumbered names last', () => {
+    expect(sortNames(named('Lecture 10', 'Bonus', 'Lecture 2', 'Lecture 1'), 'natural'))
+      .toEqual(['Lecture 1', 'Lecture 2', 'Lecture 10', 'Bonus']);
+    expect(sortNames(named('1.10 Wrap-up', '1.2 Setup', '2 Next'), 'natural'))
+      .toEqual(['1.2 Setup', '1.10 Wrap-up', '2 Next']);
+  });
+
+  it('uses the manifest order in place of the number in natural mode', () => {
+    const items = [{ name: '01 First' }, { name: '02 Second', order: 0 }, { name: '03 Third' }];
+    expect(sortNames(items, 'natural')).toEqual(['02 Second', '01 First', '03 Third']);
+  });
+
+  it('orders alphabetically, ignoring case', () => {
+    expect(sortNames(named('beta', 'Alpha', 'gamma'), 'alphabetical')).toEqual(['Alpha', 'beta', 'gamma']);
+  });
+
+  it('orders by date, undated items last', () => {
+    const items = [
+      { name: 'C', lastModified: 3 },
+      { name: 'Undated' },
+      { name: 'A', lastModified: 1 },
+    ];
+    expect(sortNames(items, 'date')).toEqual(['A', 'C', 'Undated']);
+  });
+
+  it('puts items with a manifest order first in the other modes', () => {
+    const items = [{ name: 'Alpha' }, { name: 'Zulu', order: 1 }, { name: 'Mike', order: 0 }];
+    expect(sortNames(items, 'alphabetical')).toEqual(['Mike', 'Zulu', 'Alpha']);
+  });
+});
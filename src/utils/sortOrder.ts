@@ -0,0 +1,148 @@
+import { getCourse, saveCourse } from './storage';
+import { getAllVideos } from './courseTree';
+import type { Course, Lesson, Video, SortMode } from '../types';
+
+// Order used when a course has no sort mode of its own
+export const DEFAULT_SORT_MODE: SortMode = 'natural';
+
+// What the comparators look at for one video or folder
+export interface SortableItem {
+  name: string;           // Filename without extension, or folder name
+  order?: number;         // Explicit position from the course manifest
+  lastModified?: number;  // File date (earliest video inside, for folders)
+}
+
+// Compares digit runs by value ("Lecture 2" before "Lecture 10"), ignoring case and accents
+const naturalCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+const alphabeticalCollator = new Intl.Collator(undefined, { sensitivity: 'base' });
+
+// Natural string comparison, used on its own and as the tie-breaker for the other modes
+export const compareNatural = (a: string, b: string): number => naturalCollator.compare(a, b);
+
+const toNumbers = (text: string): number[] => text.split(/[.\-_]/).map(part => parseInt(part, 10));
+
+// Numbering patterns, most specific first; each returns the numbers that position an item
+const SORT_KEY_PATTERNS: { pattern: RegExp; read: (match: RegExpMatchArray) => number[] }[] = [
+  // Episode codes: "S01E03", "s1 e3", "1x03"
+  { pattern: /\bS(\d{1,3})[ ._-]?E(\d{1,4})(?!\d)/i, read: match => [parseInt(match[1], 10), parseInt(match[2], 10)] },
+  { pattern: /\b(\d{1,2})x(\d{2,3})\b/i, read: match => [parseInt(match[1], 10), parseInt(match[2], 10)] },
+  // Leading numbers, with dotted or dashed sub-numbers: "03", "1.2.3 Setup", "1-05 Intro"
+  { pattern: /^(\d+(?:[.\-_]\d+)*)(?![\d])/, read: match => toNumbers(match[1]) },
+  // Numbers after a keyword: "Part 1.2", "Lecture 10 - Hooks", "Ep. 4"
+  {
+    pattern: /\b(?:part|pt|chapter|ch|lecture|lesson|episode|ep|section|module|unit|day|week|class|session|video|step)\.?\s*#?(\d+(?:\.\d+)*)(?![\d])/i,
+    read: match => toNumbers(match[1]),
+  },
+  // Trailing numbers: "Intro 3", "Recap-2"
+  { pattern: /(\d+(?:\.\d+)*)$/, read: match => toNumbers(match[1]) },
+];
+
+// Numbers that position a name ([1, 3] for "S01E03"), or an empty list for unnumbered names
+export const extractSortKey = (name: string): number[] => {
+  const text = name.trim();
+  for (const { pattern, read } of SORT_KEY_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) return read(match);
+  }
+  return [];
+};
+
+// Compare two sort keys number by number; unnumbered names sort after numbered ones
+const compareSortKeys = (a: number[], b: number[]): number => {
+  if (a.length === 0 || b.length === 0) return b.length - a.length;
+
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+};
+
+// Items with a manifest order come first (in that order) in the alphabetical and date modes
+const compareManifestOrder = (a: SortableItem, b: SortableItem): number => {
+  if (a.order !== undefined && b.order !== undefined) return a.order - b.order;
+  if (a.order !== undefined) return -1;
+  if (b.order !== undefined) return 1;
+  return 0;
+};
+
+// Compare two items in a sort mode
+// In natural mode a manifest order replaces the item's number, like a number prefix would.
+export const compareBySortMode = (a: SortableItem, b: SortableItem, mode: SortMode): number => {
+  if (mode === 'natural') {
+    const aKey = a.order !== undefined ? [a.order] : extractSortKey(a.name);
+    const bKey = b.order !== undefined ? [b.order] : extractSortKey(b.name);
+    return compareSortKeys(aKey, bKey) || compareNatural(a.name, b.name);
+  }
+
+  const byManifest = compareManifestOrder(a, b);
+  if (byManifest !== 0) return byManifest;
+  if (a.order !== undefined) return compareNatural(a.name, b.name);
+
+  if (mode === 'date') {
+    const byDate = (a.lastModified ?? Infinity) - (b.lastModified ?? Infinity);
+    if (byDate !== 0 && !Number.isNaN(byDate)) return byDate;
+    return compareNatural(a.name, b.name);
+  }
+  return alphabeticalCollator.compare(a.name, b.name) || compareNatural(a.name, b.name);
+};
+
+const toSortableVideo = (video: Video): SortableItem => ({
+  name: video.filename.replace(/\.[^/.]+$/, ''),
+  order: video.order,
+  lastModified: video.lastModified,
+});
+
+const toSortableLesson = (lesson: Lesson): SortableItem => {
+  const dates = getAllVideos(lesson)
+    .map(video => video.lastModified)
+    .filter((date): date is number => date !== undefined);
+
+  return {
+    name: lesson.originalName,
+    order: lesson.order,
+    lastModified: dates.length > 0 ? Math.min(...dates) : undefined,
+  };
+};
+
+// Sort a list and number it; sortOrder is the position within the folder
+const sortItems = <T extends { sortOrder: number }>(
+  items: T[],
+  mode: SortMode,
+  toSortable: (item: T) => SortableItem
+): T[] => {
+  return items
+    .map(item => ({ item, sortable: toSortable(item) }))
+    .sort((a, b) => compareBySortMode(a.sortable, b.sortable, mode))
+    .map(({ item }, index) => ({ ...item, sortOrder: index }));
+};
+
+const sortLesson = (lesson: Lesson, mode: SortMode): Lesson => ({
+  ...lesson,
+  videos: sortItems(lesson.videos || [], mode, toSortableVideo),
+  sections: sortItems((lesson.sections || []).map(section => sortLesson(section, mode)), mode, toSortableLesson),
+});
+
+// Courses imported before manifest orders were stored marked the root lesson with sortOrder -1
+const withRootLessonOrder = (lesson: Lesson): Lesson => {
+  return lesson.order === undefined && lesson.sortOrder === -1 ? { ...lesson, order: -1 } : lesson;
+};
+
+// Sort the lessons, sections and videos of a course in its sort mode
+export const sortCourse = (course: Course): Course => {
+  const mode = course.sortMode || DEFAULT_SORT_MODE;
+  const lessons = course.lessons.map(lesson => sortLesson(withRootLessonOrder(lesson), mode));
+  return {
+    ...course,
+    lessons: sortItems(lessons, mode, toSortableLesson),
+  };
+};
+
+// Change a course's sort mode and re-sort it; returns the updated course
+export const setCourseSortMode = async (courseId: string, sortMode: SortMode): Promise<Course | null> => {
+  const course = await getCourse(courseId);
+  if (!course) return null;
+
+  const updated = sortCourse({ ...course, sortMode });
+  await saveCourse(updated);
+  return updated;
+};
@@ -1,4 +1,7 @@
 import { openDB, IDBPDatabase } from 'idb';
+import { DEFAULT_SUBTITLE_LOOKUP } from './subtitleLookup';
+import { DEFAULT_SCAN_FILTERS } from './ignoreRules';
+import { isSessionCourse, getSessionCourse, deleteSessionCourse, toStoredSessionCourse } from './sessionCourses';
 import type { Collection, VideoProgress, FolderHandleData, FileSystemDirectoryHandle, UserPreferences } from '../types';
 
 const DB_NAME = 'localplay-db';
@@ -116,33 +119,79 @@ export const clearLastWatched = async (videoId: string): Promise<void> => {
   }
 };
 
+// Copy a progress record to another video ID (keeps the original)
+export const copyProgress = async (fromVideoId: string, toVideoId: string): Promise<void> => {
+  const db = await initDB();
+  const progress = await db.get('progress', fromVideoId);
+  if (progress) {
+    await db.put('progress', {
+      ...progress,
+      id: toVideoId,
+    });
+  }
+};
+
 // Collection Operations
+// Session courses (imported from picked or dropped files) are stored without their handles;
+// reads return the full course while the session lasts.
 export const saveCollection = async (collection: Collection): Promise<void> => {
   const db = await initDB();
-  await db.put('collections', {
-    ...collection,
-    lastAccessed: Date.now(),
-  });
+  const saved = { ...collection, lastAccessed: Date.now() };
+  if (isSessionCourse(saved)) {
+    await db.put('collections', toStoredSessionCourse(saved));
+  } else {
+    await db.put('collections', saved);
+  }
+};
+
+// Change a stored collection in one transaction, so writes made by other code in the meantime aren't lost
+// The update gets the latest copy and must not await anything (the transaction would close); returning
+// that copy unchanged skips the write. Returns the stored collection, or undefined if it no longer exists.
+export const updateCollection = async (
+  id: string,
+  update: (collection: Collection) => Collection
+): Promise<Collection | undefined> => {
+  const db = await initDB();
+  const tx = db.transaction('collections', 'readwrite');
+  const stored = getSessionCourse(id) || await tx.store.get(id);
+  if (!stored) {
+    await tx.done;
+    return undefined;
+  }
+
+  const updated = update(stored);
+  if (updated === stored) {
+    await tx.done;
+    return stored;
+  }
+
+  const saved = { ...updated, lastAccessed: Date.now() };
+  await tx.store.put(isSessionCourse(saved) ? toStoredSessionCourse(saved) : saved);
+  await tx.done;
+  return saved;
 };
 
 export const getCollection = async (id: string): Promise<Collection | undefined> => {
   const db = await initDB();
-  return db.get('collections', id);
+  return getSessionCourse(id) || db.get('collections', id);
 };
 
 export const getAllCollections = async (): Promise<Collection[]> => {
   const db = await initDB();
-  return db.getAll('collections');
+  const collections = await db.getAll('collections');
+  return collections.map(collection => getSessionCourse(collection.id) || collection);
 };
 
 export const deleteCollection = async (id: string): Promise<void> => {
   const db = await initDB();
+  deleteSessionCourse(id);
   await db.delete('collections', id);
 };
 
 // Alias functions for Course naming (Collection = Course)
 export const saveCourse = saveCollection;
 export const getCourse = getCollection;
+export const updateCourse = updateCollection;
 export const getAllCourses = getAllCollections;
 export const deleteCourse = deleteCollection;
 
@@ -157,6 +206,13 @@ export const getDefaultPreferences = (): UserPreferences => ({
   defaultVolume: 1,
   theme: 'dark',
   subtitlesEnabled: true,
+  preferredSubtitleLanguages: [],
+  subtitleLookup: DEFAULT_SUBTITLE_LOOKUP,
+  scanFilters: DEFAULT_SCAN_FILTERS,
+  joinVideoParts: true,
+  autoRemux: false,
+  cacheRemuxedVideos: false,
+  watchFolders: false,
   lastUpdated: Date.now(),
 });
 
@@ -176,5 +232,6 @@ export const savePreferences = async (preferences: Partial<UserPreferences>): Pr
 export const getPreferences = async (): Promise<UserPreferences> => {
   const db = await initDB();
   const preferences = await db.get('preferences', 'user-preferences');
-  return preferences || getDefaultPreferences();
+  // Fill in defaults for preferences added after the record was saved
+  return { ...getDefaultPreferences(), ...preferences };
 };
@@ -0,0 +1,142 @@
+import { isSubtitleFile, createSubtitleTrack } from './subtitles';
+import { isChapterFile } from './chapters';
+import type {
+  SubtitleTrack,
+  SubtitleLookupOptions,
+  SubtitleNameMatching,
+  FileSystemDirectoryHandle,
+  FileSystemFileHandle,
+} from '../types';
+
+// Default lookup: search everywhere, tolerate case and punctuation differences
+export const DEFAULT_SUBTITLE_LOOKUP: SubtitleLookupOptions = {
+  locations: ['sameFolder', 'subsFolder', 'siblingFolder'],
+  nameMatching: 'fuzzy',
+};
+
+// Subfolder names (case-insensitive) searched by the 'subsFolder' strategy
+export const SUBTITLE_FOLDER_NAMES = ['subs', 'sub', 'subtitles', 'subtitle'];
+
+// Check if a folder is a subtitles folder (never treated as a lesson or section)
+export const isSubtitleFolder = (name: string): boolean => {
+  return name.endsWith('_subtitles') || SUBTITLE_FOLDER_NAMES.includes(name.toLowerCase());
+};
+
+// A subtitle file found near a lesson folder, before it is matched to a video
+export interface SubtitleCandidate {
+  path: string;  // Path relative to the lesson folder, e.g. "subs/video.en.srt"
+  fileHandle: FileSystemFileHandle;
+}
+
+// Add every subtitle file in a folder to the candidate list (WebVTT chapter files are not subtitles)
+const collectFromFolder = async (
+  dirHandle: FileSystemDirectoryHandle,
+  pathPrefix: string,
+  candidates: SubtitleCandidate[]
+): Promise<void> => {
+  for await (const entry of dirHandle.values()) {
+    if (entry.kind === 'file' && isSubtitleFile(entry.name) && !isChapterFile(entry.name)) {
+      candidates.push({
+        path: `${pathPrefix}${entry.name}`,
+        fileHandle: await dirHandle.getFileHandle(entry.name),
+      });
+    }
+  }
+};
+
+// Collect subtitle files for the videos in a lesson folder, once per folder,
+// from each enabled location in order:
+// - sameFolder: next to the videos
+// - subsFolder: a "subs"/"subtitles" subfolder of the lesson folder
+// - siblingFolder: a "{lessonFolderName}_subtitles" folder next to the lesson folder
+export const collectSubtitleCandidates = async (
+  dirHandle: FileSystemDirectoryHandle,
+  parentDirHandle: FileSystemDirectoryHandle,
+  lessonFolderName: string,
+  options: SubtitleLookupOptions
+): Promise<SubtitleCandidate[]> => {
+  const candidates: SubtitleCandidate[] = [];
+
+  for (const location of options.locations) {
+    try {
+      if (location === 'sameFolder') {
+        await collectFromFolder(dirHandle, '', candidates);
+      } else if (location === 'subsFolder') {
+        for await (const entry of dirHandle.values()) {
+          if (entry.kind === 'directory' && SUBTITLE_FOLDER_NAMES.includes(entry.name.toLowerCase())) {
+            const subsDir = await dirHandle.getDirectoryHandle(entry.name);
+            await collectFromFolder(subsDir, `${entry.name}/`, candidates);
+          }
+        }
+      } else if (location === 'siblingFolder') {
+        const siblingName = `${lessonFolderName}_subtitles`;
+        const siblingDir = await parentDirHandle.getDirectoryHandle(siblingName);
+        await collectFromFolder(siblingDir, `../${siblingName}/`, candidates);
+      }
+    } catch {
+      // Folder not found or not readable - nothing from this location
+    }
+  }
+
+  return candidates;
+};
+
+// Normalize a name for comparison according to the matching mode
+const normalizeName = (name: string, nameMatching: SubtitleNameMatching): string => {
+  if (nameMatching === 'exact') return name;
+  if (nameMatching === 'caseInsensitive') return name.toLowerCase();
+
+  // Fuzzy: ignore case, accents, spacing and punctuation ("01 - Intro" == "01_intro")
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+};
+
+// Longest language/flag suffix considered ("pt-BR.sdh.forced")
+const MAX_SUFFIX_TOKENS = 3;
+
+// Get the part of a subtitle filename between the video name and the extension
+// ("Intro.mp4" + "Intro.en.srt" -> "en", "Intro.srt" -> ""); null if it belongs to another video
+export const getSubtitleSuffix = (
+  subtitleFilename: string,
+  videoFilename: string,
+  nameMatching: SubtitleNameMatching = 'exact'
+): string | null => {
+  const videoBase = normalizeName(videoFilename.replace(/\.[^/.]+$/, ''), nameMatching);
+  const tokens = subtitleFilename.replace(/\.[^/.]+$/, '').split('.');
+
+  // Try the whole name first, then peel off up to MAX_SUFFIX_TOKENS trailing ".xx" parts
+  for (let suffixLength = 0; suffixLength <= Math.min(MAX_SUFFIX_TOKENS, tokens.length - 1); suffixLength++) {
+    const base = tokens.slice(0, tokens.length - suffixLength).join('.');
+    if (normalizeName(base, nameMatching) === videoBase) {
+      return tokens.slice(tokens.length - suffixLength).join('.');
+    }
+  }
+  return null;
+};
+
+// Match collected subtitle candidates to a video and build its subtitle tracks
+export const matchSubtitlesForVideo = (
+  candidates: SubtitleCandidate[],
+  videoFilename: string,
+  nameMatching: SubtitleNameMatching
+): SubtitleTrack[] => {
+  const tracks: SubtitleTrack[] = [];
+  const seenFilenames = new Set<string>();
+
+  for (const candidate of candidates) {
+    // The same file in several locations is only listed once (earlier locations win)
+    if (seenFilenames.has(candidate.fileHandle.name)) continue;
+
+    const suffix = getSubtitleSuffix(candidate.fileHandle.name, videoFilename, nameMatching);
+    if (suffix === null) continue;
+
+    seenFilenames.add(candidate.fileHandle.name);
+    tracks.push({ ...createSubtitleTrack(candidate.fileHandle, suffix), id: candidate.path });
+  }
+
+  // Sort by label for a stable menu order
+  return tracks.sort((a, b) => a.label.localeCompare(b.label));
+};
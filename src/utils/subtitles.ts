@@ -0,0 +1,614 @@
+import type { SubtitleCue, SubtitleSpan, SubtitleTrack, Video, FileSystemFileHandle } from '../types';
+
+// Supported subtitle formats
+export const SUBTITLE_EXTENSIONS = ['.srt', '.vtt', '.ass', '.ssa', '.sub'];
+
+// Get lowercase extension of a filename (including the dot)
+const getExtension = (filename: string): string => {
+  const dotIndex = filename.lastIndexOf('.');
+  return dotIndex >= 0 ? filename.slice(dotIndex).toLowerCase() : '';
+};
+
+// Check if file is a subtitle file
+export const isSubtitleFile = (filename: string): boolean => {
+  return SUBTITLE_EXTENSIONS.includes(getExtension(filename));
+};
+
+// Style state while walking through markup
+type SpanStyle = Omit<SubtitleSpan, 'text'>;
+
+// Position taken from a cue's settings or alignment tags
+type CuePosition = Pick<SubtitleCue, 'align' | 'vertical'>;
+
+// Normalize line endings (handle Windows \r\n and old Mac \r) and strip a byte order mark
+const normalizeContent = (content: string): string => {
+  return content.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n').replace(/\r/g, '\n');
+};
+
+// Parse a timestamp like "01:02:03,456", "02:03.456" or "1:02:03.45" into seconds
+const parseTimestamp = (value: string): number => {
+  const parts = value.trim().split(':');
+  const seconds = parseFloat(parts.pop()!.replace(',', '.'));
+  return parts.reduce((total, part) => total * 60 + parseInt(part, 10), 0) * 60 + seconds;
+};
+
+// Decode the HTML entities that appear in SRT/WebVTT text
+const decodeEntities = (text: string): string => {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lrm;/g, '\u200E')
+    .replace(/&rlm;/g, '\u200F')
+    .replace(/&amp;/g, '&');
+};
+
+// Append text to a span list, merging with the previous span if the style is unchanged
+const appendSpan = (spans: SubtitleSpan[], text: string, style: SpanStyle): void => {
+  if (!text) return;
+  const last = spans[spans.length - 1];
+  if (
+    last &&
+    last.bold === style.bold &&
+    last.italic === style.italic &&
+    last.underline === style.underline &&
+    last.color === style.color
+  ) {
+    last.text += text;
+  } else {
+    spans.push({ text, ...style });
+  }
+};
+
+// Build a cue, only keeping spans when at least one of them carries styling
+const buildCue = (
+  id: number,
+  startTime: number,
+  endTime: number,
+  spans: SubtitleSpan[],
+  position: CuePosition = {}
+): SubtitleCue => {
+  const text = spans.map(span => span.text).join('').trim();
+  const isStyled = spans.some(span => span.bold || span.italic || span.underline || span.color);
+
+  return {
+    id,
+    startTime,
+    endTime,
+    text,
+    ...(isStyled ? { spans } : {}),
+    ...(position.align ? { align: position.align } : {}),
+    ...(position.vertical ? { vertical: position.vertical } : {}),
+  };
+};
+
+// Map a numpad-style alignment (1-9, as used by ASS and {\anN} tags) to a cue position
+const positionFromNumpad = (alignment: number): CuePosition => {
+  if (alignment < 1 || alignment > 9) return {};
+  const column = (alignment - 1) % 3;
+  const row = Math.floor((alignment - 1) / 3);
+  return {
+    align: column === 0 ? 'left' : column === 2 ? 'right' : 'center',
+    vertical: row === 0 ? 'bottom' : row === 1 ? 'middle' : 'top',
+  };
+};
+
+// Map legacy SSA alignment (1-3 bottom, 5-7 top, 9-11 middle) to numpad alignment
+const ssaToNumpadAlignment = (alignment: number): number => {
+  if (alignment >= 5 && alignment <= 7) return alignment + 2;
+  if (alignment >= 9 && alignment <= 11) return alignment - 5;
+  return alignment;
+};
+
+// WebVTT default color classes (<c.yellow>)
+const VTT_COLOR_CLASSES = ['white', 'lime', 'cyan', 'red', 'yellow', 'magenta', 'blue', 'black'];
+
+// Parse HTML-like markup used by SRT and WebVTT (<b>, <i>, <u>, <font color>, <c.color>)
+const parseMarkup = (input: string): SubtitleSpan[] => {
+  const spans: SubtitleSpan[] = [];
+  const stack: SpanStyle[] = [{}];
+  const tagRegex = /<(\/?)([a-zA-Z]+)([^>]*)>/g;
+
+  // Drop WebVTT karaoke timestamps (<00:00:01.000>)
+  const text = input.replace(/<\d[^>]*>/g, '');
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tagRegex.exec(text)) !== null) {
+    appendSpan(spans, decodeEntities(text.slice(lastIndex, match.index)), stack[stack.length - 1]);
+    lastIndex = tagRegex.lastIndex;
+
+    const [, closing, rawName, attributes] = match;
+    const name = rawName.toLowerCase();
+
+    if (name === 'br') {
+      appendSpan(spans, '\n', stack[stack.length - 1]);
+      continue;
+    }
+
+    if (closing) {
+      if (stack.length > 1) stack.pop();
+      continue;
+    }
+
+    const style: SpanStyle = { ...stack[stack.length - 1] };
+    if (name === 'b') style.bold = true;
+    if (name === 'i') style.italic = true;
+    if (name === 'u') style.underline = true;
+    if (name === 'font') {
+      const colorMatch = attributes.match(/color\s*=\s*["']?([^"'\s>]+)/i);
+      if (colorMatch) style.color = colorMatch[1];
+    }
+    if (name === 'c') {
+      const colorClass = attributes.split('.').find(cls => VTT_COLOR_CLASSES.includes(cls));
+      if (colorClass) style.color = colorClass;
+    }
+    stack.push(style);
+  }
+  appendSpan(spans, decodeEntities(text.slice(lastIndex)), stack[stack.length - 1]);
+
+  return spans;
+};
+
+// Parse SRT content into SubtitleCue array
+export const parseSRT = (content: string): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  const blocks = normalizeContent(content).trim().split(/\n\s*\n/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n').map(line => line.trim());
+    const timeIndex = lines.findIndex(line => line.includes('-->'));
+    if (timeIndex < 0) continue;
+
+    const timeMatch = lines[timeIndex].match(
+      /(\d+:\d{2}:\d{2}[,.]\d{1,3})\s*-->\s*(\d+:\d{2}:\d{2}[,.]\d{1,3})/
+    );
+    if (!timeMatch) continue;
+
+    const idMatch = timeIndex > 0 ? lines[timeIndex - 1].match(/^\d+$/) : null;
+
+    // Some SRT files carry ASS-style position tags ({\an8})
+    let rawText = lines.slice(timeIndex + 1).join('\n');
+    let position: CuePosition = {};
+    const alignMatch = rawText.match(/\{\\an(\d)\}/);
+    if (alignMatch) {
+      position = positionFromNumpad(parseInt(alignMatch[1], 10));
+    }
+    rawText = rawText.replace(/\{\\[^}]*\}/g, '');
+
+    cues.push(buildCue(
+      idMatch ? parseInt(idMatch[0], 10) : cues.length + 1,
+      parseTimestamp(timeMatch[1]),
+      parseTimestamp(timeMatch[2]),
+      parseMarkup(rawText),
+      position
+    ));
+  }
+
+  return cues;
+};
+
+// Parse WebVTT cue settings ("align:start line:10%") into a cue position
+const parseVTTSettings = (settings: string): CuePosition => {
+  const position: CuePosition = {};
+
+  for (const setting of settings.trim().split(/\s+/)) {
+    const [key, value] = setting.split(':');
+    if (!value) continue;
+
+    if (key === 'align') {
+      if (value === 'start' || value === 'left') position.align = 'left';
+      else if (value === 'end' || value === 'right') position.align = 'right';
+      else position.align = 'center';
+    }
+
+    if (key === 'line') {
+      const lineValue = value.split(',')[0];
+      if (lineValue.endsWith('%')) {
+        const percent = parseFloat(lineValue);
+        position.vertical = percent < 34 ? 'top' : percent < 67 ? 'middle' : 'bottom';
+      } else {
+        // Line numbers count from the top when positive, from the bottom when negative
+        position.vertical = parseInt(lineValue, 10) >= 0 ? 'top' : 'bottom';
+      }
+    }
+  }
+
+  return position;
+};
+
+// Parse WebVTT content into SubtitleCue array
+export const parseVTT = (content: string): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  const blocks = normalizeContent(content).trim().split(/\n\s*\n/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const firstLine = lines[0].trim();
+
+    // Skip header, comments and style/region definitions
+    if (/^(WEBVTT|NOTE|STYLE|REGION)\b/.test(firstLine)) continue;
+
+    const timeIndex = lines.findIndex(line => line.includes('-->'));
+    if (timeIndex < 0) continue;
+
+    const timeMatch = lines[timeIndex].match(
+      /((?:\d+:)?\d{2}:\d{2}\.\d{3})\s*-->\s*((?:\d+:)?\d{2}:\d{2}\.\d{3})(.*)$/
+    );
+    if (!timeMatch) continue;
+
+    cues.push(buildCue(
+      cues.length + 1,
+      parseTimestamp(timeMatch[1]),
+      parseTimestamp(timeMatch[2]),
+      parseMarkup(lines.slice(timeIndex + 1).join('\n').trim()),
+      parseVTTSettings(timeMatch[3])
+    ));
+  }
+
+  return cues;
+};
+
+// Convert an ASS/SSA color (&HAABBGGRR, &HBBGGRR or decimal BGR) to a CSS hex color
+const parseASSColor = (value: string): string | undefined => {
+  const trimmed = value.trim().replace(/&$/, '');
+  let bgr: number;
+  if (/^&H/i.test(trimmed)) {
+    bgr = parseInt(trimmed.slice(2).slice(-6), 16);
+  } else {
+    bgr = parseInt(trimmed, 10);
+  }
+  if (isNaN(bgr)) return undefined;
+
+  const r = bgr & 0xff;
+  const g = (bgr >> 8) & 0xff;
+  const b = (bgr >> 16) & 0xff;
+  const hex = `#${[r, g, b].map(c => c.toString(16).padStart(2, '0')).join('')}`;
+
+  // White is the default subtitle color - no need to carry it
+  return hex === '#ffffff' ? undefined : hex;
+};
+
+// ASS/SSA style definition (from the [V4+ Styles] / [V4 Styles] section)
+interface ASSStyle {
+  style: SpanStyle;
+  alignment: number;  // Numpad alignment
+}
+
+// ASS booleans are -1 (true) or 0 (false)
+const parseASSBoolean = (value: string | undefined): boolean | undefined => {
+  return value !== undefined && value.trim() !== '0' && value.trim() !== '' ? true : undefined;
+};
+
+// Split a "Key: a,b,c" line into values, keeping commas in the last field (Dialogue text)
+const splitASSFields = (value: string, fieldCount: number): string[] => {
+  const parts = value.split(',');
+  if (parts.length <= fieldCount) return parts;
+  return [...parts.slice(0, fieldCount - 1), parts.slice(fieldCount - 1).join(',')];
+};
+
+// Parse ASS dialogue text with override tags ({\i1}, {\b1}, {\c&H...&}, {\an8}) into spans
+const parseASSText = (
+  input: string,
+  baseStyle: ASSStyle
+): { spans: SubtitleSpan[]; alignment: number } => {
+  const spans: SubtitleSpan[] = [];
+  let style: SpanStyle = { ...baseStyle.style };
+  let alignment = baseStyle.alignment;
+  let isDrawing = false;
+
+  const text = input.replace(/\\N/g, '\n').replace(/\\n/g, '\n').replace(/\\h/g, ' ');
+  const blockRegex = /\{([^}]*)\}/g;
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = blockRegex.exec(text)) !== null) {
+    if (!isDrawing) appendSpan(spans, text.slice(lastIndex, match.index), style);
+    lastIndex = blockRegex.lastIndex;
+
+    const tags = match[1].split('\\').slice(1).map(tag => tag.trim());
+    for (const tag of tags) {
+      let tagMatch: RegExpMatchArray | null;
+
+      if ((tagMatch = tag.match(/^([biu])(\d+)$/))) {
+        // \b can also carry a font weight (e.g. \b700)
+        const isOn = tagMatch[2] !== '0' && (tagMatch[1] !== 'b' || tagMatch[2] === '1' || parseInt(tagMatch[2], 10) >= 600);
+        const key = tagMatch[1] === 'b' ? 'bold' : tagMatch[1] === 'i' ? 'italic' : 'underline';
+        style[key] = isOn ? true : undefined;
+      } else if ((tagMatch = tag.match(/^1?c(&H[0-9a-fA-F]+&?)?$/))) {
+        style.color = tagMatch[1] ? parseASSColor(tagMatch[1]) : baseStyle.style.color;
+      } else if ((tagMatch = tag.match(/^an(\d)$/))) {
+        alignment = parseInt(tagMatch[1], 10);
+      } else if ((tagMatch = tag.match(/^a(\d+)$/))) {
+        alignment = ssaToNumpadAlignment(parseInt(tagMatch[1], 10));
+      } else if ((tagMatch = tag.match(/^p(\d+)$/))) {
+        isDrawing = parseInt(tagMatch[1], 10) > 0;
+      } else if (tag === 'r' || /^r[^a-z]/.test(tag)) {
+        style = { ...baseStyle.style };
+      }
+    }
+  }
+  if (!isDrawing) appendSpan(spans, text.slice(lastIndex), style);
+
+  return { spans, alignment };
+};
+
+// Parse ASS/SSA content into SubtitleCue array
+export const parseASS = (content: string): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  const styles: Record<string, ASSStyle> = {};
+  const defaultStyle: ASSStyle = { style: {}, alignment: 2 };
+
+  let section = '';
+  let isLegacySSA = false;
+  let styleFormat: string[] = [];
+  let eventFormat: string[] = [];
+
+  for (const rawLine of normalizeContent(content).split('\n')) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(';')) continue;
+
+    const sectionMatch = line.match(/^\[(.+)\]$/);
+    if (sectionMatch) {
+      section = sectionMatch[1].toLowerCase();
+      if (section === 'v4 styles') isLegacySSA = true;
+      continue;
+    }
+
+    const colonIndex = line.indexOf(':');
+    if (colonIndex < 0) continue;
+    const key = line.slice(0, colonIndex).trim().toLowerCase();
+    const value = line.slice(colonIndex + 1).trim();
+
+    if (section.endsWith('styles')) {
+      if (key === 'format') {
+        styleFormat = value.split(',').map(field => field.trim().toLowerCase());
+      } else if (key === 'style' && styleFormat.length > 0) {
+        const fields = splitASSFields(value, styleFormat.length);
+        const get = (name: string) => fields[styleFormat.indexOf(name)];
+        const alignment = parseInt(get('alignment') ?? '2', 10) || 2;
+        const primaryColour = get('primarycolour');
+
+        styles[(get('name') ?? '').trim()] = {
+          style: {
+            bold: parseASSBoolean(get('bold')),
+            italic: parseASSBoolean(get('italic')),
+            underline: parseASSBoolean(get('underline')),
+            color: primaryColour ? parseASSColor(primaryColour) : undefined,
+          },
+          alignment: isLegacySSA ? ssaToNumpadAlignment(alignment) : alignment,
+        };
+      }
+    } else if (section === 'events') {
+      if (key === 'format') {
+        eventFormat = value.split(',').map(field => field.trim().toLowerCase());
+      } else if (key === 'dialogue' && eventFormat.length > 0) {
+        const fields = splitASSFields(value, eventFormat.length);
+        const get = (name: string) => fields[eventFormat.indexOf(name)] ?? '';
+
+        const baseStyle = styles[get('style').trim().replace(/^\*/, '')] ?? defaultStyle;
+        const { spans, alignment } = parseASSText(get('text'), baseStyle);
+
+        cues.push(buildCue(
+          0,
+          parseTimestamp(get('start')),
+          parseTimestamp(get('end')),
+          spans,
+          positionFromNumpad(alignment)
+        ));
+      }
+    }
+  }
+
+  // Events are not guaranteed to be in time order
+  return cues
+    .filter(cue => cue.text.length > 0)
+    .sort((a, b) => a.startTime - b.startTime)
+    .map((cue, index) => ({ ...cue, id: index + 1 }));
+};
+
+// Frame rate assumed for MicroDVD files that don't declare one
+const DEFAULT_MICRODVD_FPS = 25;
+
+// Parse MicroDVD content ({start}{end}text, frame based) - shares the .sub extension with SubViewer
+const parseMicroDVD = (content: string): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  let fps = DEFAULT_MICRODVD_FPS;
+
+  for (const line of normalizeContent(content).split('\n')) {
+    const match = line.trim().match(/^\{(\d+)\}\{(\d+)\}(.*)$/);
+    if (!match) continue;
+
+    const [, startFrame, endFrame, rawText] = match;
+
+    // A "{1}{1}23.976" line declares the frame rate
+    if (startFrame === '1' && endFrame === '1' && /^\d+(\.\d+)?$/.test(rawText.trim())) {
+      fps = parseFloat(rawText);
+      continue;
+    }
+
+    // Only whole-line {y:i}/{y:b}/{y:u} styles are supported
+    const style: SpanStyle = {};
+    const styleMatch = rawText.match(/\{y:([biu]+)\}/i);
+    if (styleMatch) {
+      const flags = styleMatch[1].toLowerCase();
+      if (flags.includes('b')) style.bold = true;
+      if (flags.includes('i')) style.italic = true;
+      if (flags.includes('u')) style.underline = true;
+    }
+    const text = rawText.replace(/\{[^}]*\}/g, '').replace(/\|/g, '\n');
+
+    const spans: SubtitleSpan[] = [];
+    appendSpan(spans, text, style);
+    cues.push(buildCue(
+      cues.length + 1,
+      parseInt(startFrame, 10) / fps,
+      parseInt(endFrame, 10) / fps,
+      spans
+    ));
+  }
+
+  return cues;
+};
+
+// Parse SubViewer 2.0 content (.sub) into SubtitleCue array
+export const parseSubViewer = (content: string): SubtitleCue[] => {
+  const normalized = normalizeContent(content);
+
+  // .sub is also used by the frame-based MicroDVD format
+  if (/^\s*\{\d+\}\{\d+\}/m.test(normalized)) {
+    return parseMicroDVD(normalized);
+  }
+
+  const cues: SubtitleCue[] = [];
+  const lines = normalized.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const timeMatch = lines[i].trim().match(
+      /^(\d{1,2}:\d{2}:\d{2}\.\d{1,3})\s*,\s*(\d{1,2}:\d{2}:\d{2}\.\d{1,3})$/
+    );
+    if (!timeMatch) continue;
+
+    // Text continues until the next blank line
+    const textLines: string[] = [];
+    while (i + 1 < lines.length && lines[i + 1].trim() !== '') {
+      textLines.push(lines[++i].trim());
+    }
+
+    const text = textLines.join('\n').replace(/\[br\]/gi, '\n');
+    cues.push(buildCue(
+      cues.length + 1,
+      parseTimestamp(timeMatch[1]),
+      parseTimestamp(timeMatch[2]),
+      parseMarkup(text)
+    ));
+  }
+
+  return cues;
+};
+
+// Parse subtitle content, choosing the parser from the file extension
+// (falls back to sniffing the content for unknown extensions)
+export const parseSubtitles = (content: string, filename: string): SubtitleCue[] => {
+  switch (getExtension(filename)) {
+    case '.srt':
+      return parseSRT(content);
+    case '.vtt':
+      return parseVTT(content);
+    case '.ass':
+    case '.ssa':
+      return parseASS(content);
+    case '.sub':
+      return parseSubViewer(content);
+  }
+
+  const trimmed = normalizeContent(content).trimStart();
+  if (trimmed.startsWith('WEBVTT')) return parseVTT(content);
+  if (/^\[Script Info\]/i.test(trimmed)) return parseASS(content);
+  return parseSRT(content);
+};
+
+// Language code used when a subtitle filename has no recognizable language suffix
+export const UNKNOWN_LANGUAGE = 'und';
+
+// Language names sometimes used as filename suffixes ("video.English.srt")
+const LANGUAGE_NAMES: Record<string, string> = {
+  english: 'en', spanish: 'es', espanol: 'es', french: 'fr', francais: 'fr',
+  german: 'de', deutsch: 'de', italian: 'it', portuguese: 'pt', russian: 'ru',
+  japanese: 'ja', chinese: 'zh', korean: 'ko', arabic: 'ar', hindi: 'hi',
+  dutch: 'nl', polish: 'pl', turkish: 'tr', swedish: 'sv', ukrainian: 'uk',
+};
+
+// Three-letter (ISO 639-2) codes for the same languages
+const THREE_LETTER_CODES: Record<string, string> = {
+  eng: 'en', spa: 'es', fre: 'fr', fra: 'fr', ger: 'de', deu: 'de', ita: 'it',
+  por: 'pt', rus: 'ru', jpn: 'ja', chi: 'zh', zho: 'zh', kor: 'ko', ara: 'ar',
+  hin: 'hi', dut: 'nl', nld: 'nl', pol: 'pl', tur: 'tr', swe: 'sv', ukr: 'uk',
+};
+
+// Variant flags that may accompany the language ("video.en.forced.srt")
+const SUBTITLE_FLAGS: Record<string, string> = {
+  sdh: 'SDH',
+  cc: 'CC',
+  forced: 'Forced',
+};
+
+// Get a display name for a language code (e.g. "en" -> "English")
+export const getLanguageLabel = (language: string): string => {
+  if (language === UNKNOWN_LANGUAGE) return 'Unknown';
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(language) || language;
+  } catch {
+    return language;
+  }
+};
+
+// Infer language and display label from a subtitle filename suffix ("pt-BR.sdh", "English", "")
+export const parseSubtitleSuffix = (suffix: string): { language: string; label: string } => {
+  let language = UNKNOWN_LANGUAGE;
+  const flags: string[] = [];
+  const unknownTokens: string[] = [];
+
+  for (const token of suffix.split('.').filter(Boolean)) {
+    const lower = token.toLowerCase();
+
+    if (SUBTITLE_FLAGS[lower]) {
+      flags.push(SUBTITLE_FLAGS[lower]);
+    } else if (language === UNKNOWN_LANGUAGE && /^[a-z]{2}([-_][a-z0-9]{2,4})?$/i.test(token)) {
+      // Two-letter code with optional region ("en", "pt-BR", "zh_Hans")
+      const [primary, region] = token.split(/[-_]/);
+      language = region ? `${primary.toLowerCase()}-${region}` : primary.toLowerCase();
+    } else if (language === UNKNOWN_LANGUAGE && THREE_LETTER_CODES[lower]) {
+      language = THREE_LETTER_CODES[lower];
+    } else if (language === UNKNOWN_LANGUAGE && LANGUAGE_NAMES[lower]) {
+      language = LANGUAGE_NAMES[lower];
+    } else {
+      unknownTokens.push(token);
+    }
+  }
+
+  let label = language !== UNKNOWN_LANGUAGE
+    ? getLanguageLabel(language)
+    : unknownTokens.join(' ') || 'Default';
+  if (flags.length > 0) {
+    label += ` (${flags.join(', ')})`;
+  }
+
+  return { language, label };
+};
+
+// Create a subtitle track for a subtitle file, given its suffix relative to the video name
+export const createSubtitleTrack = (fileHandle: FileSystemFileHandle, suffix: string): SubtitleTrack => {
+  return {
+    id: fileHandle.name,
+    ...parseSubtitleSuffix(suffix),
+    fileHandle,
+  };
+};
+
+// Get the subtitle tracks of a video (falls back to the legacy single subtitle file)
+export const getSubtitleTracks = (video: Video): SubtitleTrack[] => {
+  if (video.subtitleTracks) return video.subtitleTracks;
+  if (video.subtitleFile) return [createSubtitleTrack(video.subtitleFile, '')];
+  return [];
+};
+
+// Check if a track language matches a preferred language ("pt" matches "pt-BR" and vice versa)
+const languageMatches = (trackLanguage: string, preferred: string): boolean => {
+  const a = trackLanguage.toLowerCase();
+  const b = preferred.toLowerCase();
+  return a === b || a.split('-')[0] === b.split('-')[0];
+};
+
+// Pick the track to show by default: the first preferred language available, else the first track
+export const pickSubtitleTrack = (
+  tracks: SubtitleTrack[],
+  preferredLanguages: string[]
+): SubtitleTrack | undefined => {
+  for (const preferred of preferredLanguages) {
+    const track = tracks.find(t => t.language === preferred)
+      ?? tracks.find(t => languageMatches(t.language, preferred));
+    if (track) return track;
+  }
+  return tracks[0];
+};
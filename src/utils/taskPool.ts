@@ -0,0 +1,68 @@
+// Error thrown when a scan or other pooled work is cancelled (same name as fetch/DOM aborts)
+export const createAbortError = (): DOMException => {
+  return new DOMException('Cancelled', 'AbortError');
+};
+
+// Throw an AbortError if the signal has been aborted
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+};
+
+export interface TaskPool {
+  run: <T>(task: () => Promise<T>) => Promise<T>;
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: DOMException) => void;
+}
+
+// Run async tasks with at most `concurrency` in flight at once
+// When the signal aborts, queued tasks are rejected with an AbortError and never start;
+// tasks already running are left to finish on their own.
+// Tasks must not wait on other tasks from the same pool, or the pool can deadlock.
+export const createTaskPool = (concurrency: number, signal?: AbortSignal): TaskPool => {
+  let active = 0;
+  const queue: Waiter[] = [];
+
+  signal?.addEventListener('abort', () => {
+    queue.splice(0).forEach(waiter => waiter.reject(createAbortError()));
+  });
+
+  const acquire = (): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError());
+      } else if (active < concurrency) {
+        active++;
+        resolve();
+      } else {
+        queue.push({
+          resolve: () => {
+            active++;
+            resolve();
+          },
+          reject,
+        });
+      }
+    });
+  };
+
+  const release = (): void => {
+    active--;
+    queue.shift()?.resolve();
+  };
+
+  const run = async <T>(task: () => Promise<T>): Promise<T> => {
+    await acquire();
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  };
+
+  return { run };
+};
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from 'vitest';
+import { startMetadataFill, subscribeToCourseUpdates } from './videoMetadata';
+import { parseFolderStructure } from './folderParser';
+import { createMemorySource } from './courseSource';
+import { getAllVideosInLessons } from './courseTree';
+import type { Course } from '../types';
+
+// Courses of memory sources hold functions, which IndexedDB can't store: keep them in a map
+const storedCourses = vi.hoisted(() => new Map<string, Course>());
+
+vi.mock('./storage', () => ({
+  updateCourse: async (id: string, update: (course: Course) => Course) => {
+    const stored = storedCourses.get(id);
+    if (!stored) return undefined;
+    const saved = update(stored);
+    storedCourses.set(id, saved);
+    return saved;
+  },
+}));
+
+// Resolves with the course once the fill has nothing left to fill in
+const waitForFill = (courseId: string): Promise<Course> => {
+  return new Promise(resolve => {
+    const unsubscribe = subscribeToCourseUpdates(course => {
+      if (course.id === courseId && !course.metadataPending) {
+        unsubscribe();
+        resolve(course);
+      }
+    });
+  });
+};
+
+describe('startMetadataFill', () => {
+  it('writes the durations and playability read through the course source', async () => {
+    // The unplayable video comes first, so no thumbnail is taken (that needs a browser)
+    const source = createMemorySource('Course', {
+      '01 Basics/01 Intro.mkv': { duration: 0, playability: 'unplayable' },
+      '01 Basics/02 Setup.mp4': { duration: 95 },
+      '01 Basics/03 Deploy.mp4': { duration: 240 },
+    });
+    const course = await parseFolderStructure(source);
+    storedCourses.set(course.id, course);
+
+    const filled = waitForFill(course.id);
+    startMetadataFill(course, source.probe);
+    const updated = await filled;
+
+    const [intro, setup, deploy] = getAllVideosInLessons(updated.lessons);
+    expect(intro.playability).toBe('unplayable');
+    expect(setup).toMatchObject({ duration: 95, playability: 'playable' });
+    expect(deploy).toMatchObject({ duration: 240, playability: 'playable' });
+    expect(storedCourses.get(course.id)).toBe(updated);
+  });
+});
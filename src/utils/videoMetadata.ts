@@ -0,0 +1,321 @@
+import { updateCourse } from './storage';
+import { updateCourseTotals } from './courseTree';
+import { createTaskPool } from './taskPool';
+import { readEmbeddedArtwork } from './audioArtwork';
+import { createCoverFromImage } from './coverArt';
+import { probeMedia, hasPlaybackProblem } from './playability';
+import { needsFolderReselect } from './sessionCourses';
+import type {
+  Course,
+  Lesson,
+  Video,
+  Playability,
+  ProbeResult,
+  MediaProber,
+  FileSystemFileHandle,
+} from '../types';
+
+// Generate thumbnail from video file (at 10s if video > 10s, else 10% or 2s)
+export const generateThumbnail = async (fileHandle: FileSystemFileHandle, duration: number): Promise<string> => {
+  return new Promise(async (resolve) => {
+    try {
+      const file = await fileHandle.getFile();
+      const videoUrl = URL.createObjectURL(file);
+
+      const video = document.createElement('video');
+      video.crossOrigin = 'anonymous';
+      video.muted = true;
+      video.preload = 'metadata';
+
+      video.onloadedmetadata = () => {
+        // Seek to 10s if video > 10s, otherwise use 10% or 2s whichever is smaller
+        const seekTime = duration > 10 ? 10 : Math.min(duration * 0.1, 2);
+        video.currentTime = seekTime;
+      };
+
+      video.onseeked = () => {
+        // Create canvas and draw the frame
+        const canvas = document.createElement('canvas');
+        const aspectRatio = video.videoWidth / video.videoHeight;
+
+        // Set thumbnail size (max 320px width)
+        canvas.width = 320;
+        canvas.height = Math.round(320 / aspectRatio);
+
+        const ctx = canvas.getContext('2d');
+        if (ctx) {
+          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+          const dataUrl = canvas.toDataURL('image/jpeg', 0.7);
+          URL.revokeObjectURL(videoUrl);
+          resolve(dataUrl);
+        } else {
+          URL.revokeObjectURL(videoUrl);
+          resolve('');
+        }
+      };
+
+      video.onerror = () => {
+        URL.revokeObjectURL(videoUrl);
+        resolve('');
+      };
+
+      // Timeout after 10 seconds
+      setTimeout(() => {
+        URL.revokeObjectURL(videoUrl);
+        resolve('');
+      }, 10000);
+
+      video.src = videoUrl;
+      video.load();
+    } catch (error) {
+      console.error('Error generating thumbnail:', error);
+      resolve('');
+    }
+  });
+};
+
+// Use the artwork embedded in an audio file as its thumbnail ('' if it has none)
+const generateAudioThumbnail = async (fileHandle: FileSystemFileHandle): Promise<string> => {
+  try {
+    const artwork = await readEmbeddedArtwork(await fileHandle.getFile());
+    return artwork ? await createCoverFromImage(artwork) : '';
+  } catch (error) {
+    console.error('Error reading audio artwork:', error);
+    return '';
+  }
+};
+
+// Background metadata fill
+// Courses are saved right after the structure scan with placeholder metadata (duration 0, no
+// thumbnails). A background job then probes each video, writes the results into IndexedDB
+// and notifies subscribed views as they arrive.
+
+// Files probed at once in the background (kept low so playback stays smooth)
+const METADATA_CONCURRENCY = 2;
+
+// Minimum time between IndexedDB writes while filling in metadata
+const SAVE_INTERVAL_MS = 1000;
+
+// Probe result of a video; joined videos also get the duration of each part
+interface VideoProbe extends ProbeResult {
+  partDurations?: number[];
+}
+
+type CourseUpdateListener = (course: Course) => void;
+
+// A running fill; isDirty is set when another fill is requested for the course while it runs
+interface MetadataJob {
+  isDirty: boolean;
+}
+
+const listeners = new Set<CourseUpdateListener>();
+const runningJobs = new Map<string, MetadataJob>();
+
+// Subscribe to courses updated by background jobs; returns an unsubscribe function
+export const subscribeToCourseUpdates = (listener: CourseUpdateListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Tell open views that a background job saved a newer version of a course
+export const notifyCourseUpdated = (course: Course): void => {
+  listeners.forEach(listener => listener(course));
+};
+
+// The playability of a joined video is that of its worst part
+const combinePlayability = (results: ProbeResult[]): Playability | undefined => {
+  const order: Playability[] = ['unplayable', 'audio-only', 'playable'];
+  if (results.some(result => !result.playability)) {
+    return results.some(result => result.playability === 'unplayable') ? 'unplayable' : undefined;
+  }
+  return order.find(playability => results.some(result => result.playability === playability));
+};
+
+// Probe a video, or each part of a joined video in turn
+const probeVideo = async (video: Video, probe: MediaProber): Promise<VideoProbe> => {
+  if (!video.parts) {
+    return probe(video.fileHandle, video.mediaType);
+  }
+
+  const results: ProbeResult[] = [];
+  for (const part of video.parts) {
+    results.push(await probe(part.fileHandle, video.mediaType));
+  }
+  return {
+    duration: results.reduce((sum, result) => sum + result.duration, 0),
+    playability: combinePlayability(results),
+    partDurations: results.map(result => result.duration),
+  };
+};
+
+// Apply collected probe results and thumbnails to a course (matched by video and lesson ID)
+const applyMetadata = (
+  course: Course,
+  probes: Map<string, VideoProbe>,
+  thumbnails: Map<string, string>
+): Course => {
+  const applyToLesson = (lesson: Lesson): Lesson => {
+    const videos = lesson.videos.map(video => {
+      const probe = probes.get(video.id);
+      if (!probe) return video;
+      return {
+        ...video,
+        duration: probe.duration || video.duration,
+        playability: probe.playability ?? video.playability,
+        parts: video.parts?.map((part, index) => ({
+          ...part,
+          duration: probe.partDurations?.[index] || part.duration,
+        })),
+      };
+    });
+    const sections = (lesson.sections || []).map(applyToLesson);
+
+    // Lessons without videos of their own use their first section's thumbnail
+    const thumbnail = thumbnails.get(lesson.id) || lesson.thumbnail ||
+      (videos.length === 0 ? sections[0]?.thumbnail : '') || '';
+
+    return { ...lesson, videos, sections, thumbnail };
+  };
+
+  return updateCourseTotals({
+    ...course,
+    lessons: course.lessons.map(applyToLesson),
+  });
+};
+
+// Check if a video still needs probing (never probed, or playable but without a duration)
+const needsProbe = (video: Video): boolean => {
+  if (video.missing) return false;
+  return !video.playability || (video.duration === 0 && video.playability !== 'unplayable');
+};
+
+// Videos on disk whose duration or playability is still unknown
+const getAllVideosNeedingProbe = (lessons: Lesson[]): Video[] => {
+  return lessons.flatMap(lesson => [
+    ...lesson.videos.filter(needsProbe),
+    ...getAllVideosNeedingProbe(lesson.sections || []),
+  ]);
+};
+
+// Collect lessons and sections that need a thumbnail, with the video to take it from
+// (folders with their own cover art don't need one)
+const collectThumbnailSources = (lessons: Lesson[], sources: Map<string, Video>): Map<string, Video> => {
+  lessons.forEach(lesson => {
+    const firstVideo = lesson.videos.find(video => !video.missing && video.playability !== 'unplayable');
+    if (!lesson.thumbnail && !lesson.cover && firstVideo) {
+      sources.set(lesson.id, firstVideo);
+    }
+    collectThumbnailSources(lesson.sections || [], sources);
+  });
+  return sources;
+};
+
+// Probe durations and playability, and generate thumbnails, for everything the structure scan left out
+// Videos a rescan or the folder watcher adds while the job runs are picked up by another pass, so
+// the course is only marked complete once nothing is left to fill in.
+const fillCourseMetadata = async (course: Course, probe: MediaProber, job: MetadataJob): Promise<void> => {
+  // Never prompt from a background job; the fill resumes once the folder is accessible again
+  if (needsFolderReselect(course)) return;
+  const permission = await course.dirHandle.queryPermission({ mode: 'read' });
+  if (permission !== 'granted') return;
+
+  // Results of every pass; a video or lesson is tried once per job, even if nothing came out of it
+  const probes = new Map<string, VideoProbe>();
+  const thumbnails = new Map<string, string>();
+  const pool = createTaskPool(METADATA_CONCURRENCY);
+  let lastSave = Date.now();
+  let isRemoved = false;
+
+  const getUnprobedVideos = (lessons: Lesson[]): Video[] => {
+    return getAllVideosNeedingProbe(lessons).filter(video => !probes.has(video.id));
+  };
+
+  const getMissingThumbnailSources = (lessons: Lesson[]): [string, Video][] => {
+    return Array.from(collectThumbnailSources(lessons, new Map())).filter(([lessonId]) => !thumbnails.has(lessonId));
+  };
+
+  // Write the collected metadata onto the latest stored copy of the course and notify open views
+  // The last flush of a pass clears metadataPending if nothing is left to fill in.
+  const flush = async (isLast: boolean): Promise<Course | undefined> => {
+    lastSave = Date.now();
+    const updated = await updateCourse(course.id, stored => {
+      const filled = applyMetadata(stored, probes, thumbnails);
+      const isComplete = isLast &&
+        getUnprobedVideos(filled.lessons).length === 0 &&
+        getMissingThumbnailSources(filled.lessons).length === 0;
+      return { ...filled, metadataPending: !isComplete };
+    });
+
+    if (!updated) {
+      // Course was removed while filling in - stop writing
+      isRemoved = true;
+      return undefined;
+    }
+    notifyCourseUpdated(updated);
+    return updated;
+  };
+
+  const flushIfDue = async (): Promise<void> => {
+    if (!isRemoved && Date.now() - lastSave > SAVE_INTERVAL_MS) {
+      await flush(false);
+    }
+  };
+
+  // Probes first, then thumbnails (the thumbnail frame depends on the duration, and
+  // videos whose picture doesn't decode get no thumbnail)
+  const fillPass = async (target: Course): Promise<void> => {
+    const probeJobs = new Map<string, Promise<void>>();
+    getUnprobedVideos(target.lessons).forEach(video => {
+      probeJobs.set(video.id, pool.run(async () => {
+        if (isRemoved) return;
+        probes.set(video.id, await probeVideo(video, probe));
+        await flushIfDue();
+      }));
+    });
+
+    const thumbnailJobs = getMissingThumbnailSources(target.lessons).map(async ([lessonId, video]) => {
+      await probeJobs.get(video.id);
+      await pool.run(async () => {
+        if (isRemoved) return;
+        const probed = probes.get(video.id);
+        const playable = { ...video, playability: probed?.playability ?? video.playability };
+        let thumbnail = '';
+        if (video.mediaType === 'audio') {
+          thumbnail = await generateAudioThumbnail(video.fileHandle);
+        } else if (!hasPlaybackProblem(playable)) {
+          thumbnail = await generateThumbnail(video.fileHandle, probed?.duration || video.duration);
+        }
+        thumbnails.set(lessonId, thumbnail);
+        await flushIfDue();
+      });
+    });
+
+    await Promise.all([...probeJobs.values(), ...thumbnailJobs]);
+  };
+
+  let target: Course | undefined = course;
+  do {
+    job.isDirty = false;
+    await fillPass(target);
+    target = isRemoved ? undefined : await flush(true);
+  } while (target && (job.isDirty || target.metadataPending));
+};
+
+// Start filling in durations and thumbnails for a course in the background
+// Files are probed with the course source's prober (a trial decode in a media element by default).
+// If a fill for the same course is already running, it takes another pass over the latest stored course instead.
+export const startMetadataFill = (course: Course, probe: MediaProber = probeMedia): void => {
+  const running = runningJobs.get(course.id);
+  if (running) {
+    running.isDirty = true;
+    return;
+  }
+
+  const job: MetadataJob = { isDirty: false };
+  runningJobs.set(course.id, job);
+  fillCourseMetadata(course, probe, job)
+    .catch(err => console.error('Error filling in video metadata:', err))
+    .finally(() => runningJobs.delete(course.id));
+};
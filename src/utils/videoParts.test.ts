@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { parsePartName, joinVideoParts, getPartIndex, getVideoChapters } from './videoParts';
+import type { Video } from '../types';
+
+const createVideo = (filename: string, fields: Partial<Video> = {}): Video => ({
+  id: `video-${filename}`,
+  filename,
+  name: filename,
+  fileHandle: { kind: 'file', name: filename, getFile: async () => new File([], filename) },
+  size: 1,
+  duration: 0,
+  sortOrder: 0,
+  numberPrefix: '',
+  mediaType: 'video',
+  ...fields,
+});
+
+const joinNames = (...filenames: string[]): string[] => {
+  return joinVideoParts(filenames.map(filename => createVideo(filename)), baseName => baseName)
+    .map(video => video.parts ? `${video.name} [${video.parts.length}]` : video.filename);
+};
+
+describe('parsePartName', () => {
+  it('reads letter and numbered part markers', () => {
+    expect(parsePartName('03a Intro.mp4')).toMatchObject({ index: 0, baseName: '03 Intro' });
+    expect(parsePartName('03b Intro.mp4')).toMatchObject({ index: 1 });
+    expect(parsePartName('Hooks - Part 2.mp4')).toMatchObject({ index: 1, baseName: 'Hooks' });
+    expect(parsePartName('Hooks (pt. 3 of 4).mp4')).toMatchObject({ index: 2, baseName: 'Hooks' });
+    expect(parsePartName('Movie CD1.mkv')).toMatchObject({ index: 0, baseName: 'Movie' });
+  });
+
+  it('ignores section numbers and words that only contain a marker', () => {
+    expect(parsePartName('Part 1.2 Setup.mp4')).toBeNull();
+    expect(parsePartName('Departure 2.mp4')).toBeNull();
+    expect(parsePartName('03 Intro.mp4')).toBeNull();
+  });
+});
+
+describe('joinVideoParts', () => {
+  it('joins complete sequences and leaves the rest alone', () => {
+    expect(joinNames('03a Intro.mp4', '03b Intro.mp4', '04 Next.mp4'))
+      .toEqual(['03 Intro [2]', '04 Next.mp4']);
+    // A sequence must start at the first part and have no gaps
+    expect(joinNames('Hooks part 2.mp4', 'Hooks part 3.mp4')).toEqual(['Hooks part 2.mp4', 'Hooks part 3.mp4']);
+    expect(joinNames('Hooks part 1.mp4', 'Hooks part 3.mp4')).toEqual(['Hooks part 1.mp4', 'Hooks part 3.mp4']);
+    expect(joinNames('4k Video.mp4')).toEqual(['4k Video.mp4']);
+  });
+
+  it('sums sizes and durations and keeps the first part’s ID', () => {
+    const [joined] = joinVideoParts([
+      createVideo('Talk part 2.mp4', { size: 20, duration: 200 }),
+      createVideo('Talk part 1.mp4', { size: 10, duration: 100 }),
+    ], baseName => baseName);
+
+    expect(joined).toMatchObject({ id: 'video-Talk part 1.mp4', size: 30, duration: 300 });
+    expect(joined.parts?.map(part => part.filename)).toEqual(['Talk part 1.mp4', 'Talk part 2.mp4']);
+  });
+});
+
+describe('getPartIndex', () => {
+  it('finds the part playing at a time on the joined timeline', () => {
+    expect(getPartIndex([100, 200, 50], 0)).toBe(0);
+    expect(getPartIndex([100, 200, 50], 150)).toBe(1);
+    expect(getPartIndex([100, 200, 50], 300)).toBe(2);
+    expect(getPartIndex([100, 200, 50], 1000)).toBe(2);
+  });
+
+  it('stops at the first part with an unknown duration', () => {
+    expect(getPartIndex([100, 0, 50], 500)).toBe(1);
+  });
+});
+
+describe('getVideoChapters', () => {
+  it('places each part’s chapters on the joined timeline', () => {
+    const video = createVideo('Talk part 1.mp4', {
+      parts: [
+        { filename: 'Talk part 1.mp4', fileHandle: createVideo('a').fileHandle, size: 1, duration: 100 },
+        {
+          filename: 'Talk part 2.mp4',
+          fileHandle: createVideo('b').fileHandle,
+          size: 1,
+          duration: 100,
+          chapters: [{ title: 'Q&A', startTime: 30 }],
+        },
+      ],
+    });
+
+    expect(getVideoChapters(video, [100, 100])).toEqual([
+      { title: 'Part 1', startTime: 0 },
+      { title: 'Q&A', startTime: 130 },
+    ]);
+    expect(getVideoChapters(video, [0, 100])).toEqual([{ title: 'Part 1', startTime: 0 }]);
+  });
+});
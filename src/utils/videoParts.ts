@@ -0,0 +1,155 @@
+import type { Video, VideoPart, Chapter, SubtitleTrack } from '../types';
+
+// Multi-part videos
+// A lecture split into "03a"/"03b" or "Part 1"/"Part 2" files is joined into one video that
+// plays its parts back to back. The joined video keeps the first part's ID, so its progress
+// is saved under that ID, with times on the joined timeline.
+
+// "03a Intro", "03b Intro": a number prefix followed by a part letter
+const LETTER_PART = /^(\d+)([a-z])(?=[\s\-_.]|$)(.*)$/i;
+
+// "Hooks part1", "Hooks - Part 2", "Hooks (pt. 3 of 4)", "Hooks CD2"
+// The part number must not continue as a section number ("Part 1.2" is not a part).
+const NUMBERED_PART = /^(.*?)[\s\-_.([]*\b(?:part|pt|cd|disc|disk)\.?[\s\-_.]*(\d{1,2})(?:\s*of\s*\d{1,2})?[)\]]?(?![\d.])(.*)$/i;
+
+interface PartName {
+  key: string;       // Same for every part of one video
+  index: number;     // 0 for the first part ("a", "part 1")
+  baseName: string;  // Filename without extension and without the part marker
+}
+
+// Read the part marker of a filename, or null if it has none
+export const parsePartName = (filename: string): PartName | null => {
+  const name = filename.replace(/\.[^/.]+$/, '');
+
+  const letter = name.match(LETTER_PART);
+  if (letter) {
+    return {
+      key: `letter:${parseInt(letter[1], 10)}`,
+      index: letter[2].toLowerCase().charCodeAt(0) - 'a'.charCodeAt(0),
+      baseName: `${letter[1]}${letter[3]}`.trim(),
+    };
+  }
+
+  const numbered = name.match(NUMBERED_PART);
+  if (numbered) {
+    const before = numbered[1].trim();
+    const after = numbered[3].replace(/^[\s\-_.)\]]+/, '').trim();
+    return {
+      key: `part:${before.toLowerCase()}|${after.toLowerCase()}`,
+      index: parseInt(numbered[2], 10) - 1,
+      baseName: after ? `${before} ${after}`.trim() : before,
+    };
+  }
+
+  return null;
+};
+
+const toVideoPart = (video: Video): VideoPart => ({
+  filename: video.filename,
+  path: video.path,
+  fileHandle: video.fileHandle,
+  size: video.size,
+  duration: video.duration,
+  fingerprint: video.fingerprint,
+  subtitleTracks: video.subtitleTracks,
+  chapters: video.chapters,
+});
+
+// Join the parts of split videos in one folder
+// Only complete sequences are joined: at least two files of the same media type whose part
+// markers run from the first ("a", "1") without gaps. getName names the joined video from the
+// first part and its filename without the part marker.
+export const joinVideoParts = (
+  videos: Video[],
+  getName: (baseName: string, first: Video) => string
+): Video[] => {
+  const groups = new Map<string, { video: Video; part: PartName }[]>();
+  videos.forEach(video => {
+    const part = parsePartName(video.filename);
+    if (!part || part.baseName === '') return;
+    const key = `${video.mediaType || 'video'}:${part.key}`;
+    groups.set(key, [...(groups.get(key) || []), { video, part }]);
+  });
+
+  const joined = new Map<Video, Video | null>();  // Joined video for its first part, null for the others
+  groups.forEach(members => {
+    if (members.length < 2) return;
+    const sorted = [...members].sort((a, b) => a.part.index - b.part.index);
+    if (sorted.some((member, index) => member.part.index !== index)) return;
+
+    const first = sorted[0].video;
+    const parts = sorted.map(member => toVideoPart(member.video));
+    joined.set(first, {
+      ...first,
+      name: getName(sorted[0].part.baseName, first),
+      size: parts.reduce((sum, part) => sum + part.size, 0),
+      duration: parts.reduce((sum, part) => sum + part.duration, 0),
+      chapters: undefined,  // Per part; see getVideoChapters
+      resources: sorted.flatMap(member => member.video.resources || []),
+      parts,
+    });
+    sorted.slice(1).forEach(member => joined.set(member.video, null));
+  });
+
+  return videos
+    .map(video => (joined.has(video) ? joined.get(video) : video))
+    .filter((video): video is Video => !!video);
+};
+
+// Durations of a video's parts (a single duration for an ordinary video)
+export const getPartDurations = (video: Video): number[] => {
+  return video.parts ? video.parts.map(part => part.duration) : [video.duration];
+};
+
+// Start time of each part on the joined timeline
+export const getPartOffsets = (durations: number[]): number[] => {
+  const offsets: number[] = [];
+  durations.reduce((start, duration) => {
+    offsets.push(start);
+    return start + duration;
+  }, 0);
+  return offsets;
+};
+
+// Index of the part playing at a time on the joined timeline
+// Stops at the first part whose duration is still unknown (its end can't be placed yet).
+export const getPartIndex = (durations: number[], time: number): number => {
+  let index = 0;
+  let end = durations[0] ?? 0;
+  while (index < durations.length - 1 && durations[index] > 0 && time >= end) {
+    index++;
+    end += durations[index];
+  }
+  return index;
+};
+
+// Chapters on the joined timeline: each part's own chapters, or one "Part N" chapter per part
+export const getVideoChapters = (video: Video, durations: number[]): Chapter[] => {
+  if (!video.parts) return video.chapters ?? [];
+
+  const offsets = getPartOffsets(durations);
+  return video.parts.flatMap((part, index) => {
+    // Later parts can't be placed until the earlier ones have a duration
+    if (index > 0 && durations.slice(0, index).some(duration => duration === 0)) return [];
+    const chapters = part.chapters?.length ? part.chapters : [{ title: `Part ${index + 1}`, startTime: 0 }];
+    return chapters.map(chapter => ({ ...chapter, startTime: chapter.startTime + offsets[index] }));
+  });
+};
+
+// The subtitle track of a part matching the track picked for the joined video
+// (the same embedded stream, or an external file with the same language and label)
+export const getPartSubtitleTrack = (
+  video: Video,
+  track: SubtitleTrack,
+  partIndex: number
+): SubtitleTrack | undefined => {
+  if (!video.parts || partIndex === 0) return track;
+
+  const tracks = video.parts[partIndex]?.subtitleTracks || [];
+  if (track.embedded) {
+    return tracks.find(t => t.embedded?.trackNumber === track.embedded?.trackNumber);
+  }
+  return tracks.find(t => !t.embedded && t.language === track.language && t.label === track.label)
+    ?? tracks.find(t => !t.embedded && t.language === track.language);
+};
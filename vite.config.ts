@@ -41,6 +41,17 @@ export default defineConfig({
       workbox: {
         globPatterns: ['**/*.{js,css,html,ico,png,svg}'],
         runtimeCaching: [
+          {
+            // ffmpeg.wasm core for MKV/AVI conversion; too large to precache, kept after first use
+            urlPattern: /ffmpeg-core.*\.wasm$/i,
+            handler: 'CacheFirst',
+            options: {
+              cacheName: 'ffmpeg-core-cache',
+              expiration: {
+                maxEntries: 4
+              }
+            }
+          },
           {
             urlPattern: /^https:\/\/fonts\.googleapis\.com\/.*/i,
             handler: 'CacheFirst',
@@ -58,5 +69,9 @@ export default defineConfig({
         ]
       }
     })
-  ]
+  ],
+  worker: {
+    // The remux worker loads the ffmpeg.wasm core with a dynamic import
+    format: 'es'
+  }
 })